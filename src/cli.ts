@@ -18,6 +18,16 @@ import { registerSetupCommand } from "./cli/commands/setup.js";
 import { registerPrivacyCommand } from "./cli/commands/privacy.js";
 import { registerHelpExamplesCommand } from "./cli/commands/help-examples.js";
 import { registerDebugCommand } from "./cli/commands/debug.js";
+import { registerDevCommand } from "./cli/commands/dev.js";
+import { registerUndoCommand } from "./cli/commands/undo.js";
+import { registerFixupCommand } from "./cli/commands/fixup.js";
+import { registerRewordCommand } from "./cli/commands/reword.js";
+import { registerSquashCommand } from "./cli/commands/squash.js";
+import { registerPrDescriptionCommand } from "./cli/commands/pr-description.js";
+import { registerChangelogCommand } from "./cli/commands/changelog.js";
+import { registerReleaseCommand } from "./cli/commands/release.js";
+import { registerHookCommand } from "./cli/commands/hook.js";
+import { registerLintMsgCommand } from "./cli/commands/lint-msg.js";
 
 preloadCriticalModules(process.argv[2]);
 
@@ -46,11 +56,21 @@ program
 registerCommitCommand(program);
 registerStatusCommand(program);
 registerDiffCommand(program);
+registerFixupCommand(program);
+registerRewordCommand(program);
+registerSquashCommand(program);
+registerPrDescriptionCommand(program);
+registerChangelogCommand(program);
+registerReleaseCommand(program);
+registerUndoCommand(program);
+registerHookCommand(program);
+registerLintMsgCommand(program);
 registerConfigCommand(program);
 registerSetupCommand(program);
 registerPrivacyCommand(program);
 registerHelpExamplesCommand(program);
 registerDebugCommand(program);
+registerDevCommand(program);
 
 const runDefaultCommit = async (): Promise<void> => {
   try {
@@ -0,0 +1,51 @@
+import type { Command } from "commander";
+import { lazyModules } from "../../utils/lazy-loader.js";
+import type { ChangelogMode } from "../../core/changelog.js";
+
+interface ChangelogCliOptions {
+  from?: string;
+  to?: string;
+  mode?: ChangelogMode;
+  write?: boolean;
+}
+
+export const registerChangelogCommand = (program: Command): void => {
+  program
+    .command("changelog")
+    .description(
+      "Write Keep a Changelog markdown (Added/Changed/Fixed/Removed) for a range of commits"
+    )
+    .option(
+      "--from <tag>",
+      "Start after this tag or commit (default: latest tag)"
+    )
+    .option(
+      "--to <ref>",
+      "End at this tag or commit (default: HEAD, as Unreleased)"
+    )
+    .option(
+      "--mode <mode>",
+      "ai, or conventional to classify by commit type (default: conventional when messageStyle is conventional)"
+    )
+    .option(
+      "-w, --write",
+      "Prepend the release to CHANGELOG.md instead of printing it"
+    )
+    .action(async (options: ChangelogCliOptions): Promise<void> => {
+      const { withErrorHandling } =
+        await import("../../utils/error-handler.js");
+      return withErrorHandling(
+        async (): Promise<void> => {
+          const { CommitX } = await lazyModules.commitX();
+          const commitX = new CommitX();
+          await commitX.changelog({
+            from: options.from,
+            to: options.to,
+            mode: options.mode,
+            write: options.write,
+          });
+        },
+        { operation: "changelog" }
+      );
+    });
+};
@@ -9,17 +9,22 @@ interface CommitCliOptions {
   interactive?: boolean;
   all?: boolean;
   useCached?: boolean;
+  body?: boolean;
+  hunks?: boolean;
+  atomic?: boolean;
+  amend?: boolean;
+  json?: boolean;
 }
 
 const printInteractiveUsageHint = (): void => {
   console.error(
     lightColors.red(
-      "❌ Error: --interactive option can only be used with --all flag"
+      "❌ Error: --interactive group review needs an interactive terminal"
     )
   );
   console.log(`${lightColors.yellow("\n💡 Correct usage:")}
-${lightColors.blue("  cx commit --all --interactive    # Interactive traditional workflow")}
-${lightColors.blue("  cx commit --all                  # Non-interactive traditional workflow")}
+${lightColors.blue("  cx commit --interactive          # Review AI groups before committing")}
+${lightColors.blue("  cx commit --dry-run              # Preview groups without a terminal prompt")}
 ${lightColors.blue("  cx commit                        # AI-powered intelligent grouping (default)")}
 ${lightColors.blue("  cx commit --help                 # Show all options")}`);
 };
@@ -58,7 +63,7 @@ export const registerCommitCommand = (program: Command): void => {
     )
     .option(
       "-i, --interactive",
-      "Use interactive mode (for traditional workflow only)"
+      "Review, edit, merge or split AI groups before committing (with --all: pick the message)"
     )
     .option(
       "--all",
@@ -69,35 +74,71 @@ export const registerCommitCommand = (program: Command): void => {
       "Reuse cached AI results (fresh by default)",
       false
     )
+    .option(
+      "--body",
+      "Generate a commit body listing the concrete changes (default: commitBody config)"
+    )
+    .option("--no-body", "Commit subject lines only")
+    .option(
+      "--hunks",
+      "Let AI groups split a file by hunk (default: hunkGrouping config)"
+    )
+    .option("--no-hunks", "Keep every file in a single commit")
+    .option(
+      "--atomic",
+      "Undo every commit of this run if one of them fails"
+    )
+    .option(
+      "--amend",
+      "Fold the staged changes into HEAD and regenerate its message from the combined diff"
+    )
+    .option(
+      "--json",
+      "With --dry-run: print the planned groups, skipped files and privacy notices as JSON"
+    )
     .action(async (options: CommitCliOptions): Promise<void> => {
       const { withErrorHandling } = await import(
         "../../utils/error-handler.js"
       );
       return withErrorHandling(
         async (): Promise<void> => {
-          if (options.interactive && !options.all) {
-            printInteractiveUsageHint();
-            process.exit(1);
-          }
+          const { withConsoleOnStderr } = await import(
+            "../../utils/json-output.js"
+          );
+          await withConsoleOnStderr(options.json, async () => {
+            if (options.interactive && !options.all && !process.stdin.isTTY) {
+              printInteractiveUsageHint();
+              process.exit(1);
+            }
 
-          if (options.message) {
-            options.message = await validateMessage(options.message);
-          }
+            if (options.message) {
+              options.message = await validateMessage(options.message);
+            }
 
-          const operation = options.all ? "commit-traditional" : "commit-ai";
-          const { withPerformanceTracking } = await import(
-            "../../utils/performance.js"
-          );
+            const operation = options.amend
+              ? "commit-amend"
+              : options.all
+                ? "commit-traditional"
+                : "commit-ai";
+            const { withPerformanceTracking } = await import(
+              "../../utils/performance.js"
+            );
 
-          await withPerformanceTracking(operation, async () => {
-            const { CommitX } = await lazyModules.commitX();
-            const commitX = new CommitX();
-            await commitX.commit({
-              message: options.message,
-              dryRun: options.dryRun,
-              interactive: options.interactive,
-              all: options.all,
-              useCached: options.useCached,
+            await withPerformanceTracking(operation, async () => {
+              const { CommitX } = await lazyModules.commitX();
+              const commitX = new CommitX();
+              await commitX.commit({
+                message: options.message,
+                dryRun: options.dryRun,
+                interactive: options.interactive,
+                all: options.all,
+                useCached: options.useCached,
+                body: options.body,
+                hunks: options.hunks,
+                atomic: options.atomic,
+                amend: options.amend,
+                json: options.json,
+              });
             });
           });
         },
@@ -1,4 +1,5 @@
 import type { Command } from "commander";
+import type { ConfigSource, OutputOptions } from "../../types/common.js";
 import { lightColors } from "../../utils/colors.js";
 import { lazyModules } from "../../utils/lazy-loader.js";
 
@@ -9,6 +10,18 @@ const parseConfigValue = (value: string): string | number | boolean => {
   return !isNaN(Number(value)) ? Number(value) : value;
 };
 
+const formatConfigValue = (value: unknown): string =>
+  typeof value === "object" && value !== null
+    ? JSON.stringify(value)
+    : String(value);
+
+const formatConfigSource = (source: ConfigSource): string =>
+  lightColors.gray(
+    source.kind === "default"
+      ? "(default)"
+      : `(${source.kind}: ${source.path ?? "unknown"})`
+  );
+
 export const registerConfigCommand = (program: Command): void => {
   const configCmd = program
     .command("config")
@@ -46,6 +59,21 @@ export const registerConfigCommand = (program: Command): void => {
               ? "✅ API key updated"
               : `✅ Set ${key} = ${parsedValue}`;
           console.log(lightColors.green(ack));
+
+          const source = config.getSource(key as keyof typeof config.getConfig);
+          if (source.kind === "project") {
+            console.log(
+              lightColors.yellow(
+                `⚠️  ${key} is overridden in this repository by ${source.path}`
+              )
+            );
+          } else if (source.kind === "env") {
+            console.log(
+              lightColors.yellow(
+                `⚠️  ${key} is overridden by the ${source.path} environment variable`
+              )
+            );
+          }
         },
         { operation: "configSet", key }
       );
@@ -54,7 +82,8 @@ export const registerConfigCommand = (program: Command): void => {
   configCmd
     .command("get [key]")
     .description("Get configuration value(s)")
-    .action(async (key?: string): Promise<void> => {
+    .option("--json", "Print values and their sources as JSON")
+    .action(async (key: string | undefined, options: OutputOptions) => {
       const { withErrorHandling, SecureError } = await import(
         "../../utils/error-handler.js"
       );
@@ -78,6 +107,33 @@ export const registerConfigCommand = (program: Command): void => {
                 true
               );
             }
+          }
+
+          if (options.json) {
+            const { JSON_OUTPUT_VERSION, printJson } = await import(
+              "../../utils/json-output.js"
+            );
+            const apiKey = config.getApiKey();
+            const keys = key
+              ? [key]
+              : [...new Set([...Object.keys(config.getConfig()), "apiKey"])];
+            const values = Object.fromEntries(
+              keys.map(k => {
+                const configKey = k as keyof typeof config.getConfig;
+                const value =
+                  k === "apiKey"
+                    ? apiKey
+                      ? "********"
+                      : null
+                    : (config.get(configKey) ?? null);
+                return [k, { value, source: config.getSource(configKey) }];
+              })
+            );
+            printJson({ version: JSON_OUTPUT_VERSION, values });
+            return;
+          }
+
+          if (key) {
             const value =
               key === "apiKey"
                 ? config.getApiKey()
@@ -87,8 +143,11 @@ export const registerConfigCommand = (program: Command): void => {
                 ? value
                   ? "********"
                   : "Not set"
-                : value;
-            console.log(`${key}: ${display}`);
+                : formatConfigValue(value);
+            const source = config.getSource(
+              key as keyof typeof config.getConfig
+            );
+            console.log(`${key}: ${display} ${formatConfigSource(source)}`);
             return;
           }
 
@@ -97,12 +156,21 @@ export const registerConfigCommand = (program: Command): void => {
 
           console.log(lightColors.blue("Current configuration:"));
           for (const [k, v] of Object.entries(allConfig)) {
-            const displayValue = k === "apiKey" ? "********" : v;
-            console.log(`  ${k}: ${displayValue}`);
+            const displayValue =
+              k === "apiKey" ? "********" : formatConfigValue(v);
+            const source = config.getSource(k as keyof typeof allConfig);
+            console.log(
+              `  ${k}: ${displayValue} ${formatConfigSource(source)}`
+            );
           }
 
           if (!("apiKey" in allConfig)) {
-            console.log(`  apiKey: ${apiKey ? "********" : "Not set"}`);
+            const source = apiKey
+              ? ` ${formatConfigSource(config.getSource("apiKey"))}`
+              : "";
+            console.log(
+              `  apiKey: ${apiKey ? "********" : "Not set"}${source}`
+            );
           }
         },
         { operation: "configGet", key }
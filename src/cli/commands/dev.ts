@@ -0,0 +1,77 @@
+import process from "process";
+import type { Command } from "commander";
+import { lightColors } from "../../utils/colors.js";
+import {
+  AI_MOCK_SCENARIO_ENV,
+  AI_MOCK_SERVER_PORT,
+} from "../../constants/ai.js";
+
+interface MockServerCliOptions {
+  port: string;
+  host: string;
+  scenario?: string;
+}
+
+const parsePort = (value: string): number => {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(
+      lightColors.red(`❌ Error: --port expects a port number, got "${value}"`)
+    );
+    process.exit(1);
+  }
+  return port;
+};
+
+export const registerDevCommand = (program: Command): void => {
+  const devCmd = program
+    .command("dev")
+    .description("Tools for developing and testing commit-x");
+
+  devCmd
+    .command("mock-server")
+    .description(
+      "Serve canned AI responses over an OpenAI-compatible API, for offline runs"
+    )
+    .option("--port <n>", "Port to listen on", String(AI_MOCK_SERVER_PORT))
+    .option("--host <host>", "Address to listen on", "127.0.0.1")
+    .option(
+      "--scenario <steps>",
+      `Comma-separated steps, one per request: ok, drop-files, malformed, error, timeout (default: $${AI_MOCK_SCENARIO_ENV})`
+    )
+    .action(async (options: MockServerCliOptions): Promise<void> => {
+      const { withErrorHandling } =
+        await import("../../utils/error-handler.js");
+      await withErrorHandling(
+        async (): Promise<void> => {
+          const { parseMockScenario, startMockServer } =
+            await import("../../services/ai-mock.js");
+          const scenario = parseMockScenario(
+            options.scenario ?? process.env[AI_MOCK_SCENARIO_ENV] ?? ""
+          );
+          const server = await startMockServer({
+            port: parsePort(options.port),
+            host: options.host,
+            scenario,
+            onRequest: step =>
+              console.log(lightColors.gray(`  request answered: ${step}`)),
+          });
+
+          console.log(
+            lightColors.green(`✅ Mock AI server listening on ${server.url}`)
+          );
+          if (scenario.length > 0) {
+            console.log(
+              lightColors.blue(`   Scenario: ${scenario.join(", ")}, then ok`)
+            );
+          }
+          console.log(`${lightColors.yellow("\n💡 Point cx at it:")}
+${lightColors.blue("  cx config set provider openai")}
+${lightColors.blue(`  cx config set baseUrl ${server.url}`)}
+${lightColors.blue("  export OPENAI_API_KEY=sk-mock-000000  # any placeholder")}
+${lightColors.gray("\nPress Ctrl+C to stop.")}`);
+        },
+        { operation: "mockServer" }
+      );
+    });
+};
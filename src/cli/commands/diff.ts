@@ -1,4 +1,5 @@
 import type { Command } from "commander";
+import type { OutputOptions } from "../../types/common.js";
 import { lazyModules } from "../../utils/lazy-loader.js";
 
 export const registerDiffCommand = (program: Command): void => {
@@ -6,15 +7,21 @@ export const registerDiffCommand = (program: Command): void => {
     .command("diff")
     .alias("d")
     .description("Show unstaged changes summary")
-    .action(async () => {
+    .option("--json", "Print machine-readable JSON")
+    .action(async (options: OutputOptions) => {
       const { withErrorHandling } = await import(
         "../../utils/error-handler.js"
       );
       return withErrorHandling(
         async (): Promise<void> => {
-          const { CommitX } = await lazyModules.commitX();
-          const commitX = new CommitX();
-          await commitX.diff();
+          const { withConsoleOnStderr } = await import(
+            "../../utils/json-output.js"
+          );
+          await withConsoleOnStderr(options.json, async () => {
+            const { CommitX } = await lazyModules.commitX();
+            const commitX = new CommitX();
+            await commitX.diff({ json: options.json });
+          });
         },
         { operation: "diff" }
       );
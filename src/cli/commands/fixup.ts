@@ -0,0 +1,27 @@
+import type { Command } from "commander";
+import { lazyModules } from "../../utils/lazy-loader.js";
+
+interface FixupCliOptions {
+  dryRun?: boolean;
+}
+
+export const registerFixupCommand = (program: Command): void => {
+  program
+    .command("fixup")
+    .description(
+      "Commit each changed file as a fixup! of the last commit that touched it"
+    )
+    .option("-d, --dry-run", "Show which commits would get fixups")
+    .action(async (options: FixupCliOptions): Promise<void> => {
+      const { withErrorHandling } =
+        await import("../../utils/error-handler.js");
+      return withErrorHandling(
+        async (): Promise<void> => {
+          const { CommitX } = await lazyModules.commitX();
+          const commitX = new CommitX();
+          await commitX.fixup({ dryRun: options.dryRun });
+        },
+        { operation: "fixup" }
+      );
+    });
+};
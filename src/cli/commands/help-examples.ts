@@ -15,11 +15,54 @@ ${lightColors.yellow("Basic usage:")}
   cx commit --dry-run            # Preview commits
   cx commit                      # Direct CLI access
   cx commit --use-cached         # Reuse cached AI results
+  cx commit --interactive        # Review and edit AI groups first
 
 ${lightColors.yellow("Traditional workflow:")}
   cx commit --all                # Stage all files and commit together
   cx commit -m "fix: bug"        # Use custom message (traditional)
 
+${lightColors.yellow("Amend and fixup:")}
+  cx commit --amend              # Fold staged changes into HEAD, new message
+  cx fixup                       # fixup! commits for an autosquash rebase
+  cx fixup --dry-run             # Show which commits would get fixups
+
+${lightColors.yellow("Rewriting history:")}
+  cx reword main..HEAD           # Regenerate messages for a branch's commits
+  cx reword HEAD~3.. --dry-run   # Preview new messages without rewriting
+  cx squash --onto main          # Squash the branch into one summarized commit
+  cx squash --dry-run            # Preview the summary message
+
+${lightColors.yellow("Pull requests:")}
+  cx pr-description              # Print a PR description for the branch
+  cx pr-description --base develop -o pr.md  # Against develop, into a file
+
+${lightColors.yellow("Changelog:")}
+  cx changelog                   # Unreleased changes since the latest tag
+  cx changelog --from v1.0.0 --to v1.1.0  # One release's section
+  cx changelog --write           # Prepend the section to CHANGELOG.md
+
+${lightColors.yellow("Releases:")}
+  cx release --dry-run           # Suggest the next version and draft notes
+  cx release                     # Same, then offer to create the tag
+  cx release --bump major --yes  # Tag a major release without asking
+
+${lightColors.yellow("JSON output:")}
+  cx status --json               # Repository status for scripts
+  cx diff --json | jq '.totals'  # Per-file change counts
+  cx commit --dry-run --json     # Planned groups, skipped files, privacy notes
+  cx config get --json           # Values with where each came from
+
+${lightColors.yellow("Undo:")}
+  cx undo                        # Undo the last cx run (changes stay staged)
+  cx undo --list                 # Show recorded cx sessions
+  cx undo --session 3            # Undo a specific session
+
+${lightColors.yellow("Git hooks:")}
+  cx hook install                # Suggest messages for plain git commit
+  cx hook install commit-msg     # Reject messages that fail cx lint-msg
+  cx hook uninstall [hook]       # Remove a commit-x hook
+  cx lint-msg <file>             # Check a commit message file
+
 ${lightColors.yellow("Status and information:")}
   cx status                      # Show repository status
   cx diff                        # Show changes summary
@@ -29,6 +72,11 @@ ${lightColors.yellow("Configuration:")}
   cx config                      # View configuration
   cx config set <key> <value>    # Set configuration values
   cx config reset                # Reset configuration
-  cx privacy                     # Show privacy information`);
+  cx privacy                     # Show privacy information
+
+${lightColors.yellow("Offline testing:")}
+  COMMITX_PROVIDER=mock cx commit --dry-run         # Canned answers, no network
+  COMMITX_MOCK_SCENARIO=error,drop-files cx commit  # Exercise fallback and retry
+  cx dev mock-server --scenario timeout,malformed   # OpenAI-compatible stand-in`);
     });
 };
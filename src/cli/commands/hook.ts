@@ -0,0 +1,92 @@
+import process from "process";
+import type { Command } from "commander";
+import { lightColors } from "../../utils/colors.js";
+
+interface HookCliOptions {
+  force?: boolean;
+}
+
+const HOOK_ACTIONS = ["install", "uninstall", "prepare-commit-msg"] as const;
+
+const printHookUsage = (action: string): void => {
+  console.error(lightColors.red(`❌ Unknown hook action: ${action}`));
+  console.log(`${lightColors.yellow("\n💡 Correct usage:")}
+${lightColors.blue("  cx hook install                # Fill plain `git commit` messages with commit-x")}
+${lightColors.blue("  cx hook install commit-msg     # Reject commit messages that fail cx lint-msg")}
+${lightColors.blue("  cx hook install --force        # Replace an existing hook")}
+${lightColors.blue("  cx hook uninstall [hook]       # Remove a commit-x hook")}`);
+};
+
+const printUnknownHook = (hook: string): void => {
+  console.error(lightColors.red(`❌ Unknown hook: ${hook}`));
+  console.log(
+    lightColors.yellow("💡 Supported hooks: prepare-commit-msg, commit-msg")
+  );
+};
+
+export const registerHookCommand = (program: Command): void => {
+  program
+    .command("hook <action> [hookArgs...]")
+    .description(
+      "Install or remove a git hook (install | uninstall) [prepare-commit-msg | commit-msg]"
+    )
+    .option("--force", "Replace a hook cx did not write")
+    .action(
+      async (
+        action: string,
+        hookArgs: string[],
+        options: HookCliOptions
+      ): Promise<void> => {
+        if (!(HOOK_ACTIONS as readonly string[]).includes(action)) {
+          printHookUsage(action);
+          process.exit(1);
+        }
+
+        const hooks = await import("../../core/hooks.js");
+
+        // Called by git: must exit 0 whatever happens.
+        if (action === hooks.PREPARE_COMMIT_MSG_HOOK) {
+          const [messageFile, source] = hookArgs;
+          if (messageFile) {
+            await hooks.runPrepareCommitMsg(messageFile, source);
+          }
+          process.exit(0);
+        }
+
+        const [hook = hooks.PREPARE_COMMIT_MSG_HOOK] = hookArgs;
+        if (!hooks.isManagedHook(hook)) {
+          printUnknownHook(hook);
+          process.exit(1);
+        }
+
+        const { withErrorHandling } =
+          await import("../../utils/error-handler.js");
+        return withErrorHandling(
+          async (): Promise<void> => {
+            if (action === "install") {
+              const hookPath = await hooks.installHook({ ...options, hook });
+              console.log(
+                lightColors.green(`✅ Installed commit-x hook at ${hookPath}`)
+              );
+              console.log(
+                lightColors.gray(
+                  hook === hooks.COMMIT_MSG_HOOK
+                    ? "   Commits now fail when the message does not pass `cx lint-msg`."
+                    : "   Plain `git commit` now starts with a suggested message."
+                )
+              );
+              return;
+            }
+
+            const removed = await hooks.uninstallHook(hook);
+            console.log(
+              removed
+                ? lightColors.green(`✅ Removed commit-x hook at ${removed}`)
+                : lightColors.yellow("No commit-x hook installed")
+            );
+          },
+          { operation: "hook" }
+        );
+      }
+    );
+};
@@ -0,0 +1,21 @@
+import process from "process";
+import type { Command } from "commander";
+
+export const registerLintMsgCommand = (program: Command): void => {
+  program
+    .command("lint-msg <file>")
+    .description(
+      "Check a commit message file against the commit rules and message style"
+    )
+    .action(async (file: string): Promise<void> => {
+      const { withErrorHandling } =
+        await import("../../utils/error-handler.js");
+      return withErrorHandling(
+        async (): Promise<void> => {
+          const { runLintMsg } = await import("../../core/lint-msg.js");
+          if (!(await runLintMsg(file))) process.exit(1);
+        },
+        { operation: "lintMsg" }
+      );
+    });
+};
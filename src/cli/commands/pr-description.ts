@@ -0,0 +1,35 @@
+import type { Command } from "commander";
+import { lazyModules } from "../../utils/lazy-loader.js";
+
+interface PrDescriptionCliOptions {
+  base?: string;
+  output?: string;
+}
+
+export const registerPrDescriptionCommand = (program: Command): void => {
+  program
+    .command("pr-description")
+    .description(
+      "Write a markdown pull request description for the current branch"
+    )
+    .option(
+      "--base <branch>",
+      "Branch the pull request targets (default: main, then master)"
+    )
+    .option("-o, --output <file>", "Write the markdown to a file, not stdout")
+    .action(async (options: PrDescriptionCliOptions): Promise<void> => {
+      const { withErrorHandling } =
+        await import("../../utils/error-handler.js");
+      return withErrorHandling(
+        async (): Promise<void> => {
+          const { CommitX } = await lazyModules.commitX();
+          const commitX = new CommitX();
+          await commitX.prDescription({
+            base: options.base,
+            output: options.output,
+          });
+        },
+        { operation: "pr-description" }
+      );
+    });
+};
@@ -0,0 +1,43 @@
+import type { Command } from "commander";
+import { lazyModules } from "../../utils/lazy-loader.js";
+import type { ChangelogMode } from "../../core/changelog.js";
+import type { ReleaseBump } from "../../core/release.js";
+
+interface ReleaseCliOptions {
+  bump?: ReleaseBump;
+  mode?: ChangelogMode;
+  dryRun?: boolean;
+  yes?: boolean;
+}
+
+export const registerReleaseCommand = (program: Command): void => {
+  program
+    .command("release")
+    .description(
+      "Suggest the next semantic version from the commits since the last tag, draft release notes and tag it"
+    )
+    .option("--bump <level>", "Use this bump instead: major, minor or patch")
+    .option(
+      "--mode <mode>",
+      "ai, or conventional to classify by commit type (default: conventional when messageStyle is conventional)"
+    )
+    .option("-d, --dry-run", "Show the version and notes without tagging")
+    .option("-y, --yes", "Create the tag without asking for confirmation")
+    .action(async (options: ReleaseCliOptions): Promise<void> => {
+      const { withErrorHandling } =
+        await import("../../utils/error-handler.js");
+      return withErrorHandling(
+        async (): Promise<void> => {
+          const { CommitX } = await lazyModules.commitX();
+          const commitX = new CommitX();
+          await commitX.release({
+            bump: options.bump,
+            mode: options.mode,
+            dryRun: options.dryRun,
+            yes: options.yes,
+          });
+        },
+        { operation: "release" }
+      );
+    });
+};
@@ -0,0 +1,39 @@
+import type { Command } from "commander";
+import { lazyModules } from "../../utils/lazy-loader.js";
+
+interface RewordCliOptions {
+  dryRun?: boolean;
+  yes?: boolean;
+  body?: boolean;
+}
+
+export const registerRewordCommand = (program: Command): void => {
+  program
+    .command("reword <range>")
+    .description(
+      "Regenerate the messages of existing commits (e.g. main..HEAD), keeping authors and dates"
+    )
+    .option("-d, --dry-run", "Show the proposed messages without rewriting")
+    .option("-y, --yes", "Rewrite without asking for confirmation")
+    .option(
+      "--body",
+      "Generate commit bodies listing the concrete changes (default: commitBody config)"
+    )
+    .option("--no-body", "Subject lines only")
+    .action(async (range: string, options: RewordCliOptions): Promise<void> => {
+      const { withErrorHandling } =
+        await import("../../utils/error-handler.js");
+      return withErrorHandling(
+        async (): Promise<void> => {
+          const { CommitX } = await lazyModules.commitX();
+          const commitX = new CommitX();
+          await commitX.reword(range, {
+            dryRun: options.dryRun,
+            yes: options.yes,
+            body: options.body,
+          });
+        },
+        { operation: "reword" }
+      );
+    });
+};
@@ -0,0 +1,41 @@
+import type { Command } from "commander";
+import { lazyModules } from "../../utils/lazy-loader.js";
+
+interface SquashCliOptions {
+  onto?: string;
+  dryRun?: boolean;
+  yes?: boolean;
+  body?: boolean;
+}
+
+export const registerSquashCommand = (program: Command): void => {
+  program
+    .command("squash")
+    .description(
+      "Squash the branch into one commit with an AI summary of its changes"
+    )
+    .option(
+      "--onto <branch>",
+      "Branch to squash onto (default: main, then master)"
+    )
+    .option("-d, --dry-run", "Show the summary without squashing")
+    .option("-y, --yes", "Squash without asking for confirmation")
+    .option("--no-body", "Summary subject line only")
+    .action(async (options: SquashCliOptions): Promise<void> => {
+      const { withErrorHandling } =
+        await import("../../utils/error-handler.js");
+      return withErrorHandling(
+        async (): Promise<void> => {
+          const { CommitX } = await lazyModules.commitX();
+          const commitX = new CommitX();
+          await commitX.squash({
+            onto: options.onto,
+            dryRun: options.dryRun,
+            yes: options.yes,
+            body: options.body,
+          });
+        },
+        { operation: "squash" }
+      );
+    });
+};
@@ -0,0 +1,51 @@
+import process from "process";
+import type { Command } from "commander";
+import { lightColors } from "../../utils/colors.js";
+import { lazyModules } from "../../utils/lazy-loader.js";
+
+interface UndoCliOptions {
+  session?: string;
+  list?: boolean;
+}
+
+const parseSessionId = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const id = Number(value);
+  if (!Number.isInteger(id) || id < 1) {
+    console.error(
+      lightColors.red(
+        `❌ Error: --session expects a session number, got "${value}"`
+      )
+    );
+    console.log(
+      lightColors.blue("  cx undo --list   # Show recorded sessions")
+    );
+    process.exit(1);
+  }
+  return id;
+};
+
+export const registerUndoCommand = (program: Command): void => {
+  program
+    .command("undo")
+    .description(
+      "Undo the commits of the last cx run (soft reset; changes stay staged)"
+    )
+    .option("--session <n>", "Undo a specific session from the journal")
+    .option("--list", "List the sessions recorded in this repository")
+    .action(async (options: UndoCliOptions): Promise<void> => {
+      const { withErrorHandling } =
+        await import("../../utils/error-handler.js");
+      return withErrorHandling(
+        async (): Promise<void> => {
+          const { CommitX } = await lazyModules.commitX();
+          const commitX = new CommitX();
+          await commitX.undo({
+            session: parseSessionId(options.session),
+            list: options.list,
+          });
+        },
+        { operation: "undo" }
+      );
+    });
+};
@@ -2,8 +2,18 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import process from "process";
-import { CommitConfigSchema, ApiKeySchema } from "./schemas/validation.js";
-import type { CommitConfig } from "./types/common.js";
+import {
+  CommitConfigSchema,
+  ApiKeySchema,
+  EnvProviderSchema,
+} from "./schemas/validation.js";
+import type {
+  AIProviderName,
+  CommitConfig,
+  ConfigSource,
+  MessageStyle,
+  ModelSettings,
+} from "./types/common.js";
 import { sanitizeError } from "./utils/security.js";
 import { ErrorType } from "./types/error-handler.js";
 import { withErrorHandling, SecureError } from "./utils/error-handler.js";
@@ -12,19 +22,57 @@ import {
   CONFIG_FILE as CONFIG_FILE_NAME,
   CONFIG_FILE_MODE,
   CONFIG_DIR_MODE,
+  DEFAULT_MESSAGE_STYLE,
 } from "./constants/config.js";
+import {
+  AI_DEFAULT_PROVIDER,
+  AI_PROVIDER_API_KEY_ENV,
+  AI_PROVIDER_ENV,
+  AI_PROVIDER_MODEL_CHAINS,
+} from "./constants/ai.js";
+import {
+  loadProjectConfig,
+  type ProjectConfig,
+} from "./utils/project-config.js";
 
 const CONFIG_DIR = path.join(os.homedir(), CONFIG_DIR_NAME);
 const CONFIG_FILE = path.join(CONFIG_DIR, CONFIG_FILE_NAME);
 
+// Precedence (lowest to highest): defaults, user config file, project config
+// (.commitxrc.json or package.json "commitx"), environment. Keys are
+// replaced, not deep-merged. Only the provider (COMMITX_PROVIDER) and API
+// keys are read from the environment.
 export class ConfigManager {
   private static instance: ConfigManager;
+  private userConfig: CommitConfig;
+  private readonly projectConfig: ProjectConfig | null;
+  private readonly envConfig: CommitConfig;
   private config: CommitConfig;
 
   private constructor() {
-    this.config = this.loadConfig();
+    this.userConfig = this.loadConfig();
+    this.projectConfig = loadProjectConfig(process.cwd());
+    this.envConfig = this.loadEnvConfig();
+    this.config = this.mergeConfig();
   }
 
+  private readonly mergeConfig = (): CommitConfig => ({
+    ...this.userConfig,
+    ...(this.projectConfig?.config ?? {}),
+    ...this.envConfig,
+  });
+
+  private readonly loadEnvConfig = (): CommitConfig => {
+    const provider = process.env[AI_PROVIDER_ENV];
+    if (!provider) return {};
+    const result = EnvProviderSchema.safeParse(provider);
+    if (result.success) return { provider: result.data };
+    console.warn(
+      `Ignoring ${AI_PROVIDER_ENV}=${provider}: expected one of ${EnvProviderSchema.options.join(", ")}`
+    );
+    return {};
+  };
+
   public static getInstance(): ConfigManager {
     if (!ConfigManager.instance) {
       ConfigManager.instance = new ConfigManager();
@@ -79,15 +127,17 @@ export class ConfigManager {
           );
         }
 
-        this.config = { ...this.config, ...result.data };
+        this.userConfig = { ...this.userConfig, ...result.data };
+        this.config = this.mergeConfig();
 
         if (!fs.existsSync(CONFIG_DIR)) {
           fs.mkdirSync(CONFIG_DIR, { recursive: true });
           fs.chmodSync(CONFIG_DIR, CONFIG_DIR_MODE);
         }
 
-        // Create a safe config object without sensitive data
-        const safeConfig = { ...this.config };
+        // Create a safe config object without sensitive data; project values
+        // stay in the repository and are never copied into the user file
+        const safeConfig = { ...this.userConfig };
         // Never save API key to file - always use environment variable
         delete safeConfig.apiKey;
 
@@ -124,16 +174,37 @@ export class ConfigManager {
           );
         }
 
-        this.config[key] = result.data;
+        this.userConfig = { ...this.userConfig, [key]: result.data };
+        this.config = this.mergeConfig();
         void this.saveConfig({});
       },
       { operation: "setConfig", key }
     );
   };
 
-  public getApiKey = (): string => {
+  public getProvider = (): AIProviderName => {
+    return this.config.provider ?? AI_DEFAULT_PROVIDER;
+  };
+
+  public getMessageStyle = (): MessageStyle => {
+    return this.config.messageStyle ?? DEFAULT_MESSAGE_STYLE;
+  };
+
+  // A configured chain wins over the provider default, so an org can pin the
+  // models it has approved.
+  public getModelChain = (): ModelSettings[] => {
+    if (this.config.models && this.config.models.length > 0) {
+      return this.config.models.map(model => ({ ...model }));
+    }
+    return AI_PROVIDER_MODEL_CHAINS[this.getProvider()].map(name => ({ name }));
+  };
+
+  public getApiKey = (
+    provider: AIProviderName = this.getProvider()
+  ): string => {
     // Always prioritize environment variable for security
-    const envKey = process.env.GEMINI_API_KEY;
+    const envName = AI_PROVIDER_API_KEY_ENV[provider];
+    const envKey = envName ? process.env[envName] : undefined;
     if (envKey) {
       const result = ApiKeySchema.safeParse(envKey);
       if (result.success) {
@@ -153,8 +224,31 @@ export class ConfigManager {
     return "";
   };
 
+  public getSource = (key: keyof CommitConfig): ConfigSource => {
+    if (key === "apiKey") {
+      const envName = AI_PROVIDER_API_KEY_ENV[this.getProvider()];
+      if (envName && process.env[envName])
+        return { kind: "env", path: envName };
+    }
+    if (this.envConfig[key] !== undefined) {
+      return { kind: "env", path: AI_PROVIDER_ENV };
+    }
+    if (this.projectConfig?.config[key] !== undefined) {
+      return { kind: "project", path: this.projectConfig.path };
+    }
+    if (this.userConfig[key] !== undefined) {
+      return { kind: "user", path: CONFIG_FILE };
+    }
+    return { kind: "default" };
+  };
+
+  public getProjectConfigPath = (): string | undefined => {
+    return this.projectConfig?.path;
+  };
+
   public reset = (): void => {
-    this.config = {};
+    this.userConfig = {};
+    this.config = this.mergeConfig();
     void this.saveConfig({});
   };
 }
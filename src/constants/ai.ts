@@ -1,7 +1,29 @@
+import type { AIProviderName } from "../types/common.js";
+
 export const AI_RETRY_ATTEMPTS = 1;
 export const AI_RETRY_DELAY_MS = 2000;
 
-/** Primary Gemini model (not user-configurable). */
+// Prompt chunks of one oversized change set sent at the same time.
+export const AI_CHUNK_CONCURRENCY = 3;
+
+// Upper bound for the prepare-commit-msg hook, so an unreachable provider
+// delays `git commit` by seconds rather than minutes.
+export const HOOK_AI_TIMEOUT_MS = 20_000;
+
+// Providers the config file (`cx config set provider`) accepts.
+export const AI_PROVIDERS = [
+  "gemini",
+  "openai",
+  "anthropic",
+  "ollama",
+] as const;
+
+// COMMITX_PROVIDER also accepts the mock provider, so canned answers are
+// never saved as a real setup by mistake.
+export const AI_ENV_PROVIDERS = [...AI_PROVIDERS, "mock"] as const;
+export const AI_DEFAULT_PROVIDER: AIProviderName = "gemini";
+
+/** Primary Gemini model (used unless `models` is configured). */
 export const AI_DEFAULT_MODEL = "gemini-3.1-flash-lite-preview";
 const AI_FALLBACK_MODELS_AFTER_DEFAULT = [
   "gemini-2.5-flash-lite",
@@ -11,3 +33,47 @@ const AI_FALLBACK_MODELS_AFTER_DEFAULT = [
 export const AI_MODEL_FALLBACK_CHAIN: readonly string[] = Array.from(
   new Set<string>([AI_DEFAULT_MODEL, ...AI_FALLBACK_MODELS_AFTER_DEFAULT])
 );
+
+// Default chains per provider, used when the `models` config key is unset.
+// OpenAI-compatible servers that don't host these models need a configured
+// chain.
+export const AI_PROVIDER_MODEL_CHAINS: Readonly<
+  Record<AIProviderName, readonly string[]>
+> = {
+  gemini: AI_MODEL_FALLBACK_CHAIN,
+  openai: ["gpt-4.1-mini", "gpt-4o-mini"],
+  anthropic: ["claude-haiku-4-5", "claude-sonnet-4-5"],
+  ollama: ["llama3.1"],
+  // Two names so the fallback chain has somewhere to go.
+  mock: ["mock-primary", "mock-fallback"],
+};
+
+export const AI_PROVIDER_BASE_URLS: Readonly<
+  Record<Exclude<AIProviderName, "gemini" | "mock">, string>
+> = {
+  openai: "https://api.openai.com/v1",
+  anthropic: "https://api.anthropic.com/v1",
+  ollama: "http://localhost:11434",
+};
+
+// `undefined` means the provider runs without credentials (local servers).
+export const AI_PROVIDER_API_KEY_ENV: Readonly<
+  Record<AIProviderName, string | undefined>
+> = {
+  gemini: "GEMINI_API_KEY",
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  ollama: undefined,
+  mock: undefined,
+};
+
+// Overrides the configured provider, e.g. COMMITX_PROVIDER=mock in tests.
+export const AI_PROVIDER_ENV = "COMMITX_PROVIDER";
+
+// Comma-separated steps for the mock provider and `cx dev mock-server`; see
+// parseMockScenario.
+export const AI_MOCK_SCENARIO_ENV = "COMMITX_MOCK_SCENARIO";
+export const AI_MOCK_SERVER_PORT = 8787;
+
+export const ANTHROPIC_API_VERSION = "2023-06-01";
+export const ANTHROPIC_MAX_OUTPUT_TOKENS = 4096;
@@ -1,4 +1,71 @@
+import type { MessageStyle } from "../types/common.js";
+
 export const CONFIG_DIR = ".commit-x";
 export const CONFIG_FILE = "config.json";
 export const CONFIG_FILE_MODE = 0o600;
 export const CONFIG_DIR_MODE = 0o700;
+
+// Repo-committed settings, merged over the user config
+export const PROJECT_CONFIG_FILE = ".commitxrc.json";
+export const PROJECT_CONFIG_PACKAGE_KEY = "commitx";
+
+export const DEFAULT_MAX_FILES_PER_GROUP = 7;
+
+export const MESSAGE_STYLES = [
+  "plain",
+  "conventional",
+  "gitmoji",
+  "template",
+] as const;
+export const DEFAULT_MESSAGE_STYLE: MessageStyle = "plain";
+
+// Placeholders accepted by `messageTemplate` (messageStyle "template")
+export const MESSAGE_TEMPLATE_PLACEHOLDERS = [
+  "subject",
+  "Subject",
+  "ticket",
+  "branch",
+  "files",
+] as const;
+export const DEFAULT_MESSAGE_TEMPLATE = "{Subject}";
+
+// Tried in order against the branch name: upper-case Jira-style keys
+// (feature/ABC-9-foo -> ABC-9), then GitHub-style issue refs (#456).
+// Lower-case words like hotfix/node-20-upgrade are not keys, and a key must
+// end at its digits so FIX-2FA doesn't read as a ticket.
+export const DEFAULT_TICKET_PATTERNS: readonly string[] = [
+  "(?:^|[^A-Za-z0-9])([A-Z][A-Z0-9]+-\\d+)(?![A-Za-z0-9])",
+  "#\\d+",
+];
+
+export const TICKET_PLACEMENTS = ["prefix", "suffix", "trailer"] as const;
+export const TICKET_TRAILER = "Refs";
+
+// LOCK/MANIFEST are left out: they pair by ecosystem, which a path glob
+// can't express.
+export const CLASSIFIER_OVERRIDE_CATEGORIES = [
+  "DOC",
+  "MINIFIED",
+  "GENERATED",
+  "BUILD_ARTIFACT",
+  "REGULAR",
+] as const;
+
+// Tried in order when a branch command (squash, pr-description) is not
+// told which branch it is measured against.
+export const DEFAULT_BASE_BRANCHES: readonly string[] = ["main", "master"];
+
+// Session journal for `cx undo`, kept inside the repository's git dir
+export const JOURNAL_DIR = "commitx";
+export const JOURNAL_FILE = "journal.json";
+export const JOURNAL_MAX_SESSIONS = 50;
+
+// Keep a Changelog sections, in the order they are rendered
+export const CHANGELOG_SECTIONS = [
+  "Added",
+  "Changed",
+  "Fixed",
+  "Removed",
+] as const;
+export const CHANGELOG_FILE = "CHANGELOG.md";
+export const CHANGELOG_UNRELEASED = "Unreleased";
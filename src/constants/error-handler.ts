@@ -12,6 +12,9 @@ export const ERROR_PATTERNS = [
     patterns: ["security", "path traversal", "suspicious"],
   },
   { type: ErrorType.GIT_ERROR, patterns: ["git", "repository"] },
-  { type: ErrorType.AI_SERVICE_ERROR, patterns: ["api", "gemini", "ai"] },
+  {
+    type: ErrorType.AI_SERVICE_ERROR,
+    patterns: ["api", "gemini", "openai", "anthropic", "ollama", "ai"],
+  },
   { type: ErrorType.CONFIG_ERROR, patterns: ["config", "configuration"] },
 ];
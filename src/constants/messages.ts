@@ -40,6 +40,7 @@ export const INFO_MESSAGES = {
   TOTAL_CHANGES: "📊 Total changes:",
   LAST_COMMIT: "💬 Last commit:",
   DRY_RUN_COMMIT: "Dry run - would commit with message:",
+  DRY_RUN_AMEND: "Dry run - would amend HEAD with message:",
   WOULD_STAGE_COMMIT: "Would stage and commit:",
   GENERATING_MESSAGE: "Generating commit message...",
   ANALYZING_CHANGES: "Analyzing changes...",
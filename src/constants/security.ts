@@ -3,7 +3,7 @@ import type { ResourceLimits } from "../types/security.js";
 export const DEFAULT_LIMITS: ResourceLimits = {
   maxFileSize: 25 * 1024 * 1024, // 30 MB (based on average use cases)
   maxDiffSize: 100_000, // 100 KB (increased from 50 KB)
-  maxApiRequestSize: 750_000, // ~750 KB (aligned with average TPM capacity)
+  maxPromptTokens: 200_000, // ~700 KB of code (aligned with average TPM capacity)
   timeoutMs: 25_000, // 25 seconds (middle ground from performance)
 };
 
@@ -16,6 +16,10 @@ export const SUSPICIOUS_PATTERNS = [
   /[<>:"|?*]/, // Invalid characters
 ];
 
+export const COMMIT_SUBJECT_MAX_LENGTH = 200;
+export const COMMIT_BODY_MAX_LENGTH = 2_000;
+export const COMMIT_BODY_LINE_WIDTH = 72;
+
 export const SUSPICIOUS_COMMIT_PATTERNS = [
   /[<>]/, // HTML tags
   /javascript:/i, // JavaScript protocol
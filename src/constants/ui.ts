@@ -4,8 +4,8 @@ export const UI_CONSTANTS = {
   MESSAGE_MAX_LENGTH: 120,
   MAX_WORD_COUNT: 25,
   MIN_WORD_COUNT: 7,
-  DIFF_CONTENT_TRUNCATE_LIMIT: 3000,
   PAGE_SIZE: 10,
+  GROUP_PREVIEW_LINES: 5, // streamed groups shown under the spinner
   FILE_STATUS: {
     NEW: "[NEW]",
     DELETED: "[DELETED]",
@@ -52,5 +52,20 @@ export const COMMIT_MESSAGE_PATTERNS = {
     /^revert\([^)]*\):/i, // revert(scope):
     /^[a-z]+\([^)]*\):/i, // any lowercase word followed by (scope):
   ],
-  JSON_PATTERN: /\{[\s\S]*\}/,
+  // type(scope)!: subject — used when messageStyle is "conventional"
+  CONVENTIONAL_HEADER: /^([a-z]+)(?:\(([\w$.\/-]+)\))?(!)?: (\S.*)$/,
 } as const;
+
+export const CONVENTIONAL_COMMIT_TYPES = [
+  "feat",
+  "fix",
+  "docs",
+  "style",
+  "refactor",
+  "perf",
+  "test",
+  "build",
+  "ci",
+  "chore",
+  "revert",
+] as const;
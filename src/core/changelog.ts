@@ -0,0 +1,138 @@
+import {
+  CHANGELOG_SECTIONS,
+  CHANGELOG_UNRELEASED,
+} from "../constants/config.js";
+import type {
+  ChangelogEntry,
+  ChangelogSection,
+  CommitInfo,
+} from "../types/common.js";
+import { parseConventionalHeader } from "../services/message-style.js";
+
+export type ChangelogMode = "ai" | "conventional";
+
+export const CHANGELOG_MODES: readonly ChangelogMode[] = ["ai", "conventional"];
+
+export interface ChangelogOptions {
+  from?: string; // defaults to the newest tag reachable from `to`
+  to?: string; // defaults to HEAD, rendered as the Unreleased section
+  mode?: ChangelogMode; // defaults to "conventional" for that message style
+  write?: boolean; // prepend to CHANGELOG.md instead of printing
+}
+
+export interface ChangelogRelease {
+  name: string; // version or tag; CHANGELOG_UNRELEASED for HEAD
+  date?: string; // YYYY-MM-DD, unset for Unreleased
+  entries: ChangelogEntry[];
+}
+
+// Types that do not change what users see (docs, test, ci, chore, ...) are
+// left out of the changelog.
+const CONVENTIONAL_SECTIONS: Readonly<Record<string, ChangelogSection>> = {
+  feat: "Added",
+  fix: "Fixed",
+  perf: "Changed",
+  refactor: "Changed",
+  revert: "Changed",
+};
+
+const REMOVAL_SUBJECT = /^(remove|delete|drop)\b/i;
+const BREAKING_FOOTER = /^BREAKING[ -]CHANGE:/m;
+
+const upperFirst = (text: string): string =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+// Deterministic mapping for Conventional Commits. Breaking changes always
+// get an entry; headers that don't parse are listed under Changed rather
+// than silently dropped.
+export const classifyConventionalCommit = (
+  commit: Pick<CommitInfo, "sha" | "message">
+): ChangelogEntry | null => {
+  const header = parseConventionalHeader(commit.message);
+  if (!header) {
+    const subject = commit.message.split("\n")[0].trim();
+    return { sha: commit.sha, section: "Changed", text: subject };
+  }
+
+  const breaking = header.breaking || BREAKING_FOOTER.test(commit.message);
+  let section: ChangelogSection | undefined =
+    CONVENTIONAL_SECTIONS[header.type.toLowerCase()];
+  if (section && section !== "Fixed" && REMOVAL_SUBJECT.test(header.subject)) {
+    section = "Removed";
+  }
+  section ??= breaking ? "Changed" : undefined;
+  if (!section) return null;
+
+  const scope = header.scope ? `**${header.scope}:** ` : "";
+  const text = `${scope}${upperFirst(header.subject)}`;
+  return { sha: commit.sha, section, text, ...(breaking && { breaking }) };
+};
+
+// git's raw "<epoch seconds> <offset>" date as a UTC calendar day.
+export const formatReleaseDate = (rawDate: string): string =>
+  new Date(Number(rawDate.split(" ")[0]) * 1000).toISOString().slice(0, 10);
+
+const formatHeading = (release: ChangelogRelease): string =>
+  `## [${release.name}]${release.date ? ` - ${release.date}` : ""}`;
+
+const formatEntry = (entry: ChangelogEntry): string =>
+  `- ${entry.breaking ? "**Breaking:** " : ""}${entry.text}`;
+
+export const formatChangelogRelease = (release: ChangelogRelease): string => {
+  const sections = CHANGELOG_SECTIONS.flatMap(section => {
+    const items = release.entries.filter(entry => entry.section === section);
+    return items.length > 0
+      ? [`### ${section}\n\n${items.map(formatEntry).join("\n")}`]
+      : [];
+  });
+  return `${[formatHeading(release), ...sections].join("\n\n")}\n`;
+};
+
+export const CHANGELOG_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/).
+`;
+
+const RELEASE_HEADING = /^## \[([^\]]+)\]/;
+
+// A section for the same release replaces the old one; otherwise the new
+// release goes below Unreleased and above the previous release, as Keep a
+// Changelog orders them. Anything before the first release (title, intro)
+// is kept.
+export const prependChangelog = (
+  existing: string | null,
+  release: ChangelogRelease
+): string => {
+  const rendered = formatChangelogRelease(release);
+  if (!existing?.trim()) return `${CHANGELOG_HEADER}\n${rendered}`;
+
+  const lines = existing.split("\n");
+  const headings = lines.flatMap((line, index) => {
+    const match = line.match(RELEASE_HEADING);
+    return match ? [{ index, name: match[1] }] : [];
+  });
+
+  const same = headings.findIndex(heading => heading.name === release.name);
+  if (same !== -1) {
+    const end = headings[same + 1]?.index ?? lines.length;
+    return [
+      ...lines.slice(0, headings[same].index),
+      ...rendered.split("\n"),
+      ...lines.slice(end),
+    ].join("\n");
+  }
+
+  const next = headings.find(
+    heading =>
+      release.name === CHANGELOG_UNRELEASED ||
+      heading.name !== CHANGELOG_UNRELEASED
+  );
+  if (!next) return `${existing.trimEnd()}\n\n${rendered}`;
+  return [
+    ...lines.slice(0, next.index),
+    ...rendered.split("\n"),
+    ...lines.slice(next.index),
+  ].join("\n");
+};
@@ -1,18 +1,100 @@
 import process from "process";
 import { lightColors } from "../utils/colors.js";
 import { lightSpinner } from "../utils/spinner.js";
+import { matchesAnyGlob } from "../utils/glob.js";
+import {
+  buildHunkPatch,
+  diffUnitId,
+  splitDiffsIntoHunks,
+  type FilePatch,
+} from "../utils/diff-hunks.js";
+import { ConfigManager } from "../config.js";
+import {
+  composeCommitMessage,
+  splitCommitMessage,
+} from "../utils/commit-message.js";
+import {
+  applyTicketReference,
+  type TicketReferenceOptions,
+} from "../services/message-style.js";
 import type { GitService } from "../services/git.js";
-import type { AIService } from "../services/ai.js";
+import type { AIService, GroupPreview } from "../services/ai.js";
 import type { TimeoutCalculationOptions } from "../utils/timeout.js";
+import { reviewGroups } from "./group-review.js";
+import { SessionJournal } from "../services/session-journal.js";
+import {
+  summarizePrivacyGates,
+  type PrivacyGateResult,
+  type SkippedFile,
+} from "../services/ai-privacy-gate.js";
+import { buildCommitPlanJson, printJson } from "../utils/json-output.js";
+import { UI_CONSTANTS } from "../constants/ui.js";
 import type {
   CommitGroup,
   CommitOptions,
   GitDiff,
+  JournalSession,
+  RepoSnapshot,
 } from "../types/common.js";
 
 const getFileName = (filePath: string): string =>
   filePath.split("/").pop() ?? filePath;
 
+// Split files and the hunk indexes of each already staged by earlier groups.
+interface HunkStagingState {
+  patches: Map<string, FilePatch>;
+  applied: Map<string, Set<number>>;
+}
+
+interface GroupStagingPlan {
+  wholeFiles: string[];
+  hunksByFile: Map<string, number[]>;
+}
+
+const planGroupStaging = (
+  group: CommitGroup,
+  allDiffs: GitDiff[]
+): GroupStagingPlan => {
+  const wholeFiles: string[] = [];
+  const hunksByFile = new Map<string, number[]>();
+  for (const id of group.files) {
+    const diff = allDiffs.find(d => diffUnitId(d) === id);
+    if (diff?.hunk === undefined) {
+      wholeFiles.push(id);
+      continue;
+    }
+    hunksByFile.set(diff.file, [
+      ...(hunksByFile.get(diff.file) ?? []),
+      diff.hunk,
+    ]);
+  }
+  return { wholeFiles, hunksByFile };
+};
+
+const stageGroup = async (
+  gitService: GitService,
+  group: CommitGroup,
+  allDiffs: GitDiff[],
+  hunkState: HunkStagingState,
+  timeoutOptions: Omit<TimeoutCalculationOptions, "operationType">
+): Promise<void> => {
+  const { wholeFiles, hunksByFile } = planGroupStaging(group, allDiffs);
+  if (wholeFiles.length > 0) {
+    await gitService.stageFiles(wholeFiles, timeoutOptions);
+  }
+  for (const [file, hunks] of hunksByFile) {
+    const patch = hunkState.patches.get(file);
+    if (!patch) continue;
+    const applied = hunkState.applied.get(file) ?? new Set<number>();
+    await gitService.stagePatch(
+      buildHunkPatch(patch, hunks, applied),
+      timeoutOptions
+    );
+    hunks.forEach(hunk => applied.add(hunk));
+    hunkState.applied.set(file, applied);
+  }
+};
+
 const shouldSkipFile = (diff: GitDiff): boolean => {
   const totalChanges = diff.additions + diff.deletions;
   return (
@@ -22,22 +104,52 @@ const shouldSkipFile = (diff: GitDiff): boolean => {
   );
 };
 
+const skipReason = (diff: GitDiff): string =>
+  diff.isNew ? "Empty new file" : "No changes";
+
 const logSkippedFile = (diff: GitDiff): void => {
-  const fileName = getFileName(diff.file);
-  if (diff.isNew) {
-    console.log(lightColors.yellow(`  Skipping empty new file: ${fileName}`));
-  } else {
-    console.log(
-      lightColors.yellow(`  Skipping file with no changes: ${fileName}`)
-    );
-  }
+  console.log(
+    lightColors.yellow(
+      `  Skipping ${skipReason(diff).toLowerCase()}: ${getFileName(diff.file)}`
+    )
+  );
+};
+
+export const buildTicketOptions = (
+  branch: string | null
+): TicketReferenceOptions => {
+  const config = ConfigManager.getInstance();
+  const { ticketPatterns, ticketPlacement, messageTemplate } =
+    config.getConfig();
+  return {
+    branch: branch ?? undefined,
+    ticketPatterns,
+    placement: ticketPlacement,
+    style: config.getMessageStyle(),
+    template: messageTemplate,
+  };
+};
+
+const withTicketReference = (
+  group: CommitGroup,
+  ticketOptions: TicketReferenceOptions
+): CommitGroup => {
+  const { subject, body } = splitCommitMessage(
+    applyTicketReference(
+      composeCommitMessage(group.message, group.body),
+      ticketOptions
+    )
+  );
+  return { ...group, message: subject, body };
 };
 
 const buildTimeoutOptions = (
   groupFiles: string[],
   allDiffs: GitDiff[]
 ): Omit<TimeoutCalculationOptions, "operationType"> => {
-  const groupDiffs = allDiffs.filter(diff => groupFiles.includes(diff.file));
+  const groupDiffs = allDiffs.filter(diff =>
+    groupFiles.includes(diffUnitId(diff))
+  );
   const totalChanges = groupDiffs.reduce(
     (sum, diff) => sum + diff.additions + diff.deletions,
     0
@@ -75,6 +187,9 @@ const previewGroupDryRun = (group: CommitGroup, groupName: string): number => {
         `  Files: ${group.files.map(f => getFileName(f)).join(", ")}`
       ),
       lightColors.blue(`  Message: "${group.message}"`),
+      ...(group.body
+        ? [lightColors.gray(group.body.replace(/^/gm, "    "))]
+        : []),
     ].join("\n")
   );
   return group.files.length;
@@ -84,7 +199,8 @@ const executeGroupCommit = async (
   gitService: GitService,
   group: CommitGroup,
   groupName: string,
-  allDiffs: GitDiff[]
+  allDiffs: GitDiff[],
+  hunkState: HunkStagingState
 ): Promise<number> => {
   const commitSpinner = lightSpinner(`Committing ${groupName}...`).start();
   const timeoutOptions = buildTimeoutOptions(group.files, allDiffs);
@@ -92,7 +208,7 @@ const executeGroupCommit = async (
 
   const stagedFiles: string[] = [];
   try {
-    await gitService.stageFiles(group.files, timeoutOptions);
+    await stageGroup(gitService, group, allDiffs, hunkState, timeoutOptions);
     stagedFiles.push(...group.files);
   } catch (error) {
     commitSpinner.fail(
@@ -102,7 +218,15 @@ const executeGroupCommit = async (
   }
 
   await gitService.waitForLockRelease();
-  await gitService.commit(group.message, timeoutOptions);
+  try {
+    await gitService.commit(
+      composeCommitMessage(group.message, group.body),
+      timeoutOptions
+    );
+  } catch (error) {
+    commitSpinner.fail(lightColors.red(`Commit failed for ${groupName}`));
+    throw error;
+  }
 
   const actualGroupName =
     stagedFiles.length > 1
@@ -117,6 +241,7 @@ const processGroup = async (
   gitService: GitService,
   group: CommitGroup,
   allDiffs: GitDiff[],
+  hunkState: HunkStagingState,
   dryRun: boolean
 ): Promise<number> => {
   const groupName =
@@ -127,7 +252,13 @@ const processGroup = async (
   try {
     return dryRun
       ? previewGroupDryRun(group, groupName)
-      : await executeGroupCommit(gitService, group, groupName, allDiffs);
+      : await executeGroupCommit(
+          gitService,
+          group,
+          groupName,
+          allDiffs,
+          hunkState
+        );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(lightColors.red(`  Failed to commit group: ${errorMessage}`));
@@ -135,6 +266,63 @@ const processGroup = async (
   }
 };
 
+export interface RunJournal {
+  journal: SessionJournal;
+  session: JournalSession;
+}
+
+export const openRunJournal = async (
+  gitService: GitService,
+  branch: string | null,
+  startHead?: string | null
+): Promise<RunJournal> => {
+  const journal = new SessionJournal(await gitService.getGitDir());
+  const session = await journal.startSession(
+    startHead === undefined ? await gitService.getHead() : startHead,
+    branch ?? undefined
+  );
+  return { journal, session };
+};
+
+// Call right after a successful commit: HEAD is the commit to record.
+export const recordRunCommit = async (
+  gitService: GitService,
+  run: RunJournal,
+  message: string,
+  files: string[]
+): Promise<void> => {
+  const sha = await gitService.getHead();
+  if (!sha) return;
+  await run.journal.recordCommit(run.session, { sha, message, files });
+};
+
+const rollbackAtomicRun = async (
+  gitService: GitService,
+  snapshot: RepoSnapshot,
+  run: RunJournal
+): Promise<void> => {
+  const spinner = lightSpinner("Atomic run failed; rolling back...").start();
+  try {
+    await gitService.restoreSnapshot(snapshot);
+    spinner.succeed(
+      `Rolled back ${run.session.commits.length} commit(s); HEAD and index are back where the run started`
+    );
+    if (run.session.commits.length > 0) {
+      await run.journal.markUndone(run.session);
+    }
+  } catch (error) {
+    spinner.fail(lightColors.red(`Rollback failed: ${error}`));
+    const resetHead = snapshot.head
+      ? `git reset --soft ${snapshot.head}`
+      : "git update-ref -d HEAD";
+    console.log(
+      lightColors.yellow(
+        `  Restore manually: ${resetHead} && git read-tree ${snapshot.indexTree}`
+      )
+    );
+  }
+};
+
 export const commitFilesBatch = async (
   gitService: GitService,
   getAIService: () => AIService,
@@ -146,48 +334,185 @@ export const commitFilesBatch = async (
   ).start();
 
   try {
-    const analyzedDiffs = await gitService.getFileDiffs(files, false);
-    const allDiffs: GitDiff[] = [];
-    const skippedFiles: string[] = [];
+    const {
+      ignore = [],
+      hunkGrouping,
+      classifierOverrides,
+    } = ConfigManager.getInstance().getConfig();
+    const candidateFiles = files.filter(file => !matchesAnyGlob(file, ignore));
+    const ignoredFiles: SkippedFile[] = files
+      .filter(file => !candidateFiles.includes(file))
+      .map(file => ({ file, reason: "Matches an ignore pattern" }));
+    if (ignoredFiles.length > 0) {
+      console.log(
+        lightColors.gray(
+          `  Ignoring ${ignoredFiles.length} file(s) matching project ignore patterns`
+        )
+      );
+    }
+
+    const analyzedDiffs = await gitService.getFileDiffs(candidateFiles, false);
+    const fileDiffs: GitDiff[] = [];
+    const skippedFiles: SkippedFile[] = [];
+    const privacyGates: PrivacyGateResult[] = [];
+    const printPlan = (groups: CommitGroup[]): void =>
+      printJson(
+        buildCommitPlanJson(
+          groups,
+          [...ignoredFiles, ...skippedFiles],
+          summarizePrivacyGates(privacyGates)
+        )
+      );
 
     for (const diff of analyzedDiffs) {
       if (shouldSkipFile(diff)) {
         logSkippedFile(diff);
-        skippedFiles.push(diff.file);
+        skippedFiles.push({ file: diff.file, reason: skipReason(diff) });
         continue;
       }
-      allDiffs.push(diff);
+      fileDiffs.push(diff);
     }
 
-    if (allDiffs.length === 0) {
+    if (fileDiffs.length === 0) {
       spinner.fail("No valid files to process");
+      if (options.json) printPlan([]);
       return 0;
     }
 
+    const { diffs: allDiffs, patches } =
+      (options.hunks ?? hunkGrouping)
+        ? splitDiffsIntoHunks(fileDiffs, classifierOverrides)
+        : { diffs: fileDiffs, patches: new Map<string, FilePatch>() };
+    if (patches.size > 0) {
+      console.log(
+        lightColors.gray(
+          `  Split ${patches.size} file(s) into hunks for finer grouping`
+        )
+      );
+    }
+    const hunkState: HunkStagingState = { patches, applied: new Map() };
+
     spinner.message = "Using AI to group related changes...";
 
+    const branch = await gitService.getCurrentBranch();
+    let previews: GroupPreview[] = [];
+    const showPreviews = (): void => {
+      spinner.message =
+        previews.length === 0
+          ? "Using AI to group related changes..."
+          : `Using AI to group related changes... ${previews.length} group${previews.length === 1 ? "" : "s"} so far`;
+      spinner.details = previews
+        .slice(-UI_CONSTANTS.GROUP_PREVIEW_LINES)
+        .map(
+          preview =>
+            `${preview.message} (${preview.files.length} file${preview.files.length === 1 ? "" : "s"})`
+        );
+    };
+    const generateOptions = {
+      useCached: options.useCached,
+      branch: branch ?? undefined,
+      body: options.body,
+      onPrivacyGate: (gate: PrivacyGateResult): void => {
+        privacyGates.push(gate);
+      },
+      // Groups appear under the spinner as the AI writes them, so a long
+      // run shows progress and can be abandoned with Ctrl+C early.
+      onGroupPreview: (group: GroupPreview): void => {
+        previews.push(group);
+        showPreviews();
+      },
+      onAttemptFailed: (stale: GroupPreview[]): void => {
+        previews = previews.filter(preview => !stale.includes(preview));
+        showPreviews();
+      },
+    };
     const aggregatedResult = await getAIService().generateAggregatedCommits(
       allDiffs,
-      { useCached: options.useCached }
+      generateOptions
     );
 
     if (aggregatedResult.groups.length === 0) {
       spinner.fail("AI grouping returned no commit groups");
+      if (options.json) printPlan([]);
       return 0;
     }
 
     spinner.succeed(
-      `AI grouped ${allDiffs.length} files into ${aggregatedResult.groups.length} logical commits`
+      `AI grouped ${allDiffs.length} ${patches.size > 0 ? "changes" : "files"} into ${aggregatedResult.groups.length} logical commits`
     );
 
-    let processedCount = 0;
-    for (const group of aggregatedResult.groups) {
-      processedCount += await processGroup(
+    const ticketOptions = buildTicketOptions(branch);
+    let groups = aggregatedResult.groups.map(group =>
+      withTicketReference(group, ticketOptions)
+    );
+
+    if (options.json) {
+      printPlan(groups);
+      return new Set(
+        groups.flatMap(group =>
+          group.files.map(
+            id => allDiffs.find(diff => diffUnitId(diff) === id)?.file ?? id
+          )
+        )
+      ).size;
+    }
+
+    if (options.interactive) {
+      const reviewed = await reviewGroups(groups, {
+        regenerate: async group =>
+          withTicketReference(
+            await getAIService().generateSingleGroup(
+              allDiffs.filter(diff => group.files.includes(diffUnitId(diff))),
+              generateOptions
+            ),
+            ticketOptions
+          ),
+      });
+      if (!reviewed) {
+        console.log(lightColors.yellow("Review cancelled; nothing committed"));
+        return 0;
+      }
+      groups = reviewed;
+    }
+
+    // Taken after review so nothing is recorded for a cancelled run.
+    const snapshot =
+      options.atomic && !options.dryRun
+        ? await gitService.captureSnapshot()
+        : null;
+
+    const run = options.dryRun
+      ? null
+      : await openRunJournal(gitService, branch, snapshot?.head);
+
+    // Counted per file: the hunks of a split file may land in several groups.
+    const processedFiles = new Set<string>();
+    for (const group of groups) {
+      const processed = await processGroup(
         gitService,
         group,
         allDiffs,
+        hunkState,
         Boolean(options.dryRun)
       );
+      if (processed === 0) {
+        if (!snapshot || !run) continue;
+        await rollbackAtomicRun(gitService, snapshot, run);
+        return 0;
+      }
+      if (run) {
+        await recordRunCommit(
+          gitService,
+          run,
+          composeCommitMessage(group.message, group.body),
+          group.files
+        );
+      }
+      for (const id of group.files) {
+        processedFiles.add(
+          allDiffs.find(diff => diffUnitId(diff) === id)?.file ?? id
+        );
+      }
     }
 
     if (skippedFiles.length > 0) {
@@ -198,7 +523,7 @@ export const commitFilesBatch = async (
       );
     }
 
-    return processedCount;
+    return processedFiles.size;
   } catch (error) {
     spinner.fail("Commit processing failed");
     console.error(lightColors.red(`Processing error: ${error}`));
@@ -1,13 +1,20 @@
 import process from "process";
+import { readFile, writeFile } from "fs/promises";
+import { relative } from "path";
 import { lightColors } from "../utils/colors.js";
 import { lightSpinner } from "../utils/spinner.js";
 import { prompt } from "../utils/prompts.js";
 import { GitService } from "../services/git.js";
 import { AIService } from "../services/ai.js";
 import type {
+  ChangelogEntry,
+  CommitGroup,
+  CommitInfo,
   CommitOptions,
   CommitSuggestion,
+  GitDiff,
   GitStatus,
+  OutputOptions,
 } from "../types/common.js";
 import {
   WARNING_MESSAGES,
@@ -15,8 +22,82 @@ import {
   INFO_MESSAGES,
 } from "../constants/messages.js";
 import { UI_CONSTANTS } from "../constants/ui.js";
+import {
+  CHANGELOG_FILE,
+  CHANGELOG_UNRELEASED,
+  DEFAULT_BASE_BRANCHES,
+} from "../constants/config.js";
 import { exitProcess, handleError } from "../utils/process-utils.js";
-import { commitFilesBatch } from "./commit-orchestrator.js";
+import {
+  buildTicketOptions,
+  commitFilesBatch,
+  openRunJournal,
+  recordRunCommit,
+} from "./commit-orchestrator.js";
+import { applyTicketReference } from "../services/message-style.js";
+import { ConfigManager } from "../config.js";
+import { matchesAnyGlob } from "../utils/glob.js";
+import {
+  composeCommitMessage,
+  splitCommitMessage,
+} from "../utils/commit-message.js";
+import { SessionJournal } from "../services/session-journal.js";
+import { summarizePrivacyGates } from "../services/ai-privacy-gate.js";
+import { ErrorType } from "../types/error-handler.js";
+import { SecureError } from "../utils/error-handler.js";
+import {
+  findUndoBlocker,
+  formatSessionList,
+  selectSession,
+  type UndoOptions,
+} from "./undo.js";
+import {
+  autosquashCommand,
+  formatFixupPlan,
+  planFixups,
+  type FileCommitMatch,
+  type FixupOptions,
+} from "./fixup.js";
+import {
+  findRewordBlocker,
+  formatRewordPlan,
+  normalizeRewordRange,
+  rewriteCommits,
+  type RewordOptions,
+  type RewordProposal,
+} from "./reword.js";
+import { formatSquashPlan, type SquashOptions } from "./squash.js";
+import {
+  formatPullRequestMarkdown,
+  type PullRequestOptions,
+} from "./pr-description.js";
+import {
+  CHANGELOG_MODES,
+  classifyConventionalCommit,
+  formatChangelogRelease,
+  formatReleaseDate,
+  prependChangelog,
+  type ChangelogMode,
+  type ChangelogOptions,
+  type ChangelogRelease,
+} from "./changelog.js";
+import {
+  INITIAL_VERSION,
+  RELEASE_BUMPS,
+  applyBump,
+  formatReleasePlan,
+  formatVersionTag,
+  parseVersionTag,
+  suggestBump,
+  type ReleaseOptions,
+} from "./release.js";
+import { validateCommitMessage } from "../utils/security.js";
+import {
+  buildCommitPlanJson,
+  buildDiffJson,
+  buildStatusJson,
+  printJson,
+} from "../utils/json-output.js";
 
 export class CommitX {
   private readonly gitService: GitService;
@@ -47,6 +128,26 @@ export class CommitX {
         );
       }
 
+      if (
+        options.json &&
+        (!options.dryRun ||
+          options.amend ||
+          options.message ||
+          options.all ||
+          options.interactive)
+      ) {
+        throw new SecureError(
+          "--json only works with cx commit --dry-run (not with --amend, --all, -m or --interactive)",
+          ErrorType.VALIDATION_ERROR,
+          { operation: "commit" },
+          true
+        );
+      }
+
+      if (options.amend) {
+        return this.commitAmend(options);
+      }
+
       if (options.message || options.all) {
         return this.commitTraditional(options);
       }
@@ -54,6 +155,9 @@ export class CommitX {
       const unstagedFiles = await this.gitService.getUnstagedFiles();
       if (unstagedFiles.length === 0) {
         console.log(lightColors.yellow(WARNING_MESSAGES.NO_CHANGES_DETECTED));
+        if (options.json) {
+          printJson(buildCommitPlanJson([], [], summarizePrivacyGates([])));
+        }
         return;
       }
 
@@ -64,13 +168,15 @@ export class CommitX {
         options
       );
 
-      console.log(
-        lightColors.green(
-          processedCount > 1
-            ? `\n✅ Successfully processed ${processedCount} of ${unstagedFiles.length} files.`
-            : `\n✅ Successfully processed the file.`
-        )
-      );
+      if (processedCount > 0) {
+        console.log(
+          lightColors.green(
+            processedCount > 1
+              ? `\n✅ Successfully processed ${processedCount} of ${unstagedFiles.length} files.`
+              : `\n✅ Successfully processed the file.`
+          )
+        );
+      }
 
       if (options.dryRun || processedCount > 0) {
         exitProcess(0);
@@ -104,15 +210,21 @@ export class CommitX {
       }
     }
 
-    const commitMessage: string =
+    const selectedMessage: string =
       options.message ??
       (await this.generateCommitMessage(options));
 
-    if (!commitMessage) {
+    if (!selectedMessage) {
       console.log(lightColors.yellow(WARNING_MESSAGES.NO_COMMIT_MESSAGE));
       return;
     }
 
+    // A message given with -m is committed as typed.
+    const branch = await this.gitService.getCurrentBranch();
+    const commitMessage =
+      options.message ??
+      applyTicketReference(selectedMessage, buildTicketOptions(branch));
+
     if (options.dryRun) {
       console.log(
         `${lightColors.blue(INFO_MESSAGES.DRY_RUN_COMMIT)}\n${lightColors.white(`"${commitMessage}"`)}`
@@ -120,10 +232,13 @@ export class CommitX {
       return;
     }
 
+    const run = await openRunJournal(this.gitService, branch);
+    const stagedFiles = (await this.gitService.getStatus()).staged;
     const commitSpinner = lightSpinner(
       UI_CONSTANTS.SPINNER_MESSAGES.COMMITTING
     ).start();
     await this.gitService.commit(commitMessage);
+    await recordRunCommit(this.gitService, run, commitMessage, stagedFiles);
     commitSpinner.succeed(`Committed: ${lightColors.green(commitMessage)}`);
 
     exitProcess(0);
@@ -135,7 +250,10 @@ export class CommitX {
     const spinner = lightSpinner("Analyzing changes...").start();
 
     try {
-      const diffs = await this.gitService.getStagedDiff();
+      const { ignore = [] } = ConfigManager.getInstance().getConfig();
+      const diffs = (await this.gitService.getStagedDiff()).filter(
+        diff => !matchesAnyGlob(diff.file, ignore)
+      );
 
       if (diffs.length === 0) {
         spinner.fail("No staged changes found");
@@ -143,9 +261,14 @@ export class CommitX {
       }
 
       spinner.message = "Using AI to group related changes...";
+      const branch = await this.gitService.getCurrentBranch();
       const aggregatedResult = await this.getAIService().generateAggregatedCommits(
         diffs,
-        { useCached: options.useCached }
+        {
+          useCached: options.useCached,
+          branch: branch ?? undefined,
+          body: options.body,
+        }
       );
 
       if (aggregatedResult.groups.length === 0) {
@@ -154,26 +277,127 @@ export class CommitX {
       }
 
       const group = aggregatedResult.groups[0];
-      const commitMessage = group.message;
-
       spinner.succeed(
         `Generated commit message for ${group.files.length} file(s)`
       );
+      return this.chooseGeneratedMessage(group, options);
+    } catch (error) {
+      spinner.fail(`Failed to generate commit message: ${error}`);
+      throw error;
+    }
+  };
 
-      const interactive = options.interactive ?? true;
-      if (!interactive || !process.stdin.isTTY) {
-        return commitMessage;
-      }
+  private readonly chooseGeneratedMessage = async (
+    group: CommitGroup,
+    options: CommitOptions
+  ): Promise<string> => {
+    const commitMessage = group.message;
+    const fullMessage = composeCommitMessage(commitMessage, group.body);
 
-      const suggestions: CommitSuggestion[] = [
-        {
-          message: commitMessage,
-          description: group.description,
-          confidence: group.confidence ?? 0.7,
-        },
-      ];
+    const interactive = options.interactive ?? true;
+    if (!interactive || !process.stdin.isTTY) {
+      return fullMessage;
+    }
+
+    const suggestions: CommitSuggestion[] = [
+      {
+        message: commitMessage,
+        description: group.description,
+        type: group.type,
+        scope: group.scope,
+        confidence: group.confidence ?? 0.7,
+      },
+    ];
+
+    // The list shows subjects only; the generated body rides along when
+    // the suggestion (rather than a custom message) is picked.
+    const selected = await this.promptCommitSelection(suggestions);
+    return selected === commitMessage ? fullMessage : selected;
+  };
 
-      return await this.promptCommitSelection(suggestions);
+  // HEAD is rebuilt from its parent plus whatever is staged now, so the new
+  // message describes the combined change. The journal records HEAD as it
+  // was, so `cx undo` brings the original commit back.
+  private readonly commitAmend = async (
+    options: CommitOptions
+  ): Promise<void> => {
+    const head = await this.gitService.getHead();
+    if (!head) {
+      throw new SecureError(
+        "Nothing to amend: this branch has no commits yet",
+        ErrorType.GIT_ERROR,
+        { operation: "amend" },
+        true
+      );
+    }
+
+    const { ignore = [] } = ConfigManager.getInstance().getConfig();
+    const diffs = (
+      await this.gitService.getRevisionDiff(
+        await this.gitService.getParentRevision(head)
+      )
+    ).filter(diff => !matchesAnyGlob(diff.file, ignore));
+
+    const branch = await this.gitService.getCurrentBranch();
+    const selectedMessage: string =
+      options.message ??
+      (await this.generateAmendMessage(diffs, branch, options));
+
+    if (!selectedMessage) {
+      console.log(lightColors.yellow(WARNING_MESSAGES.NO_COMMIT_MESSAGE));
+      return;
+    }
+
+    const commitMessage =
+      options.message ??
+      applyTicketReference(selectedMessage, buildTicketOptions(branch));
+
+    if (options.dryRun) {
+      console.log(
+        `${lightColors.blue(INFO_MESSAGES.DRY_RUN_AMEND)}\n${lightColors.white(`"${commitMessage}"`)}`
+      );
+      return;
+    }
+
+    const run = await openRunJournal(this.gitService, branch, head);
+    const commitSpinner = lightSpinner("Amending HEAD...").start();
+    await this.gitService.amendCommit(commitMessage);
+    await recordRunCommit(
+      this.gitService,
+      run,
+      commitMessage,
+      diffs.map(diff => diff.file)
+    );
+    commitSpinner.succeed(`Amended: ${lightColors.green(commitMessage)}`);
+
+    exitProcess(0);
+  };
+
+  private readonly generateAmendMessage = async (
+    diffs: GitDiff[],
+    branch: string | null,
+    options: CommitOptions
+  ): Promise<string> => {
+    if (diffs.length === 0) {
+      console.log(
+        lightColors.yellow(
+          "HEAD and the staged changes add up to no change; nothing to describe."
+        )
+      );
+      return "";
+    }
+
+    const spinner = lightSpinner(
+      "Generating a message for HEAD plus the staged changes..."
+    ).start();
+    try {
+      const group = await this.getAIService().generateSingleGroup(diffs, {
+        useCached: options.useCached,
+        branch: branch ?? undefined,
+        body: options.body,
+      });
+      spinner.succeed(`Generated commit message for ${diffs.length} file(s)`);
+      return this.chooseGeneratedMessage(group, options);
     } catch (error) {
       spinner.fail(`Failed to generate commit message: ${error}`);
       throw error;
@@ -281,7 +505,7 @@ export class CommitX {
     return shouldStage;
   };
 
-  status = async (): Promise<void> => {
+  status = async (options: OutputOptions = {}): Promise<void> => {
     try {
       if (!(await this.gitService.isGitRepository())) {
         console.log(lightColors.red("Not a git repository"));
@@ -291,6 +515,18 @@ export class CommitX {
       const status = await this.gitService.getStatus();
       const repoInfo = await this.gitService.getRepoInfo();
 
+      if (options.json) {
+        printJson(
+          buildStatusJson(
+            status,
+            repoInfo,
+            await this.gitService.getLastCommitMessage()
+          )
+        );
+        exitProcess(0);
+        return;
+      }
+
       console.log(this.renderStatus(status, repoInfo));
 
       console.log(
@@ -343,7 +579,7 @@ export class CommitX {
     return output;
   };
 
-  diff = async (): Promise<void> => {
+  diff = async (options: OutputOptions = {}): Promise<void> => {
     try {
       if (!(await this.gitService.isGitRepository())) {
         console.log(lightColors.red("Not a git repository"));
@@ -351,6 +587,12 @@ export class CommitX {
         return;
       }
 
+      if (options.json) {
+        printJson(buildDiffJson(await this.gitService.getUnstagedDiffs()));
+        exitProcess(0);
+        return;
+      }
+
       const summary = await this.gitService.getChangesSummary();
       console.log(`${lightColors.blue("📋 Changes Summary:")}\n\n${summary}`);
 
@@ -359,4 +601,820 @@ export class CommitX {
       handleError(error);
     }
   };
+
+  // Soft-resets the commits of one cx session: HEAD moves back, their
+  // changes stay staged, and nothing else is touched.
+  undo = async (options: UndoOptions = {}): Promise<void> => {
+    try {
+      if (!(await this.gitService.isGitRepository())) {
+        console.log(lightColors.red("Not a git repository"));
+        exitProcess(1);
+        return;
+      }
+
+      const journal = new SessionJournal(await this.gitService.getGitDir());
+      const sessions = await journal.readSessions();
+
+      if (options.list) {
+        console.log(formatSessionList(sessions));
+        exitProcess(0);
+        return;
+      }
+
+      const selected = selectSession(sessions, options.session);
+      if (typeof selected === "string") {
+        console.log(lightColors.yellow(selected));
+        exitProcess(1);
+        return;
+      }
+
+      const recentCommits = await this.gitService.getRecentCommits(
+        selected.commits.length
+      );
+      const blocker = findUndoBlocker(selected, recentCommits);
+      if (blocker) {
+        throw new SecureError(
+          `Refusing to undo session ${selected.id}: ${blocker}`,
+          ErrorType.GIT_ERROR,
+          { operation: "undo" },
+          true
+        );
+      }
+
+      await this.gitService.resetSoft(selected.startHead);
+      await journal.markUndone(selected);
+
+      console.log(
+        lightColors.green(
+          `↩️  Undid ${selected.commits.length} commit(s) from session ${selected.id}; their changes are staged.`
+        )
+      );
+      exitProcess(0);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  fixup = async (options: FixupOptions = {}): Promise<void> => {
+    try {
+      if (!(await this.gitService.isGitRepository())) {
+        console.log(lightColors.red("Not a git repository"));
+        exitProcess(1);
+        return;
+      }
+
+      // Each fixup commit is built by staging its files alone, which would
+      // sweep anything already staged into the first one.
+      const status = await this.gitService.getStatus();
+      if (status.staged.length > 0) {
+        throw new SecureError(
+          "cx fixup works on unstaged changes; commit or unstage the staged files first",
+          ErrorType.GIT_ERROR,
+          { operation: "fixup" },
+          true
+        );
+      }
+
+      const untracked = new Set(status.untracked);
+      const files = await this.gitService.getUnstagedFiles();
+      if (files.length === 0) {
+        console.log(lightColors.yellow(WARNING_MESSAGES.NO_CHANGES_DETECTED));
+        return;
+      }
+
+      const matches: FileCommitMatch[] = [];
+      for (const file of files) {
+        matches.push({
+          file,
+          commit: untracked.has(file)
+            ? null
+            : await this.gitService.getLastCommitTouching(file),
+        });
+      }
+
+      const plan = planFixups(matches);
+      console.log(formatFixupPlan(plan, file => relative(process.cwd(), file)));
+      if (plan.groups.length === 0) {
+        console.log(
+          lightColors.yellow("None of the changed files has a commit to fix up.")
+        );
+        return;
+      }
+
+      const oldestTarget = await this.gitService.getMergeBase(
+        plan.groups.map(group => group.target.sha)
+      );
+      const rebaseBase = await this.gitService.getParent(oldestTarget);
+
+      if (options.dryRun) {
+        console.log(
+          lightColors.blue(
+            `\nDry run - would create ${plan.groups.length} fixup commit(s)`
+          )
+        );
+        exitProcess(0);
+        return;
+      }
+
+      const run = await openRunJournal(
+        this.gitService,
+        await this.gitService.getCurrentBranch()
+      );
+      for (const group of plan.groups) {
+        const message = `fixup! ${group.target.subject}`;
+        const spinner = lightSpinner(`Committing ${message}...`).start();
+        await this.gitService.stageFiles(group.files);
+        await this.gitService.commitFixup(group.target.sha);
+        await recordRunCommit(this.gitService, run, message, group.files);
+        spinner.succeed(`Committed: ${lightColors.green(message)}`);
+      }
+
+      console.log(
+        `${lightColors.green(`\n✅ Created ${plan.groups.length} fixup commit(s). Fold them in with:`)}\n  ${lightColors.cyan(autosquashCommand(rebaseBase))}`
+      );
+      exitProcess(0);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  reword = async (range: string, options: RewordOptions = {}): Promise<void> => {
+    try {
+      if (!(await this.gitService.isGitRepository())) {
+        console.log(lightColors.red("Not a git repository"));
+        exitProcess(1);
+        return;
+      }
+
+      const head = await this.gitService.getHead();
+      if (!head) {
+        throw new SecureError(
+          "Nothing to reword: this branch has no commits yet",
+          ErrorType.GIT_ERROR,
+          { operation: "reword" },
+          true
+        );
+      }
+
+      const revisions = normalizeRewordRange(range);
+      if (!revisions) {
+        throw new SecureError(
+          `Invalid range "${range}": use A..B (e.g. main..HEAD) or a single commit`,
+          ErrorType.VALIDATION_ERROR,
+          { operation: "reword" },
+          true
+        );
+      }
+
+      const rangeCommits = await this.gitService.listCommits(revisions);
+      if (rangeCommits.length === 0) {
+        console.log(lightColors.yellow(`No commits in ${range}`));
+        return;
+      }
+
+      // Everything from the oldest reworded commit up to HEAD is rewritten.
+      const base = await this.gitService.getParent(rangeCommits[0]);
+      const chain: CommitInfo[] = [];
+      for (const sha of await this.gitService.listCommits(
+        base ? `${base}..HEAD` : "HEAD"
+      )) {
+        chain.push(await this.gitService.getCommitInfo(sha));
+      }
+
+      const blocker = findRewordBlocker(chain, rangeCommits);
+      if (blocker) {
+        throw new SecureError(
+          `Refusing to reword ${range}: ${blocker}`,
+          ErrorType.GIT_ERROR,
+          { operation: "reword" },
+          true
+        );
+      }
+
+      const branch = await this.gitService.getCurrentBranch();
+      const inRange = new Set(rangeCommits);
+      const proposals = await this.proposeRewords(
+        chain.filter(commit => inRange.has(commit.sha)),
+        branch,
+        options
+      );
+      console.log(formatRewordPlan(proposals));
+
+      const messages = new Map(
+        proposals
+          .filter(proposal => !proposal.note)
+          .map(proposal => [proposal.commit.sha, proposal.message])
+      );
+      if (messages.size === 0) {
+        console.log(lightColors.yellow("\nNo new messages to apply."));
+        return;
+      }
+
+      if (options.dryRun) {
+        console.log(
+          lightColors.blue(
+            `\nDry run - would reword ${messages.size} commit(s) and rewrite ${chain.length}`
+          )
+        );
+        exitProcess(0);
+        return;
+      }
+
+      if (!options.yes) {
+        if (!process.stdin.isTTY) {
+          throw new SecureError(
+            "cx reword needs a terminal to confirm the rewrite; pass --yes to skip the prompt",
+            ErrorType.VALIDATION_ERROR,
+            { operation: "reword" },
+            true
+          );
+        }
+        const { confirmed } = await prompt({
+          confirmed: {
+            type: "confirm",
+            message: `Reword ${messages.size} commit(s)? ${chain.length} commit(s) will get new hashes.`,
+            default: false,
+          },
+        });
+        if (!confirmed) {
+          console.log(lightColors.yellow("Reword cancelled"));
+          return;
+        }
+      }
+
+      const spinner = lightSpinner("Rewriting history...").start();
+      const rewritten = await rewriteCommits(this.gitService, chain, messages);
+      await this.gitService.updateHead(
+        rewritten[rewritten.length - 1].sha,
+        head,
+        `cx reword ${range}`
+      );
+
+      const run = await openRunJournal(this.gitService, branch, head);
+      const filesBySha = new Map(
+        proposals.map(proposal => [proposal.commit.sha, proposal.files])
+      );
+      for (const [i, commit] of rewritten.entries()) {
+        await run.journal.recordCommit(run.session, {
+          sha: commit.sha,
+          message: commit.message,
+          files: filesBySha.get(chain[i].sha) ?? [],
+        });
+      }
+      spinner.succeed(
+        `Reworded ${messages.size} commit(s); \`cx undo\` restores the previous history`
+      );
+      exitProcess(0);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  // Each commit's own diff goes through the usual prompt and privacy gate.
+  // A commit keeps its message when there is nothing to describe, the AI
+  // call fails, or the new message would not pass validation.
+  private readonly proposeRewords = async (
+    commits: readonly CommitInfo[],
+    branch: string | null,
+    options: RewordOptions
+  ): Promise<RewordProposal[]> => {
+    const aiService = this.getAIService();
+    const { ignore = [] } = ConfigManager.getInstance().getConfig();
+    const ticketOptions = buildTicketOptions(branch);
+    const spinner = lightSpinner("Generating messages...").start();
+    const proposals: RewordProposal[] = [];
+
+    for (const [i, commit] of commits.entries()) {
+      spinner.message = `Generating message ${i + 1}/${commits.length}...`;
+      const diffs = (
+        await this.gitService.getRevisionDiff(
+          await this.gitService.getParentRevision(commit.sha),
+          commit.sha
+        )
+      ).filter(diff => !matchesAnyGlob(diff.file, ignore));
+      const files = diffs.map(diff => diff.file);
+      const keep = (note: string): RewordProposal => ({
+        commit,
+        message: commit.message,
+        files,
+        note,
+      });
+
+      if (diffs.length === 0) {
+        proposals.push(keep("no changes to describe"));
+        continue;
+      }
+
+      try {
+        const group = await aiService.generateSingleGroup(diffs, {
+          branch: branch ?? undefined,
+          body: options.body,
+        });
+        const message = applyTicketReference(
+          composeCommitMessage(group.message, group.body),
+          ticketOptions
+        );
+        const validation = validateCommitMessage(message);
+        if (!validation.isValid || !validation.sanitizedValue) {
+          proposals.push(keep(validation.error ?? "invalid message"));
+        } else if (validation.sanitizedValue === commit.message) {
+          proposals.push(keep("already matches"));
+        } else {
+          proposals.push({ commit, message: validation.sanitizedValue, files });
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        proposals.push(keep(`generation failed (${reason})`));
+      }
+    }
+
+    spinner.succeed(`Generated messages for ${commits.length} commit(s)`);
+    return proposals;
+  };
+
+  squash = async (options: SquashOptions = {}): Promise<void> => {
+    try {
+      if (!(await this.gitService.isGitRepository())) {
+        console.log(lightColors.red("Not a git repository"));
+        exitProcess(1);
+        return;
+      }
+
+      const head = await this.gitService.getHead();
+      const onto = await this.resolveBaseBranch(
+        options.onto,
+        "--onto",
+        "squash"
+      );
+      let base: string;
+      try {
+        base = await this.gitService.getMergeBase([onto, "HEAD"]);
+      } catch {
+        base = "";
+      }
+      if (!head || !base) {
+        throw new SecureError(
+          `HEAD and ${onto} have no common history to squash onto`,
+          ErrorType.GIT_ERROR,
+          { operation: "squash" },
+          true
+        );
+      }
+
+      const commits: CommitInfo[] = [];
+      for (const sha of await this.gitService.listCommits(`${base}..HEAD`)) {
+        commits.push(await this.gitService.getCommitInfo(sha));
+      }
+      if (commits.length < 2) {
+        console.log(
+          lightColors.yellow(
+            commits.length === 0
+              ? `Nothing to squash: HEAD has no commits beyond ${onto}`
+              : `HEAD is already a single commit beyond ${onto}; use cx reword to change its message`
+          )
+        );
+        return;
+      }
+
+      const { ignore = [] } = ConfigManager.getInstance().getConfig();
+      const diffs = (await this.gitService.getRevisionDiff(base, head)).filter(
+        diff => !matchesAnyGlob(diff.file, ignore)
+      );
+      if (diffs.length === 0) {
+        throw new SecureError(
+          `The branch has no net changes against ${onto}; nothing to summarize`,
+          ErrorType.VALIDATION_ERROR,
+          { operation: "squash" },
+          true
+        );
+      }
+
+      const branch = await this.gitService.getCurrentBranch();
+      const spinner = lightSpinner(
+        `Summarizing ${commits.length} commits...`
+      ).start();
+      let message: string;
+      try {
+        const group = await this.getAIService().generateSingleGroup(diffs, {
+          branch: branch ?? undefined,
+          body: options.body ?? true,
+          history: commits.map(commit => commit.message.split("\n")[0]),
+        });
+        message = applyTicketReference(
+          composeCommitMessage(group.message, group.body),
+          buildTicketOptions(branch)
+        );
+        spinner.succeed("Generated a summary message");
+      } catch (error) {
+        spinner.fail(`Failed to generate a summary message: ${error}`);
+        throw error;
+      }
+
+      console.log(formatSquashPlan(commits, onto, message));
+      if (options.dryRun) {
+        console.log(lightColors.blue("\nDry run - nothing was squashed"));
+        exitProcess(0);
+        return;
+      }
+
+      if (!options.yes) {
+        if (!process.stdin.isTTY) {
+          throw new SecureError(
+            "cx squash needs a terminal to confirm; pass --yes to skip the prompt",
+            ErrorType.VALIDATION_ERROR,
+            { operation: "squash" },
+            true
+          );
+        }
+        const { confirmed } = await prompt({
+          confirmed: {
+            type: "confirm",
+            message: `Replace ${commits.length} commits with this one?`,
+            default: false,
+          },
+        });
+        if (!confirmed) {
+          console.log(lightColors.yellow("Squash cancelled"));
+          return;
+        }
+      }
+
+      // The squashed commit has HEAD's tree, so the index and working tree
+      // (including anything staged) are left exactly as they are.
+      const { tree } = await this.gitService.getCommitInfo(head);
+      const squashed = await this.gitService.commitTree(tree, [base], message);
+      await this.gitService.updateHead(
+        squashed,
+        head,
+        `cx squash onto ${onto}`
+      );
+
+      const run = await openRunJournal(this.gitService, branch, head);
+      await run.journal.recordCommit(run.session, {
+        sha: squashed,
+        message,
+        files: diffs.map(diff => diff.file),
+      });
+      console.log(
+        lightColors.green(
+          `\n✅ Squashed ${commits.length} commits into ${squashed.slice(0, 7)}; \`cx undo\` restores them`
+        )
+      );
+      exitProcess(0);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  // The markdown is the only thing written to stdout, so the command can be
+  // piped; progress and privacy notices go to stderr.
+  prDescription = async (options: PullRequestOptions = {}): Promise<void> => {
+    try {
+      if (!(await this.gitService.isGitRepository())) {
+        console.log(lightColors.red("Not a git repository"));
+        exitProcess(1);
+        return;
+      }
+
+      const head = await this.gitService.getHead();
+      const target = await this.resolveBaseBranch(
+        options.base,
+        "--base",
+        "pr-description"
+      );
+      let base: string;
+      try {
+        base = await this.gitService.getMergeBase([target, "HEAD"]);
+      } catch {
+        base = "";
+      }
+      if (!head || !base) {
+        throw new SecureError(
+          `HEAD and ${target} have no common history to describe`,
+          ErrorType.GIT_ERROR,
+          { operation: "pr-description" },
+          true
+        );
+      }
+
+      const subjects: string[] = [];
+      for (const sha of await this.gitService.listCommits(`${base}..HEAD`)) {
+        const { message } = await this.gitService.getCommitInfo(sha);
+        subjects.push(message.split("\n")[0]);
+      }
+      const { ignore = [] } = ConfigManager.getInstance().getConfig();
+      const diffs = (await this.gitService.getRevisionDiff(base, head)).filter(
+        diff => !matchesAnyGlob(diff.file, ignore)
+      );
+      if (diffs.length === 0) {
+        throw new SecureError(
+          `The branch has no changes against ${target}; nothing to describe`,
+          ErrorType.VALIDATION_ERROR,
+          { operation: "pr-description" },
+          true
+        );
+      }
+
+      const branch = await this.gitService.getCurrentBranch();
+      const spinner = lightSpinner(
+        `Describing ${subjects.length} commit(s) against ${target}...`
+      ).start();
+      let markdown: string;
+      try {
+        const description =
+          await this.getAIService().generatePullRequestDescription(diffs, {
+            base: target,
+            branch: branch ?? undefined,
+            commits: subjects,
+          });
+        markdown = formatPullRequestMarkdown(description);
+        spinner.succeed("Generated a pull request description");
+      } catch (error) {
+        spinner.fail(`Failed to generate a pull request description: ${error}`);
+        throw error;
+      }
+
+      if (options.output) {
+        await writeFile(options.output, markdown, "utf-8");
+        console.error(
+          lightColors.green(`✅ Wrote the description to ${options.output}`)
+        );
+      } else {
+        process.stdout.write(markdown);
+      }
+      exitProcess(0);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  // Like pr-description, only the markdown goes to stdout.
+  changelog = async (options: ChangelogOptions = {}): Promise<void> => {
+    try {
+      if (!(await this.gitService.isGitRepository())) {
+        console.log(lightColors.red("Not a git repository"));
+        exitProcess(1);
+        return;
+      }
+
+      const to = options.to ?? "HEAD";
+      for (const revision of [to, options.from]) {
+        if (revision && !(await this.gitService.revisionExists(revision))) {
+          throw new SecureError(
+            `Unknown branch or revision: ${revision}`,
+            ErrorType.GIT_ERROR,
+            { operation: "changelog" },
+            true
+          );
+        }
+      }
+      const mode = this.resolveChangelogMode(options.mode, "changelog");
+
+      // A tag passed as --to is the release itself, so the previous tag is
+      // looked up from its parent.
+      const from =
+        options.from ??
+        (await this.gitService.getLatestTag(options.to ? `${to}^` : to));
+      const range = from ? `${from}..${to}` : to;
+      const commits = await this.listNonMergeCommits(range);
+      if (commits.length === 0) {
+        console.error(lightColors.yellow(`No commits in ${range}`));
+        return;
+      }
+
+      const entries = await this.classifyCommits(commits, mode);
+
+      const release: ChangelogRelease = (await this.gitService.revisionExists(
+        `refs/tags/${to}`
+      ))
+        ? {
+            name: to,
+            date: formatReleaseDate(
+              (await this.gitService.getCommitInfo(to)).committer.date
+            ),
+            entries,
+          }
+        : { name: CHANGELOG_UNRELEASED, entries };
+      if (entries.length === 0) {
+        console.error(lightColors.yellow(`No user-facing changes in ${range}`));
+      }
+
+      if (options.write) {
+        let existing: string | null = null;
+        try {
+          existing = await readFile(CHANGELOG_FILE, "utf-8");
+        } catch {
+          existing = null;
+        }
+        await writeFile(
+          CHANGELOG_FILE,
+          prependChangelog(existing, release),
+          "utf-8"
+        );
+        console.error(
+          lightColors.green(
+            `✅ Added ${release.name} to ${CHANGELOG_FILE} (${entries.length} entries)`
+          )
+        );
+      } else {
+        process.stdout.write(formatChangelogRelease(release));
+      }
+      exitProcess(0);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  // Tags the release only after confirmation (or --yes); without a
+  // terminal to ask, it prints the plan and the command that would tag.
+  release = async (options: ReleaseOptions = {}): Promise<void> => {
+    try {
+      if (!(await this.gitService.isGitRepository())) {
+        console.log(lightColors.red("Not a git repository"));
+        exitProcess(1);
+        return;
+      }
+
+      if (!(await this.gitService.getHead())) {
+        throw new SecureError(
+          "Nothing to release: this branch has no commits yet",
+          ErrorType.GIT_ERROR,
+          { operation: "release" },
+          true
+        );
+      }
+      if (options.bump && !RELEASE_BUMPS.includes(options.bump)) {
+        throw new SecureError(
+          `Unknown bump "${options.bump}"; use ${RELEASE_BUMPS.join(", ")}`,
+          ErrorType.VALIDATION_ERROR,
+          { operation: "release" },
+          true
+        );
+      }
+      const mode = this.resolveChangelogMode(options.mode, "release");
+
+      const previous = await this.gitService.getLatestTag();
+      const version = previous ? parseVersionTag(previous) : INITIAL_VERSION;
+      if (!version) {
+        throw new SecureError(
+          `Latest tag ${previous} is not a semantic version like v1.2.3`,
+          ErrorType.VALIDATION_ERROR,
+          { operation: "release" },
+          true
+        );
+      }
+      const commits = await this.listNonMergeCommits(
+        previous ? `${previous}..HEAD` : "HEAD"
+      );
+      if (commits.length === 0) {
+        console.log(
+          lightColors.yellow(`No commits since ${previous}; nothing to release`)
+        );
+        return;
+      }
+
+      const entries = await this.classifyCommits(commits, mode);
+      const suggestion = suggestBump(entries, version);
+      const bump = options.bump ?? suggestion.bump;
+      const next = formatVersionTag(applyBump(version, bump));
+      if (await this.gitService.revisionExists(`refs/tags/${next}`)) {
+        throw new SecureError(
+          `Tag ${next} already exists`,
+          ErrorType.GIT_ERROR,
+          { operation: "release" },
+          true
+        );
+      }
+
+      const notes = formatChangelogRelease({
+        name: next,
+        date: new Date().toISOString().slice(0, 10),
+        entries,
+      });
+      console.log(
+        formatReleasePlan(previous, commits.length, suggestion, bump, next)
+      );
+      console.log(`\n${notes}`);
+
+      if (options.dryRun) {
+        console.log(lightColors.blue("Dry run - no tag was created"));
+        exitProcess(0);
+        return;
+      }
+
+      if (!options.yes) {
+        if (!process.stdin.isTTY) {
+          console.log(
+            lightColors.yellow(`Run cx release --yes to tag HEAD as ${next}`)
+          );
+          exitProcess(0);
+          return;
+        }
+        const { confirmed } = await prompt({
+          confirmed: {
+            type: "confirm",
+            message: `Create annotated tag ${next} at HEAD?`,
+            default: false,
+          },
+        });
+        if (!confirmed) {
+          console.log(lightColors.yellow("Release cancelled; no tag created"));
+          return;
+        }
+      }
+
+      await this.gitService.createTag(next, `${next}\n\n${notes}`);
+      console.log(
+        lightColors.green(
+          `✅ Tagged HEAD as ${next}; publish it with \`git push origin ${next}\``
+        )
+      );
+      exitProcess(0);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  // Conventional Commits repositories are classified from the commit types;
+  // everything else goes to the AI.
+  private readonly resolveChangelogMode = (
+    mode: ChangelogMode | undefined,
+    operation: string
+  ): ChangelogMode => {
+    const resolved =
+      mode ??
+      (ConfigManager.getInstance().getMessageStyle() === "conventional"
+        ? "conventional"
+        : "ai");
+    if (!CHANGELOG_MODES.includes(resolved)) {
+      throw new SecureError(
+        `Unknown changelog mode "${resolved}"; use ${CHANGELOG_MODES.join(" or ")}`,
+        ErrorType.VALIDATION_ERROR,
+        { operation },
+        true
+      );
+    }
+    return resolved;
+  };
+
+  // Merge commits are left out; their changes arrive through the merged
+  // commits.
+  private readonly listNonMergeCommits = async (
+    range: string
+  ): Promise<CommitInfo[]> => {
+    const commits: CommitInfo[] = [];
+    for (const sha of await this.gitService.listCommits(range)) {
+      const commit = await this.gitService.getCommitInfo(sha);
+      if (commit.parents.length <= 1) commits.push(commit);
+    }
+    return commits;
+  };
+
+  private readonly classifyCommits = async (
+    commits: readonly CommitInfo[],
+    mode: ChangelogMode
+  ): Promise<ChangelogEntry[]> => {
+    if (mode === "conventional") {
+      return commits
+        .map(classifyConventionalCommit)
+        .filter(entry => entry !== null);
+    }
+
+    const spinner = lightSpinner(
+      `Classifying ${commits.length} commit(s)...`
+    ).start();
+    try {
+      const entries = await this.getAIService().generateChangelogEntries(
+        commits.map(commit => ({
+          sha: commit.sha,
+          ...splitCommitMessage(commit.message),
+        }))
+      );
+      spinner.succeed(`Classified ${commits.length} commit(s)`);
+      return entries;
+    } catch (error) {
+      spinner.fail(`Failed to classify commits: ${error}`);
+      throw error;
+    }
+  };
+
+  // `flag` names the option that overrides the default, for the error.
+  private readonly resolveBaseBranch = async (
+    revision: string | undefined,
+    flag: string,
+    operation: string
+  ): Promise<string> => {
+    const candidates = revision ? [revision] : DEFAULT_BASE_BRANCHES;
+    for (const candidate of candidates) {
+      if (await this.gitService.revisionExists(candidate)) return candidate;
+    }
+    throw new SecureError(
+      revision
+        ? `Unknown branch or revision: ${revision}`
+        : `No ${DEFAULT_BASE_BRANCHES.join(" or ")} branch found; pass ${flag} <branch>`,
+      ErrorType.GIT_ERROR,
+      { operation },
+      true
+    );
+  };
 }
@@ -0,0 +1,59 @@
+import { lightColors } from "../utils/colors.js";
+import type { CommitRef } from "../types/common.js";
+
+export interface FixupOptions {
+  dryRun?: boolean;
+}
+
+export interface FileCommitMatch {
+  file: string;
+  commit: CommitRef | null; // null for a file with no history
+}
+
+export interface FixupGroup {
+  target: CommitRef;
+  files: string[];
+}
+
+export interface FixupPlan {
+  groups: FixupGroup[];
+  unmatched: string[];
+}
+
+// One fixup commit per target, in the order the targets were first seen.
+export const planFixups = (matches: readonly FileCommitMatch[]): FixupPlan => {
+  const groups = new Map<string, FixupGroup>();
+  const unmatched: string[] = [];
+  for (const { file, commit } of matches) {
+    if (!commit) {
+      unmatched.push(file);
+      continue;
+    }
+    const group = groups.get(commit.sha);
+    if (group) group.files.push(file);
+    else groups.set(commit.sha, { target: commit, files: [file] });
+  }
+  return { groups: [...groups.values()], unmatched };
+};
+
+export const formatFixupPlan = (
+  plan: FixupPlan,
+  displayPath: (file: string) => string = file => file
+): string => {
+  const lines = plan.groups.flatMap(({ target, files }) => [
+    `${lightColors.cyan(`fixup! ${target.subject}`)} ${lightColors.gray(`(${target.sha.slice(0, 7)})`)}`,
+    ...files.map(file => `  ${displayPath(file)}`),
+  ]);
+  if (plan.unmatched.length > 0) {
+    lines.push(
+      lightColors.yellow("No earlier commit to fix up (left unstaged):"),
+      ...plan.unmatched.map(file => `  ${displayPath(file)}`)
+    );
+  }
+  return lines.join("\n");
+};
+
+// Where `git rebase -i --autosquash` has to start so every target is in
+// the todo list.
+export const autosquashCommand = (rebaseBase: string | null): string =>
+  `git rebase -i --autosquash ${rebaseBase ?? "--root"}`;
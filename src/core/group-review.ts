@@ -0,0 +1,310 @@
+import { lightColors } from "../utils/colors.js";
+import { prompt } from "../utils/prompts.js";
+import { validateCommitSubject } from "../utils/security.js";
+import type { CommitGroup } from "../types/common.js";
+
+// Pure edits on the proposed groups. Each returns a new array and never
+// leaves an empty group behind.
+
+// A changed subject drops the AI body and description: they were written for
+// the old subject and may no longer describe the change.
+export const editGroupMessage = (
+  groups: readonly CommitGroup[],
+  index: number,
+  message: string
+): CommitGroup[] =>
+  groups.map((group, i) =>
+    i !== index || group.message === message
+      ? group
+      : { ...group, message, body: undefined, description: undefined }
+  );
+
+export const replaceGroup = (
+  groups: readonly CommitGroup[],
+  index: number,
+  replacement: CommitGroup
+): CommitGroup[] =>
+  groups.map((group, i) => (i === index ? replacement : group));
+
+export const dropGroup = (
+  groups: readonly CommitGroup[],
+  index: number
+): CommitGroup[] => groups.filter((_, i) => i !== index);
+
+// The merged group keeps the first group's position and message.
+export const mergeGroups = (
+  groups: readonly CommitGroup[],
+  first: number,
+  second: number
+): CommitGroup[] => {
+  if (first === second) return [...groups];
+  const [keep, absorb] = first < second ? [first, second] : [second, first];
+  const target = groups[keep];
+  const source = groups[absorb];
+  const body = [target.body, source.body].filter(Boolean).join("\n");
+  const merged: CommitGroup = {
+    ...target,
+    files: [...target.files, ...source.files],
+    body: body || undefined,
+    confidence: Math.min(target.confidence, source.confidence),
+  };
+  return replaceGroup(dropGroup(groups, absorb), keep, merged);
+};
+
+// Moves the chosen files out of a group into a new group placed right after
+// it. The new group has no body; its message comes from the caller.
+export const splitGroup = (
+  groups: readonly CommitGroup[],
+  index: number,
+  files: readonly string[],
+  message: string
+): CommitGroup[] => {
+  const source = groups[index];
+  const remaining = source.files.filter(file => !files.includes(file));
+  const moved = source.files.filter(file => files.includes(file));
+  if (moved.length === 0 || remaining.length === 0) return [...groups];
+
+  const result = [...groups];
+  result.splice(
+    index,
+    1,
+    { ...source, files: remaining },
+    { files: moved, message, confidence: source.confidence }
+  );
+  return result;
+};
+
+export const moveFile = (
+  groups: readonly CommitGroup[],
+  file: string,
+  targetIndex: number
+): CommitGroup[] =>
+  groups
+    .map((group, i) => {
+      const files = group.files.filter(f => f !== file);
+      return i === targetIndex
+        ? { ...group, files: [...files, file] }
+        : { ...group, files };
+    })
+    .filter(group => group.files.length > 0);
+
+export interface GroupReviewOptions {
+  // Fresh AI message for exactly these files; throws on failure.
+  regenerate: (group: CommitGroup) => Promise<CommitGroup>;
+}
+
+type ReviewAction =
+  | "commit"
+  | "edit"
+  | "regenerate"
+  | "merge"
+  | "split"
+  | "move"
+  | "drop"
+  | "cancel";
+
+const getFileName = (filePath: string): string =>
+  filePath.split("/").pop() ?? filePath;
+
+const printGroups = (groups: readonly CommitGroup[]): void => {
+  console.log(lightColors.blue(`\nProposed commits (${groups.length}):`));
+  groups.forEach((group, index) => {
+    console.log(
+      `  ${lightColors.cyan(`${index + 1})`)} ${lightColors.green(group.message)} ${lightColors.gray(`(${Math.round(group.confidence * 100)}%)`)}`
+    );
+    console.log(
+      lightColors.gray(
+        `     ${group.files.map(file => getFileName(file)).join(", ")}`
+      )
+    );
+    if (group.body) {
+      console.log(lightColors.gray(group.body.replace(/^/gm, "       ")));
+    }
+  });
+  console.log("");
+};
+
+const askAction = async (groupCount: number): Promise<ReviewAction> => {
+  const choices: Array<{ name: string; value: ReviewAction }> = [
+    { name: lightColors.green("Commit these groups"), value: "commit" },
+    { name: "Edit a message", value: "edit" },
+    { name: "Regenerate a message", value: "regenerate" },
+    ...(groupCount > 1
+      ? [
+          { name: "Merge two groups", value: "merge" as const },
+          { name: "Move a file to another group", value: "move" as const },
+        ]
+      : []),
+    { name: "Split a group", value: "split" },
+    { name: "Drop a group (leave its files uncommitted)", value: "drop" },
+    { name: lightColors.red("Cancel"), value: "cancel" },
+  ];
+  const { action } = await prompt<{ action: ReviewAction }>({
+    action: { type: "list", message: "Review commit groups", choices },
+  });
+  return action;
+};
+
+// 1-based on screen, 0-based in code.
+const askIndex = async (
+  message: string,
+  count: number,
+  exclude?: number
+): Promise<number> => {
+  const { value } = await prompt<{ value: string }>({
+    value: {
+      type: "input",
+      message: `${message} (1-${count}):`,
+      validate: (input: string): string | boolean => {
+        const num = Number(input);
+        if (!Number.isInteger(num) || num < 1 || num > count) {
+          return `Enter a number between 1 and ${count}`;
+        }
+        if (exclude !== undefined && num - 1 === exclude) {
+          return "Choose a different group";
+        }
+        return true;
+      },
+    },
+  });
+  return Number(value) - 1;
+};
+
+const askMessage = async (
+  message: string,
+  current?: string
+): Promise<string> => {
+  const { value } = await prompt<{ value: string }>({
+    value: {
+      type: "input",
+      message,
+      default: current,
+      validate: (input: string): string | boolean => {
+        const result = validateCommitSubject(input.trim());
+        return result.isValid || (result.error ?? "Invalid commit message");
+      },
+    },
+  });
+  return value.trim();
+};
+
+const askFiles = async (group: CommitGroup): Promise<string[]> => {
+  group.files.forEach((file, index) => {
+    console.log(`  ${lightColors.dim(`${index + 1})`)} ${file}`);
+  });
+  const { value } = await prompt<{ value: string }>({
+    value: {
+      type: "input",
+      message: "Files to split off (e.g. 1,3):",
+      validate: (input: string): string | boolean => {
+        const picks = input.split(",").map(part => Number(part.trim()));
+        if (
+          picks.length === 0 ||
+          picks.some(
+            n => !Number.isInteger(n) || n < 1 || n > group.files.length
+          )
+        ) {
+          return `Enter file numbers between 1 and ${group.files.length}`;
+        }
+        if (new Set(picks).size >= group.files.length) {
+          return "Leave at least one file in the original group";
+        }
+        return true;
+      },
+    },
+  });
+  return Array.from(
+    new Set(value.split(",").map(part => group.files[Number(part.trim()) - 1]))
+  );
+};
+
+const askFile = async (group: CommitGroup): Promise<string> => {
+  if (group.files.length === 1) return group.files[0];
+  group.files.forEach((file, index) => {
+    console.log(`  ${lightColors.dim(`${index + 1})`)} ${file}`);
+  });
+  return group.files[await askIndex("File to move", group.files.length)];
+};
+
+const applyAction = async (
+  action: Exclude<ReviewAction, "commit" | "cancel">,
+  groups: CommitGroup[],
+  options: GroupReviewOptions
+): Promise<CommitGroup[]> => {
+  const count = groups.length;
+  switch (action) {
+    case "edit": {
+      const index = await askIndex("Group to edit", count);
+      const message = await askMessage("New message:", groups[index].message);
+      const edited = editGroupMessage(groups, index, message);
+      if (groups[index].body && !edited[index].body) {
+        console.log(
+          lightColors.gray(
+            "  Dropped the generated body; regenerate the group for a new one."
+          )
+        );
+      }
+      return edited;
+    }
+    case "regenerate": {
+      const index = await askIndex("Group to regenerate", count);
+      console.log(lightColors.gray("  Asking AI for a new message..."));
+      return replaceGroup(
+        groups,
+        index,
+        await options.regenerate(groups[index])
+      );
+    }
+    case "merge": {
+      const first = await askIndex("First group", count);
+      const second = await askIndex("Merge with group", count, first);
+      return mergeGroups(groups, first, second);
+    }
+    case "split": {
+      const index = await askIndex("Group to split", count);
+      if (groups[index].files.length < 2) {
+        console.log(lightColors.yellow("  That group has only one file."));
+        return groups;
+      }
+      const files = await askFiles(groups[index]);
+      const message = await askMessage("Message for the new group:");
+      return splitGroup(groups, index, files, message);
+    }
+    case "move": {
+      const from = await askIndex("Move a file from group", count);
+      const file = await askFile(groups[from]);
+      const to = await askIndex("Move it to group", count, from);
+      return moveFile(groups, file, to);
+    }
+    case "drop": {
+      const index = await askIndex("Group to drop", count);
+      return dropGroup(groups, index);
+    }
+  }
+};
+
+// Returns the groups to commit, or null when the user cancels. Nothing is
+// staged until this resolves.
+export const reviewGroups = async (
+  initialGroups: readonly CommitGroup[],
+  options: GroupReviewOptions
+): Promise<CommitGroup[] | null> => {
+  let groups = [...initialGroups];
+
+  while (groups.length > 0) {
+    printGroups(groups);
+    const action = await askAction(groups.length);
+    if (action === "commit") return groups;
+    if (action === "cancel") return null;
+
+    try {
+      groups = await applyAction(action, groups, options);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.log(lightColors.red(`  ${reason}`));
+    }
+  }
+
+  console.log(lightColors.yellow("All groups dropped; nothing to commit."));
+  return null;
+};
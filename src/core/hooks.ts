@@ -0,0 +1,211 @@
+import { chmod, mkdir, readFile, rm, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { lightColors } from "../utils/colors.js";
+import { withTimeout } from "../utils/security.js";
+import { matchesAnyGlob } from "../utils/glob.js";
+import {
+  composeCommitMessage,
+  stripGitComments,
+} from "../utils/commit-message.js";
+import { applyTicketReference } from "../services/message-style.js";
+import type { GitService } from "../services/git.js";
+import { ErrorType } from "../types/error-handler.js";
+import { SecureError } from "../utils/error-handler.js";
+import { HOOK_AI_TIMEOUT_MS } from "../constants/ai.js";
+import type { CommitGroup } from "../types/common.js";
+
+// Services load on demand: git runs this hook on every commit, and most
+// invocations (merges, -m, amends) return before needing them.
+const createGitService = async (): Promise<GitService> => {
+  const { GitService } = await import("../services/git.js");
+  return new GitService();
+};
+
+export const PREPARE_COMMIT_MSG_HOOK = "prepare-commit-msg";
+export const COMMIT_MSG_HOOK = "commit-msg";
+
+export const MANAGED_HOOKS = [
+  PREPARE_COMMIT_MSG_HOOK,
+  COMMIT_MSG_HOOK,
+] as const;
+export type ManagedHook = (typeof MANAGED_HOOKS)[number];
+
+export const isManagedHook = (name: string): name is ManagedHook =>
+  (MANAGED_HOOKS as readonly string[]).includes(name);
+
+// Identifies hooks cx wrote, so uninstall never deletes someone else's.
+const hookMarker = (hook: ManagedHook): string => `# commit-x: ${hook} hook`;
+
+const HOOK_BODIES: Readonly<Record<ManagedHook, string>> = {
+  // Never blocks a commit: a missing cx binary or any failure leaves the
+  // message file as git wrote it.
+  [PREPARE_COMMIT_MSG_HOOK]: `command -v cx >/dev/null 2>&1 || exit 0
+cx hook ${PREPARE_COMMIT_MSG_HOOK} "$@" </dev/null || true
+exit 0`,
+  // Rejects the commit when the message fails lint; a machine without cx
+  // commits as usual.
+  [COMMIT_MSG_HOOK]: `command -v cx >/dev/null 2>&1 || exit 0
+exec cx lint-msg "$1" </dev/null`,
+};
+
+const hookScript = (hook: ManagedHook): string => `#!/bin/sh
+${hookMarker(hook)} (remove with \`cx hook uninstall ${hook}\`)
+${HOOK_BODIES[hook]}
+`;
+
+export interface HookInstallOptions {
+  hook?: ManagedHook; // defaults to prepare-commit-msg
+  force?: boolean; // replace a hook cx did not write
+}
+
+const readExistingHook = async (hookPath: string): Promise<string | null> => {
+  try {
+    return await readFile(hookPath, "utf-8");
+  } catch {
+    return null;
+  }
+};
+
+const resolveHookPath = async (
+  gitService: GitService,
+  hook: ManagedHook
+): Promise<string> => {
+  if (!(await gitService.isGitRepository())) {
+    throw new SecureError(
+      "Not a git repository",
+      ErrorType.GIT_ERROR,
+      { operation: "hook" },
+      true
+    );
+  }
+  return gitService.getGitPath(`hooks/${hook}`);
+};
+
+export const installHook = async (
+  options: HookInstallOptions = {}
+): Promise<string> => {
+  const { hook = PREPARE_COMMIT_MSG_HOOK, force } = options;
+  const hookPath = await resolveHookPath(await createGitService(), hook);
+  const existing = await readExistingHook(hookPath);
+  if (existing !== null && !existing.includes(hookMarker(hook)) && !force) {
+    throw new SecureError(
+      `A ${hook} hook already exists at ${hookPath}; use --force to replace it`,
+      ErrorType.VALIDATION_ERROR,
+      { operation: "hook", file: hookPath },
+      true
+    );
+  }
+
+  await mkdir(dirname(hookPath), { recursive: true });
+  await writeFile(hookPath, hookScript(hook), "utf-8");
+  await chmod(hookPath, 0o755);
+  return hookPath;
+};
+
+// Returns the removed hook's path, or null when no cx hook was installed.
+export const uninstallHook = async (
+  hook: ManagedHook = PREPARE_COMMIT_MSG_HOOK
+): Promise<string | null> => {
+  const hookPath = await resolveHookPath(await createGitService(), hook);
+  const existing = await readExistingHook(hookPath);
+  if (existing === null) return null;
+  if (!existing.includes(hookMarker(hook))) {
+    throw new SecureError(
+      `The ${hook} hook at ${hookPath} was not installed by cx; leaving it in place`,
+      ErrorType.VALIDATION_ERROR,
+      { operation: "hook", file: hookPath },
+      true
+    );
+  }
+  await rm(hookPath, { force: true });
+  return hookPath;
+};
+
+// Git passes a source when the message already has an origin: -m/-F
+// ("message"), a template, a merge or squash, or -c/-C/--amend ("commit").
+// Only a plain `git commit` gets a generated message.
+export const shouldFillMessage = (
+  source: string | undefined,
+  currentMessage: string
+): boolean => !source && stripGitComments(currentMessage).trim() === "";
+
+// The first group becomes the message; when the AI sees more than one
+// logical change, the rest are listed as comments so the user can split.
+export const buildHookMessage = (
+  groups: readonly CommitGroup[],
+  currentMessage: string,
+  message: string
+): string => {
+  const others = groups.slice(1);
+  const note =
+    others.length > 0
+      ? [
+          "# commit-x found more than one logical change in the staged files.",
+          "# Consider `cx commit` to split them. Other suggestions:",
+          ...others.map(
+            group => `#   ${group.message} (${group.files.join(", ")})`
+          ),
+          "",
+        ]
+      : [];
+  return [message, "", ...note, currentMessage].join("\n");
+};
+
+const generateHookMessage = async (
+  gitService: GitService
+): Promise<{ message: string; groups: CommitGroup[] } | null> => {
+  const { ConfigManager } = await import("../config.js");
+  const { AIService } = await import("../services/ai.js");
+  const { buildTicketOptions } = await import("./commit-orchestrator.js");
+  const { ignore = [] } = ConfigManager.getInstance().getConfig();
+  const diffs = (await gitService.getStagedDiff()).filter(
+    diff => !matchesAnyGlob(diff.file, ignore)
+  );
+  if (diffs.length === 0) return null;
+
+  const branch = await gitService.getCurrentBranch();
+  const { groups } = await new AIService().generateAggregatedCommits(diffs, {
+    branch: branch ?? undefined,
+  });
+  if (groups.length === 0) return null;
+
+  const [first] = groups;
+  const message = applyTicketReference(
+    composeCommitMessage(first.message, first.body),
+    buildTicketOptions(branch)
+  );
+  return { message, groups };
+};
+
+// Entry point for the installed hook. Any failure (offline, no API key,
+// nothing staged) is reported on stderr and the message file is left alone.
+export const runPrepareCommitMsg = async (
+  messageFile: string,
+  source?: string
+): Promise<void> => {
+  let currentMessage: string;
+  try {
+    currentMessage = await readFile(messageFile, "utf-8");
+  } catch {
+    return;
+  }
+  if (!shouldFillMessage(source, currentMessage)) return;
+
+  try {
+    const result = await withTimeout(
+      generateHookMessage(await createGitService()),
+      HOOK_AI_TIMEOUT_MS
+    );
+    if (!result) return;
+    await writeFile(
+      messageFile,
+      buildHookMessage(result.groups, currentMessage, result.message),
+      "utf-8"
+    );
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(
+      lightColors.yellow(`commit-x: no message suggested (${reason})`)
+    );
+  }
+};
@@ -0,0 +1,83 @@
+import { readFile } from "fs/promises";
+import { lightColors } from "../utils/colors.js";
+import {
+  validateCommitBody,
+  validateCommitSubject,
+} from "../utils/security.js";
+import {
+  splitCommitMessage,
+  stripGitComments,
+} from "../utils/commit-message.js";
+import { validateMessageStyle } from "../services/message-style.js";
+import type { MessageStyle } from "../types/common.js";
+import { ErrorType } from "../types/error-handler.js";
+import { SecureError } from "../utils/error-handler.js";
+
+// Messages git writes itself; their subjects follow git's format, not the
+// project's style.
+const GENERATED_SUBJECTS = [/^Merge /, /^Revert "/, /^(fixup|squash|amend)! /];
+
+export const isGeneratedMessage = (message: string): boolean => {
+  const { subject } = splitCommitMessage(message);
+  return GENERATED_SUBJECTS.some(pattern => pattern.test(subject));
+};
+
+// Applies the checks cx runs on its own messages (length, wrap width,
+// suspicious content, the configured style) to any message file. Returns
+// the problems found; an empty list means the message passes.
+export const lintCommitMessage = (
+  rawMessage: string,
+  style: MessageStyle
+): string[] => {
+  const message = stripGitComments(rawMessage).trim();
+  if (isGeneratedMessage(message)) return [];
+
+  const { subject, body } = splitCommitMessage(message);
+  const subjectResult = validateCommitSubject(subject);
+  if (!subjectResult.isValid) return [subjectResult.error ?? "Invalid subject"];
+
+  const problems: string[] = [];
+  if (body) {
+    const bodyResult = validateCommitBody(body);
+    if (!bodyResult.isValid) problems.push(bodyResult.error ?? "Invalid body");
+  }
+
+  const styleResult = validateMessageStyle(subject, style);
+  if (!styleResult.isValid) {
+    problems.push(`Subject does not follow the "${style}" message style`);
+  } else if (
+    styleResult.correctedMessage &&
+    styleResult.correctedMessage !== subject
+  ) {
+    problems.push(
+      `Subject does not follow the "${style}" message style; expected something like "${styleResult.correctedMessage}"`
+    );
+  }
+  return problems;
+};
+
+// Entry point for `cx lint-msg` and the commit-msg hook. Returns whether
+// the message passed.
+export const runLintMsg = async (messageFile: string): Promise<boolean> => {
+  let rawMessage: string;
+  try {
+    rawMessage = await readFile(messageFile, "utf-8");
+  } catch {
+    throw new SecureError(
+      `Cannot read commit message file: ${messageFile}`,
+      ErrorType.FILE_SYSTEM_ERROR,
+      { operation: "lintMsg", file: messageFile },
+      true
+    );
+  }
+  const { ConfigManager } = await import("../config.js");
+  const style = ConfigManager.getInstance().getMessageStyle();
+  const problems = lintCommitMessage(rawMessage, style);
+  if (problems.length === 0) return true;
+
+  console.error(lightColors.red("❌ Commit message rejected:"));
+  for (const problem of problems) {
+    console.error(lightColors.red(`   - ${problem}`));
+  }
+  return false;
+};
@@ -0,0 +1,30 @@
+import type { PullRequestDescription } from "../types/common.js";
+
+export interface PullRequestOptions {
+  base?: string; // defaults to the first of DEFAULT_BASE_BRANCHES that exists
+  output?: string; // file to write; stdout when unset
+}
+
+// GitHub-flavored markdown: the title as a heading, then Summary, Changes
+// (one subsection per area) and Testing. Empty sections are left out.
+export const formatPullRequestMarkdown = (
+  description: PullRequestDescription
+): string => {
+  const sections = [
+    `# ${description.title}`,
+    `## Summary\n\n${description.summary}`,
+  ];
+  if (description.changes.length > 0) {
+    const areas = description.changes.map(
+      ({ area, items }) =>
+        `### ${area}\n\n${items.map(item => `- ${item}`).join("\n")}`
+    );
+    sections.push(["## Changes", ...areas].join("\n\n"));
+  }
+  if (description.testing.length > 0) {
+    sections.push(
+      `## Testing\n\n${description.testing.map(note => `- ${note}`).join("\n")}`
+    );
+  }
+  return `${sections.join("\n\n")}\n`;
+};
@@ -0,0 +1,125 @@
+import { lightColors } from "../utils/colors.js";
+import type { ChangelogEntry } from "../types/common.js";
+import type { ChangelogMode } from "./changelog.js";
+
+export type ReleaseBump = "major" | "minor" | "patch";
+
+export const RELEASE_BUMPS: readonly ReleaseBump[] = [
+  "major",
+  "minor",
+  "patch",
+];
+
+export interface ReleaseOptions {
+  bump?: ReleaseBump; // overrides the suggested bump
+  mode?: ChangelogMode; // how commits are classified, as for cx changelog
+  dryRun?: boolean;
+  yes?: boolean; // tag without asking for confirmation
+}
+
+export interface SemVer {
+  prefix: string; // "v" or "", carried over to the next tag
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease?: string; // "rc.1" of v1.2.0-rc.1, never carried over
+}
+
+export interface BumpSuggestion {
+  bump: ReleaseBump;
+  reason: string;
+}
+
+// The first release when the repository has no tags yet.
+export const INITIAL_VERSION: SemVer = {
+  prefix: "v",
+  major: 0,
+  minor: 0,
+  patch: 0,
+};
+
+const VERSION_TAG =
+  /^(v?)(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+// Pre-release and build suffixes are accepted on the previous tag but not
+// carried over: the next version is always a plain release.
+export const parseVersionTag = (tag: string): SemVer | null => {
+  const match = tag.match(VERSION_TAG);
+  if (!match) return null;
+  const [, prefix, major, minor, patch, prerelease] = match;
+  return {
+    prefix,
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    ...(prerelease && { prerelease }),
+  };
+};
+
+export const formatVersionTag = (version: SemVer): string =>
+  `${version.prefix}${version.major}.${version.minor}.${version.patch}`;
+
+const plural = (count: number, noun: string): string =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+// Below 1.0.0 a breaking change only suggests a minor bump, as semver
+// leaves 0.x free to change; an explicit --bump major still goes to 1.0.0.
+export const suggestBump = (
+  entries: readonly ChangelogEntry[],
+  version: SemVer
+): BumpSuggestion => {
+  const breaking = entries.filter(entry => entry.breaking).length;
+  if (breaking > 0) {
+    const reason = plural(breaking, "breaking change");
+    return version.major === 0
+      ? { bump: "minor", reason: `${reason}, before 1.0.0` }
+      : { bump: "major", reason };
+  }
+  const added = entries.filter(entry => entry.section === "Added").length;
+  if (added > 0) {
+    return { bump: "minor", reason: plural(added, "new feature") };
+  }
+  return {
+    bump: "patch",
+    reason:
+      entries.length > 0 ? "fixes and changes only" : "no user-facing changes",
+  };
+};
+
+// As in semver: a pre-release is released as its own version when the
+// bump allows it (v1.2.0-rc.1 + minor or patch -> v1.2.0), and bumped past
+// otherwise (v1.2.3-rc.1 + minor -> v1.3.0).
+export const applyBump = (version: SemVer, bump: ReleaseBump): SemVer => {
+  const { prerelease, ...release } = version;
+  switch (bump) {
+    case "major":
+      return prerelease && release.minor === 0 && release.patch === 0
+        ? release
+        : { ...release, major: release.major + 1, minor: 0, patch: 0 };
+    case "minor":
+      return prerelease && release.patch === 0
+        ? release
+        : { ...release, minor: release.minor + 1, patch: 0 };
+    default:
+      return prerelease ? release : { ...release, patch: release.patch + 1 };
+  }
+};
+
+export const formatReleasePlan = (
+  previous: string | null,
+  commitCount: number,
+  suggestion: BumpSuggestion,
+  bump: ReleaseBump,
+  next: string
+): string => {
+  const since = previous ? `since ${previous}` : "in this repository";
+  const choice =
+    bump === suggestion.bump
+      ? `${bump} (${suggestion.reason})`
+      : `${bump} (requested; suggested ${suggestion.bump}: ${suggestion.reason})`;
+  return [
+    lightColors.blue(`${plural(commitCount, "commit")} ${since}`),
+    `Bump: ${choice}`,
+    lightColors.green(`Next version: ${next}`),
+  ].join("\n");
+};
@@ -0,0 +1,94 @@
+import { lightColors } from "../utils/colors.js";
+import type { GitService } from "../services/git.js";
+import type { CommitInfo } from "../types/common.js";
+
+export interface RewordOptions {
+  dryRun?: boolean;
+  yes?: boolean; // skip the confirmation prompt
+  body?: boolean; // overrides the commitBody config
+}
+
+export interface RewordProposal {
+  commit: CommitInfo;
+  message: string;
+  files: string[];
+  note?: string; // why the original message is kept
+}
+
+const shortSha = (sha: string): string => sha.slice(0, 7);
+
+// The rev-list argument for a reword range, or null when it is not one.
+// `A..B` is taken as is and a single revision means just that commit: a
+// bare `HEAD~3` would otherwise list every ancestor down to the root and
+// rewrite the whole history. Symmetric ranges (`A...B`), exclusions and
+// anything that could read as an option are refused.
+export const normalizeRewordRange = (range: string): string | null => {
+  const trimmed = range.trim();
+  if (
+    trimmed === "" ||
+    /\s/.test(trimmed) ||
+    trimmed.startsWith("-") ||
+    trimmed.startsWith("^") ||
+    trimmed.includes("...")
+  ) {
+    return null;
+  }
+  if (trimmed.includes("..")) return trimmed;
+  return trimmed.endsWith("^!") ? trimmed : `${trimmed}^!`;
+};
+
+// `chain` is every commit from the oldest one being reworded up to HEAD:
+// they all get new parents, even those whose message stays. Returns the
+// reason to refuse, or null when the rewrite is safe.
+export const findRewordBlocker = (
+  chain: readonly CommitInfo[],
+  rangeCommits: readonly string[]
+): string | null => {
+  const onBranch = new Set(chain.map(commit => commit.sha));
+  const outside = rangeCommits.find(sha => !onBranch.has(sha));
+  if (outside) {
+    return `Commit ${shortSha(outside)} is not on the checked-out branch; cx reword only rewrites HEAD's history.`;
+  }
+
+  const merge = chain.find(commit => commit.parents.length > 1);
+  if (merge) {
+    return `Commit ${shortSha(merge.sha)} is a merge; cx reword only rewrites linear history.`;
+  }
+  return null;
+};
+
+export const formatRewordPlan = (
+  proposals: readonly RewordProposal[]
+): string =>
+  proposals
+    .map(({ commit, message, note }) => {
+      const before = commit.message.split("\n")[0];
+      const header = `${lightColors.gray(shortSha(commit.sha))} ${lightColors.red(before)}`;
+      return note
+        ? `${header}\n  ${lightColors.yellow(`kept: ${note}`)}`
+        : `${header}\n  ${lightColors.green(`→ ${message.split("\n")[0]}`)}`;
+    })
+    .join("\n");
+
+// Recreates the chain oldest first, swapping in the new messages. Trees,
+// authors and dates are unchanged. Returns the new commits in the same
+// order; HEAD is left for the caller to move.
+export const rewriteCommits = async (
+  gitService: GitService,
+  chain: readonly CommitInfo[],
+  messages: ReadonlyMap<string, string>
+): Promise<CommitInfo[]> => {
+  const rewritten: CommitInfo[] = [];
+  let parents = chain[0]?.parents ?? [];
+  for (const commit of chain) {
+    const next = {
+      ...commit,
+      parents,
+      message: messages.get(commit.sha) ?? commit.message,
+    };
+    const sha = await gitService.createCommit(next);
+    rewritten.push({ ...next, sha });
+    parents = [sha];
+  }
+  return rewritten;
+};
@@ -0,0 +1,30 @@
+import { lightColors } from "../utils/colors.js";
+import type { CommitInfo } from "../types/common.js";
+
+export interface SquashOptions {
+  onto?: string; // defaults to the first of DEFAULT_BASE_BRANCHES that exists
+  dryRun?: boolean;
+  yes?: boolean; // skip the confirmation prompt
+  body?: boolean; // a summary body is generated unless set to false
+}
+
+export const formatSquashPlan = (
+  commits: readonly CommitInfo[],
+  onto: string,
+  message: string
+): string => {
+  const subjects = commits.map(
+    commit =>
+      `  ${lightColors.gray(commit.sha.slice(0, 7))} ${commit.message.split("\n")[0]}`
+  );
+  const [subject, ...body] = message.split("\n");
+  return [
+    lightColors.blue(
+      `Squashing ${commits.length} commit(s) since ${onto} into one:`
+    ),
+    ...subjects,
+    "",
+    lightColors.green(`→ ${subject}`),
+    ...body.map(line => `  ${line}`),
+  ].join("\n");
+};
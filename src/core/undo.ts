@@ -0,0 +1,70 @@
+import { lightColors } from "../utils/colors.js";
+import type { JournalSession } from "../types/common.js";
+
+export interface UndoOptions {
+  session?: number; // defaults to the newest session that can be undone
+  list?: boolean;
+}
+
+const shortSha = (sha: string): string => sha.slice(0, 7);
+
+export const selectSession = (
+  sessions: readonly JournalSession[],
+  sessionId?: number
+): JournalSession | string => {
+  if (sessionId === undefined) {
+    const latest = [...sessions]
+      .reverse()
+      .find(session => !session.undoneAt && session.commits.length > 0);
+    return latest ?? "No cx commits to undo in this repository";
+  }
+
+  const session = sessions.find(candidate => candidate.id === sessionId);
+  if (!session) return `Session ${sessionId} is not in the cx journal`;
+  if (session.undoneAt) return `Session ${sessionId} was already undone`;
+  if (session.commits.length === 0) {
+    return `Session ${sessionId} has no commits`;
+  }
+  return session;
+};
+
+// Undo only ever moves HEAD back over the session's own commits, so they
+// must be exactly the newest first-parent commits on the branch. Returns
+// the reason to refuse, or null when the soft reset is safe.
+export const findUndoBlocker = (
+  session: JournalSession,
+  recentCommits: readonly string[]
+): string | null => {
+  const expected = session.commits.map(commit => commit.sha).reverse();
+  const [head] = recentCommits;
+
+  if (head !== expected[0]) {
+    const headLabel = head ? `HEAD is ${shortSha(head)}` : "HEAD is unset";
+    return `${headLabel}, not the last commit of session ${session.id}. Commits made after it (by you or a later cx run) must be undone first.`;
+  }
+
+  const matches = expected.every((sha, i) => recentCommits[i] === sha);
+  if (!matches) {
+    return `The history of session ${session.id} was rewritten (rebase or amend?); undo it manually with git reset.`;
+  }
+  return null;
+};
+
+export const formatSessionList = (
+  sessions: readonly JournalSession[]
+): string => {
+  if (sessions.length === 0) return "No cx sessions recorded yet.";
+
+  return [...sessions]
+    .reverse()
+    .map(session => {
+      const state = session.undoneAt ? lightColors.yellow(" (undone)") : "";
+      const header = `${lightColors.cyan(`#${session.id}`)} ${session.startedAt}${session.branch ? ` on ${session.branch}` : ""}${state}`;
+      const commits = session.commits.map(
+        commit =>
+          `  ${lightColors.gray(shortSha(commit.sha))} ${commit.message.split("\n")[0]} ${lightColors.gray(`(${commit.files.length} file(s))`)}`
+      );
+      return [header, ...commits].join("\n");
+    })
+    .join("\n\n");
+};
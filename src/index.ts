@@ -15,10 +15,32 @@ export {
 } from "./utils/performance.js";
 
 export * as diffMinimizer from "./utils/diff-minimizer.js";
+export * as jsonStream from "./utils/json-stream.js";
+export * as jsonExtract from "./utils/json-extract.js";
+export * as tokenBudget from "./utils/token-budget.js";
 export * as fileClassifier from "./utils/file-classifier.js";
 export * as aiPrivacyGate from "./services/ai-privacy-gate.js";
 export * as aiPrompt from "./services/ai-prompt.js";
 export * as aiCommitGroup from "./services/ai-commit-group.js";
+export * as aiChunking from "./services/ai-chunking.js";
+export * as aiProvider from "./services/ai-provider.js";
+export * as aiMock from "./services/ai-mock.js";
+export * as projectConfig from "./utils/project-config.js";
+export * as messageStyle from "./services/message-style.js";
+export * as commitMessage from "./utils/commit-message.js";
+export * as groupReview from "./core/group-review.js";
+export * as diffHunks from "./utils/diff-hunks.js";
+export * as sessionJournal from "./services/session-journal.js";
+export * as undo from "./core/undo.js";
+export * as fixup from "./core/fixup.js";
+export * as reword from "./core/reword.js";
+export * as squash from "./core/squash.js";
+export * as prDescription from "./core/pr-description.js";
+export * as changelog from "./core/changelog.js";
+export * as release from "./core/release.js";
+export * as jsonOutput from "./utils/json-output.js";
+export * as hooks from "./core/hooks.js";
+export * as lintMsg from "./core/lint-msg.js";
 
 const getCommitX = async (): Promise<
   typeof import("./core/commitx.js").CommitX
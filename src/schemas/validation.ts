@@ -1,4 +1,11 @@
 import { z } from "zod";
+import { AI_ENV_PROVIDERS, AI_PROVIDERS } from "../constants/ai.js";
+import {
+  CLASSIFIER_OVERRIDE_CATEGORIES,
+  MESSAGE_STYLES,
+  MESSAGE_TEMPLATE_PLACEHOLDERS,
+  TICKET_PLACEMENTS,
+} from "../constants/config.js";
 
 // Base validation schemas
 export const ApiKeySchema = z
@@ -8,11 +15,184 @@ export const ApiKeySchema = z
   .regex(/^[A-Za-z0-9_-]+$/, "API key contains invalid characters")
   .transform(val => val.trim());
 
-// Configuration schema (model is fixed in code; not stored in user config)
+export const AIProviderSchema = z.enum(AI_PROVIDERS);
+export const EnvProviderSchema = z.enum(AI_ENV_PROVIDERS);
+
+export const ModelSettingsSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Model name is required")
+    .max(100, "Model name must be 100 characters or less")
+    .regex(/^[A-Za-z0-9._:/-]+$/, "Model name contains invalid characters"),
+  timeoutMs: z
+    .number()
+    .int()
+    .min(1000, "Model timeout must be at least 1000ms")
+    .max(300_000, "Model timeout must be 300000ms or less")
+    .optional(),
+  retries: z
+    .number()
+    .int()
+    .min(0, "Model retries must be non-negative")
+    .max(5, "Model retries must be 5 or less")
+    .optional(),
+  maxPromptTokens: z
+    .number()
+    .int()
+    .min(2_000, "Model maxPromptTokens must be at least 2000")
+    .max(2_000_000, "Model maxPromptTokens must be 2000000 or less")
+    .optional(),
+  structuredOutput: z.boolean().optional(),
+});
+
+// Accepts what `cx config set models ...` receives on the command line: a
+// comma-separated list of names, or a JSON array of names / settings objects.
+const parseModelChainInput = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  if (trimmed.startsWith("[")) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return value;
+    }
+  }
+  return trimmed
+    .split(",")
+    .map(name => name.trim())
+    .filter(Boolean);
+};
+
+export const ModelChainSchema = z.preprocess(
+  parseModelChainInput,
+  z
+    .array(
+      z.preprocess(
+        entry => (typeof entry === "string" ? { name: entry } : entry),
+        ModelSettingsSchema
+      )
+    )
+    .min(1, "At least one model is required")
+    .max(10, "At most 10 models can be chained")
+    .refine(
+      chain => new Set(chain.map(model => model.name)).size === chain.length,
+      "Model names in the chain must be unique"
+    )
+);
+
+const GlobPatternSchema = z
+  .string()
+  .min(1, "Glob pattern is required")
+  .max(200, "Glob pattern must be 200 characters or less");
+
+// Same CLI affordance as models: `cx config set ignore "dist/**,*.snap"`
+const GlobListSchema = z.preprocess(
+  value =>
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map(pattern => pattern.trim())
+          .filter(Boolean)
+      : value,
+  z.array(GlobPatternSchema).max(100, "At most 100 patterns are allowed")
+);
+
+export const ClassifierOverridesSchema = z.preprocess(
+  value => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  },
+  z.record(GlobPatternSchema, z.enum(CLASSIFIER_OVERRIDE_CATEGORIES))
+);
+
+const templatePlaceholders = (template: string): string[] =>
+  Array.from(template.matchAll(/\{(\w+)\}/g), match => match[1]);
+
+export const MessageTemplateSchema = z
+  .string()
+  .min(1, "Message template is required")
+  .max(200, "Message template must be 200 characters or less")
+  .refine(
+    template => /\{subject\}/i.test(template),
+    "Message template must contain {subject} or {Subject}"
+  )
+  .refine(
+    template =>
+      templatePlaceholders(template).every(name =>
+        (MESSAGE_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)
+      ),
+    `Message template placeholders must be one of: ${MESSAGE_TEMPLATE_PLACEHOLDERS.map(name => `{${name}}`).join(", ")}`
+  );
+
+const isValidRegex = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const TicketPatternsSchema = z.preprocess(
+  value => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [value];
+    }
+  },
+  z
+    .array(
+      z
+        .string()
+        .min(1, "Ticket pattern is required")
+        .max(200, "Ticket pattern must be 200 characters or less")
+        .refine(
+          isValidRegex,
+          "Ticket pattern must be a valid regular expression"
+        )
+    )
+    .min(1, "At least one ticket pattern is required")
+    .max(10, "At most 10 ticket patterns are allowed")
+);
+
+// Configuration schema; `models` replaces the provider's default chain
 export const CommitConfigSchema = z.object({
   apiKey: ApiKeySchema.optional(),
+  provider: AIProviderSchema.optional(),
+  baseUrl: z.url("baseUrl must be a valid URL").optional(),
+  models: ModelChainSchema.optional(),
+  ignore: GlobListSchema.optional(),
+  classifierOverrides: ClassifierOverridesSchema.optional(),
+  maxFilesPerGroup: z
+    .number()
+    .int()
+    .min(1, "maxFilesPerGroup must be at least 1")
+    .max(50, "maxFilesPerGroup must be 50 or less")
+    .optional(),
+  messageStyle: z.enum(MESSAGE_STYLES).optional(),
+  messageTemplate: MessageTemplateSchema.optional(),
+  commitBody: z.boolean().optional(),
+  hunkGrouping: z.boolean().optional(),
+  reconcileChunks: z.boolean().optional(),
+  ticketPatterns: TicketPatternsSchema.optional(),
+  ticketPlacement: z.enum(TICKET_PLACEMENTS).optional(),
 });
 
+// Repo-committed config must not carry credentials, nor redirect the diff
+// (and the user's API key) to another host or another provider's models.
+export const ProjectConfigSchema = CommitConfigSchema.omit({
+  apiKey: true,
+  baseUrl: true,
+  provider: true,
+  models: true,
+}).strict();
+
 // Git diff schema
 export const GitDiffSchema = z.object({
   file: z.string().min(1, "File path is required"),
@@ -23,6 +203,25 @@ export const GitDiffSchema = z.object({
   isDeleted: z.boolean().default(false),
   isRenamed: z.boolean().default(false),
   oldPath: z.string().optional(),
+  hunk: z.number().int().min(1).optional(),
+});
+
+const CommitShaSchema = z.string().regex(/^[0-9a-f]{40,64}$/, "Invalid SHA");
+
+// Session journal schema; entries that fail it are dropped on read
+export const JournalSessionSchema = z.object({
+  id: z.number().int().min(1),
+  startedAt: z.string(),
+  branch: z.string().optional(),
+  startHead: CommitShaSchema.nullable(),
+  commits: z.array(
+    z.object({
+      sha: CommitShaSchema,
+      message: z.string(),
+      files: z.array(z.string()),
+    })
+  ),
+  undoneAt: z.string().optional(),
 });
 
 // Commit suggestion schema
@@ -34,6 +233,22 @@ export const CommitSuggestionSchema = z.object({
   confidence: z.number().min(0).max(1).default(0.8),
 });
 
+// The grouping answer the prompt asks for. Providers with structured output
+// get it as a JSON Schema; parseAggregatedResponse still reads answers
+// leniently, since models without that mode don't always comply.
+export const AIGroupSchema = z.object({
+  files: z.array(z.string()).min(1),
+  message: z.string().min(1),
+  type: z.string().optional(),
+  scope: z.string().optional(),
+  description: z.array(z.string()).optional(),
+  confidence: z.number().min(0).max(1),
+});
+
+export const AggregatedCommitResponseSchema = z.object({
+  groups: z.array(AIGroupSchema),
+});
+
 // File path validation schema
 export const FilePathSchema = z
   .string()
@@ -70,7 +285,7 @@ export const CommitMessageSchema = z
   .refine(msg => msg.trim().length > 0, "Commit message cannot be empty")
   .refine(
     message =>
-      [
+      ![
         /<script/i,
         /javascript:/i,
         /data:/i,
@@ -0,0 +1,99 @@
+import type { ChangelogEntry, ChangelogSection } from "../types/common.js";
+import { CHANGELOG_SECTIONS } from "../constants/config.js";
+import { parseJsonResponse } from "../utils/json-extract.js";
+import type { BuiltPrompt } from "./ai-prompt.js";
+
+export interface ChangelogCommit {
+  sha: string;
+  subject: string;
+  body?: string;
+}
+
+// Bodies are context for the classification, not changelog text; the first
+// few lines are enough.
+const BODY_PREVIEW_LENGTH = 300;
+
+const CHANGELOG_SCHEMA = `{"entries":[{"commit":<number>,"section":"${CHANGELOG_SECTIONS.join("|")}|Skip","breaking":<true|false>,"text":"<changelog line>"}]}`;
+
+export const buildChangelogPrompt = (
+  commits: readonly ChangelogCommit[]
+): BuiltPrompt => {
+  const entries = commits.map((commit, index) => {
+    const body = commit.body?.trim().slice(0, BODY_PREVIEW_LENGTH);
+    return body
+      ? `[${index + 1}] ${commit.subject}\n${body.replace(/^/gm, "    ")}`
+      : `[${index + 1}] ${commit.subject}`;
+  });
+
+  const prompt = [
+    "Task: Sort the git commits below into Keep a Changelog sections.",
+    `Output: ONLY a JSON object matching this schema, no prose, no markdown fence: ${CHANGELOG_SCHEMA}`,
+    "Rules:",
+    "- One entry per commit, referring to it by its [number].",
+    "- section: Added for new features, Changed for changes to existing behavior, Fixed for bug fixes, Removed for removed features. Skip for changes users never see (tests, CI, formatting, internal chores).",
+    "- breaking: true only when users must change something to upgrade (removed or incompatible API, config, CLI flags or file formats). A breaking commit is never Skip.",
+    "- text: one line for the people using this project, imperative mood, capitalized first word, no trailing period, no commit hashes. Plain text, no markdown.",
+    "Commits:",
+    "---",
+    ...entries,
+  ].join("\n");
+
+  return { prompt };
+};
+
+const isSection = (value: unknown): value is ChangelogSection =>
+  (CHANGELOG_SECTIONS as readonly unknown[]).includes(value);
+
+interface RawEntry {
+  commit?: unknown;
+  section?: unknown;
+  breaking?: unknown;
+  text?: unknown;
+}
+
+// Commits the AI leaves out are kept under Changed with their own subject:
+// a changelog that silently loses a commit is worse than a plain line.
+export const parseChangelogResponse = (
+  response: string,
+  commits: readonly ChangelogCommit[]
+): ChangelogEntry[] => {
+  const parsed = parseJsonResponse(response).value as { entries?: RawEntry[] };
+
+  if (!parsed.entries || !Array.isArray(parsed.entries)) {
+    throw new Error("Invalid entries structure in AI response");
+  }
+
+  const decided = new Map<number, ChangelogEntry | null>();
+  for (const entry of parsed.entries) {
+    const index = typeof entry.commit === "number" ? entry.commit - 1 : -1;
+    const commit = commits[index];
+    if (!commit || decided.has(index)) continue;
+
+    if (entry.section === "Skip") {
+      decided.set(index, null);
+      continue;
+    }
+    const text =
+      typeof entry.text === "string"
+        ? entry.text.replace(/\s+/g, " ").trim()
+        : "";
+    if (isSection(entry.section) && text) {
+      decided.set(index, {
+        sha: commit.sha,
+        section: entry.section,
+        text,
+        ...(entry.breaking === true && { breaking: true }),
+      });
+    }
+  }
+
+  return commits.flatMap((commit, index) => {
+    if (!decided.has(index)) {
+      return [
+        { sha: commit.sha, section: "Changed" as const, text: commit.subject },
+      ];
+    }
+    const entry = decided.get(index);
+    return entry ? [entry] : [];
+  });
+};
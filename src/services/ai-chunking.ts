@@ -0,0 +1,135 @@
+import type { CommitGroup, GitDiff } from "../types/common.js";
+
+const directoryOf = (file: string): string => {
+  const slash = file.lastIndexOf("/");
+  return slash === -1 ? "" : file.slice(0, slash);
+};
+
+// Files of one directory end up next to each other, and the hunks of one
+// file stay adjacent and in order.
+export const orderByAffinity = (diffs: readonly GitDiff[]): GitDiff[] =>
+  [...diffs].sort(
+    (a, b) =>
+      directoryOf(a.file).localeCompare(directoryOf(b.file)) ||
+      a.file.localeCompare(b.file) ||
+      (a.hunk ?? 0) - (b.hunk ?? 0)
+  );
+
+// A directory boundary in the middle half of the list, else the file
+// boundary nearest the middle, else the middle itself (hunks of one file).
+// Keeping the cut near the middle bounds the number of size checks.
+const splitPoint = (ordered: readonly GitDiff[]): number => {
+  const middle = Math.floor(ordered.length / 2);
+  const nearest = (
+    isBoundary: (index: number) => boolean,
+    reach: number
+  ): number | undefined => {
+    for (let offset = 0; offset <= reach; offset++) {
+      for (const index of [middle - offset, middle + offset]) {
+        if (index > 0 && index < ordered.length && isBoundary(index)) {
+          return index;
+        }
+      }
+    }
+    return undefined;
+  };
+
+  return (
+    nearest(
+      index =>
+        directoryOf(ordered[index].file) !==
+        directoryOf(ordered[index - 1].file),
+      Math.floor(ordered.length / 4)
+    ) ??
+    nearest(
+      index => ordered[index].file !== ordered[index - 1].file,
+      ordered.length
+    ) ??
+    middle
+  );
+};
+
+// Halves the change set along directory lines until every part passes
+// `fits`. A change set that already fits comes back untouched, in its
+// original order. A single diff too large on its own stays a chunk of one;
+// the prompt size check reports it.
+export const planPromptChunks = (
+  diffs: GitDiff[],
+  fits: (chunk: GitDiff[]) => boolean
+): GitDiff[][] => {
+  if (diffs.length <= 1 || fits(diffs)) return [diffs];
+
+  const split = (part: GitDiff[]): GitDiff[][] => {
+    if (part.length <= 1 || fits(part)) return [part];
+    const at = splitPoint(part);
+    return [...split(part.slice(0, at)), ...split(part.slice(at))];
+  };
+  const ordered = orderByAffinity(diffs);
+  const at = splitPoint(ordered);
+  return [...split(ordered.slice(0, at)), ...split(ordered.slice(at))];
+};
+
+// Share of words two messages have in common for their groups to count as
+// the same change ("Updated test fixtures" in two chunks).
+const NEAR_IDENTICAL_SIMILARITY = 0.8;
+
+const messageWords = (message: string): Set<string> =>
+  new Set(
+    message
+      .toLowerCase()
+      .split(/[^a-z0-9._/-]+/)
+      .filter(Boolean)
+  );
+
+export const messageSimilarity = (a: string, b: string): number => {
+  const left = messageWords(a);
+  const right = messageWords(b);
+  const shared = [...left].filter(word => right.has(word)).length;
+  const total = new Set([...left, ...right]).size;
+  return total === 0 ? 1 : shared / total;
+};
+
+const areNearIdentical = (a: CommitGroup, b: CommitGroup): boolean =>
+  (a.type ?? "") === (b.type ?? "") &&
+  (a.scope ?? "") === (b.scope ?? "") &&
+  messageSimilarity(a.message, b.message) >= NEAR_IDENTICAL_SIMILARITY;
+
+const joinText = (a?: string, b?: string): string | undefined =>
+  a && b ? `${a}\n${b}` : (a ?? b);
+
+const mergeGroups = (into: CommitGroup, from: CommitGroup): CommitGroup => ({
+  ...into,
+  files: [...into.files, ...from.files],
+  description: joinText(into.description, from.description),
+  body: joinText(into.body, from.body),
+  confidence: Math.min(into.confidence, from.confidence),
+});
+
+// Each chunk was grouped without seeing the others, so the same kind of
+// change can come back once per chunk. Groups from different chunks with
+// near-identical messages are merged while the result stays within
+// maxFilesPerGroup; groups from the same chunk are left as the AI split them.
+export const reconcileChunkGroups = (
+  chunkGroups: readonly CommitGroup[][],
+  maxFilesPerGroup: number
+): CommitGroup[] => {
+  const merged: Array<{ group: CommitGroup; chunks: Set<number> }> = [];
+  chunkGroups.forEach((groups, chunk) => {
+    for (const group of groups) {
+      const twin = merged.find(
+        candidate =>
+          !candidate.chunks.has(chunk) &&
+          candidate.group.files.length + group.files.length <=
+            maxFilesPerGroup &&
+          areNearIdentical(candidate.group, group)
+      );
+      if (twin) {
+        twin.group = mergeGroups(twin.group, group);
+        twin.chunks.add(chunk);
+      } else {
+        merged.push({ group, chunks: new Set([chunk]) });
+      }
+    }
+  });
+  return merged.map(entry => entry.group);
+};
@@ -1,11 +1,19 @@
-import type { CommitGroup, GitDiff } from "../types/common.js";
+import type { CommitGroup, GitDiff, MessageStyle } from "../types/common.js";
+import { DEFAULT_MESSAGE_STYLE } from "../constants/config.js";
 import {
   classifyFile,
   DETERMINISTIC_MESSAGES,
   type Classification,
+  type ClassifierOverrides,
   type Ecosystem,
   type FileCategory,
 } from "../utils/file-classifier.js";
+import { applyMessageStyle, parseConventionalHeader } from "./message-style.js";
+
+export interface PreGroupingOptions {
+  classifierOverrides?: ClassifierOverrides;
+  messageStyle?: MessageStyle;
+}
 
 export interface PreGroupingResult {
   aiDiffs: GitDiff[];
@@ -32,8 +40,34 @@ interface ClassifiedDiff {
   classification: Classification;
 }
 
-const classifyAll = (diffs: GitDiff[]): ClassifiedDiff[] =>
-  diffs.map(diff => ({ diff, classification: classifyFile(diff.file) }));
+const classifyAll = (
+  diffs: GitDiff[],
+  overrides?: ClassifierOverrides
+): ClassifiedDiff[] =>
+  diffs.map(diff => ({
+    diff,
+    classification: classifyFile(diff.file, overrides),
+  }));
+
+const buildAutoGroup = (
+  files: string[],
+  category: Exclude<FileCategory, "REGULAR" | "MANIFEST">,
+  messageStyle: MessageStyle
+): CommitGroup => {
+  const message = applyMessageStyle(
+    DETERMINISTIC_MESSAGES[category],
+    messageStyle,
+    category
+  );
+  const header =
+    messageStyle === "conventional" ? parseConventionalHeader(message) : null;
+  return {
+    files,
+    message,
+    ...(header && { type: header.type, scope: header.scope }),
+    confidence: DEFAULT_AUTO_CONFIDENCE,
+  };
+};
 
 const groupByEcosystem = (
   classified: ClassifiedDiff[],
@@ -52,9 +86,11 @@ const groupByEcosystem = (
 };
 
 export const preGroupDeterministicFiles = (
-  diffs: GitDiff[]
+  diffs: GitDiff[],
+  options: PreGroupingOptions = {}
 ): PreGroupingResult => {
-  const classified = classifyAll(diffs);
+  const classified = classifyAll(diffs, options.classifierOverrides);
+  const messageStyle = options.messageStyle ?? DEFAULT_MESSAGE_STYLE;
   const autoGroups: CommitGroup[] = [];
   const handled = new Set<string>();
 
@@ -67,11 +103,7 @@ export const preGroupDeterministicFiles = (
     const manifestDiffs = manifestsByEco.get(eco) ?? [];
     const files = [...manifestDiffs, ...lockDiffs].map(d => d.file);
     if (files.length === 0) continue;
-    autoGroups.push({
-      files,
-      message: DETERMINISTIC_MESSAGES.LOCK,
-      confidence: DEFAULT_AUTO_CONFIDENCE,
-    });
+    autoGroups.push(buildAutoGroup(files, "LOCK", messageStyle));
     files.forEach(file => handled.add(file));
   }
 
@@ -81,11 +113,7 @@ export const preGroupDeterministicFiles = (
       .map(c => c.diff.file)
       .filter(file => !handled.has(file));
     if (files.length === 0) continue;
-    autoGroups.push({
-      files,
-      message: DETERMINISTIC_MESSAGES[category],
-      confidence: DEFAULT_AUTO_CONFIDENCE,
-    });
+    autoGroups.push(buildAutoGroup(files, category, messageStyle));
     files.forEach(file => handled.add(file));
   }
 
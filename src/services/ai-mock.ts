@@ -0,0 +1,303 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { ErrorType } from "../types/error-handler.js";
+import { SecureError } from "../utils/error-handler.js";
+
+// What the mock does with one request. "ok" answers from the prompt;
+// "drop-files" answers but leaves the last file out of every group list;
+// "malformed" returns truncated JSON; "error" fails the request (HTTP 500
+// from the server); "timeout" never answers.
+export type MockStep = "ok" | "drop-files" | "malformed" | "error" | "timeout";
+
+export const MOCK_STEPS: readonly MockStep[] = [
+  "ok",
+  "drop-files",
+  "malformed",
+  "error",
+  "timeout",
+];
+
+const isMockStep = (value: string): value is MockStep =>
+  (MOCK_STEPS as readonly string[]).includes(value);
+
+const REPEATED_STEP = /^(\d+)\*(.+)$/;
+
+// "error,2*malformed,drop-files": one step per request, in order. Requests
+// past the end of the scenario are answered normally, so an empty scenario
+// is a well-behaved provider.
+export const parseMockScenario = (spec: string): MockStep[] =>
+  spec
+    .split(",")
+    .map(part => part.trim().toLowerCase())
+    .filter(Boolean)
+    .flatMap(part => {
+      const repeated = part.match(REPEATED_STEP);
+      const step = repeated ? repeated[2].trim() : part;
+      if (!isMockStep(step)) {
+        throw new SecureError(
+          `Unknown mock step "${step}". Expected one of: ${MOCK_STEPS.join(", ")}`,
+          ErrorType.VALIDATION_ERROR,
+          { operation: "parseMockScenario" },
+          true
+        );
+      }
+      return Array<MockStep>(repeated ? Number(repeated[1]) : 1).fill(step);
+    });
+
+export const createMockScript = (
+  steps: readonly MockStep[]
+): (() => MockStep) => {
+  let next = 0;
+  return () => steps[next++] ?? "ok";
+};
+
+// Cut off before the first group is complete, so there is nothing to
+// repair either.
+const MALFORMED_RESPONSE = '{"groups":[{"files":["';
+
+const FILE_ENTRY = /^\[\d+\] [AMDR] (.+) \(\+\d+\/-\d+\)$/;
+const COMMIT_ENTRY = /^\[(\d+)\] (.+)$/;
+const MAX_FILES_RULE = /1 to (\d+) files per group/;
+
+const linesAfter = (prompt: string, marker: string): string[] => {
+  const lines = prompt.split("\n");
+  const start = lines.indexOf(marker);
+  return start === -1 ? [] : lines.slice(start + 1);
+};
+
+const promptFiles = (prompt: string): string[] =>
+  linesAfter(prompt, "Files:").flatMap(line => {
+    const match = line.match(FILE_ENTRY);
+    return match ? [match[1]] : [];
+  });
+
+const directoryOf = (file: string): string => {
+  const slash = file.lastIndexOf("/");
+  return slash === -1 ? "." : file.slice(0, slash);
+};
+
+const basenameOf = (file: string): string =>
+  file.slice(file.lastIndexOf("/") + 1);
+
+// Files grouped by directory, in prompt order.
+const byDirectory = (files: readonly string[]): Map<string, string[]> => {
+  const groups = new Map<string, string[]>();
+  for (const file of files) {
+    const directory = directoryOf(file);
+    groups.set(directory, [...(groups.get(directory) ?? []), file]);
+  }
+  return groups;
+};
+
+const chunk = <T>(items: readonly T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const describeFiles = (directory: string, files: readonly string[]): string => {
+  if (files.length === 1) return basenameOf(files[0]);
+  return directory === "." ? "root files" : directory;
+};
+
+// One group per directory (split to the prompt's files-per-group limit), or
+// a single group when the prompt asks for one. Messages follow the style the
+// schema asks for, so style validation passes without corrections.
+const respondToGroupPrompt = (prompt: string, dropFiles: boolean): string => {
+  const files = promptFiles(prompt);
+  const kept = dropFiles && files.length > 0 ? files.slice(0, -1) : files;
+  const conventional = prompt.includes('"type":"<type>"');
+  const withBody = prompt.includes('"description":[');
+  const maxFiles = Number(prompt.match(MAX_FILES_RULE)?.[1] ?? kept.length);
+
+  const batches = prompt.includes("exactly ONE group")
+    ? [{ directory: ".", files: kept }]
+    : [...byDirectory(kept)].flatMap(([directory, dirFiles]) =>
+        chunk(dirFiles, Math.max(1, maxFiles)).map(batch => ({
+          directory,
+          files: batch,
+        }))
+      );
+
+  const groups = batches
+    .filter(batch => batch.files.length > 0)
+    .map(({ directory, files: groupFiles }) => {
+      const subject = describeFiles(directory, groupFiles);
+      const scope =
+        directory === "." ? undefined : basenameOf(directory).toLowerCase();
+      return {
+        files: groupFiles,
+        ...(conventional && { type: "chore", ...(scope && { scope }) }),
+        message: conventional
+          ? `chore${scope ? `(${scope})` : ""}: update ${subject}`
+          : `Updated ${subject}`,
+        ...(withBody && {
+          description: groupFiles
+            .slice(0, 5)
+            .map(file => `Updated ${basenameOf(file)}`),
+        }),
+        confidence: 0.8,
+      };
+    });
+  return JSON.stringify({ groups });
+};
+
+const respondToPullRequestPrompt = (prompt: string): string => {
+  const files = promptFiles(prompt);
+  return JSON.stringify({
+    title: `Update ${files.length} file${files.length === 1 ? "" : "s"}`,
+    summary: "Mock description generated from the file list.",
+    changes: [...byDirectory(files)].map(([directory, dirFiles]) => ({
+      area: directory === "." ? "root" : directory,
+      items: dirFiles.map(file => `Updated ${basenameOf(file)}`),
+    })),
+    testing: ["Run the test suite"],
+  });
+};
+
+const respondToChangelogPrompt = (prompt: string): string => {
+  const entries = linesAfter(prompt, "Commits:").flatMap(line => {
+    const match = line.match(COMMIT_ENTRY);
+    return match
+      ? [{ commit: Number(match[1]), section: "Changed", text: match[2] }]
+      : [];
+  });
+  return JSON.stringify({ entries });
+};
+
+// Rule-based answer for the prompts AIService builds, recognized by their
+// "Task:" line.
+export const respondToPrompt = (
+  prompt: string,
+  step: Exclude<MockStep, "error" | "timeout"> = "ok"
+): string => {
+  if (step === "malformed") return MALFORMED_RESPONSE;
+  const task = prompt.split("\n", 1)[0];
+  if (task.startsWith("Task: Group the file changes")) {
+    return respondToGroupPrompt(prompt, step === "drop-files");
+  }
+  if (task.startsWith("Task: Write a pull request description")) {
+    return respondToPullRequestPrompt(prompt);
+  }
+  if (task.startsWith("Task: Sort the git commits")) {
+    return respondToChangelogPrompt(prompt);
+  }
+  throw new SecureError(
+    `Mock provider does not recognize the prompt: ${task.slice(0, 80)}`,
+    ErrorType.AI_SERVICE_ERROR,
+    { operation: "respondToPrompt" },
+    true
+  );
+};
+
+// Streamed answers arrive in pieces this long, so a single group spans
+// several of them, as it does with a real model.
+const STREAM_PIECE_LENGTH = 24;
+
+export const streamPieces = (text: string): string[] =>
+  Array.from({ length: Math.ceil(text.length / STREAM_PIECE_LENGTH) }, (_, i) =>
+    text.slice(i * STREAM_PIECE_LENGTH, (i + 1) * STREAM_PIECE_LENGTH)
+  );
+
+export interface MockServerOptions {
+  port?: number; // 0 picks a free port
+  host?: string;
+  scenario?: readonly MockStep[];
+  onRequest?: (step: MockStep) => void;
+}
+
+export interface MockServer {
+  url: string; // OpenAI-compatible base URL, ending in /v1
+  close(): Promise<void>;
+}
+
+interface ChatCompletionRequest {
+  messages?: Array<{ content?: unknown }>;
+  stream?: boolean;
+}
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  return raw;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const sendStream = (res: ServerResponse, content: string): void => {
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  for (const piece of streamPieces(content)) {
+    const chunk = { choices: [{ delta: { content: piece } }] };
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  }
+  res.end("data: [DONE]\n\n");
+};
+
+// Answers POST .../chat/completions like an OpenAI-compatible server, with
+// the same rules and scenario steps as the in-process mock provider.
+// Requests with `stream: true` get server-sent events.
+export const startMockServer = async (
+  options: MockServerOptions = {}
+): Promise<MockServer> => {
+  const nextStep = createMockScript(options.scenario ?? []);
+
+  const handle = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> => {
+    if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+      sendJson(res, 404, { error: { message: "Not found" } });
+      return;
+    }
+
+    let request: ChatCompletionRequest;
+    try {
+      request = JSON.parse(await readBody(req));
+    } catch {
+      sendJson(res, 400, { error: { message: "Request body is not JSON" } });
+      return;
+    }
+
+    const step = nextStep();
+    options.onRequest?.(step);
+    if (step === "timeout") return; // held open until the client gives up
+    if (step === "error") {
+      sendJson(res, 500, { error: { message: "Simulated mock failure" } });
+      return;
+    }
+
+    const prompt = (request.messages ?? [])
+      .map(message => String(message.content ?? ""))
+      .join("\n");
+    try {
+      const content = respondToPrompt(prompt, step);
+      if (request.stream) sendStream(res, content);
+      else sendJson(res, 200, { choices: [{ message: { content } }] });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      sendJson(res, 400, { error: { message } });
+    }
+  };
+
+  const server = createServer((req, res) => {
+    void handle(req, res);
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host ?? "127.0.0.1", resolve);
+  });
+
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : 0;
+  return {
+    url: `http://${options.host ?? "127.0.0.1"}:${port}/v1`,
+    close: async (): Promise<void> => {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+};
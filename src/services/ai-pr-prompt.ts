@@ -0,0 +1,84 @@
+import type {
+  PullRequestArea,
+  PullRequestDescription,
+} from "../types/common.js";
+import type { SanitizedDiff } from "../utils/data-sanitization.js";
+import { parseJsonResponse } from "../utils/json-extract.js";
+import {
+  renderPromptFiles,
+  type BuiltPrompt,
+  type PromptTokenBudget,
+} from "./ai-prompt.js";
+
+export interface PullRequestPromptOptions {
+  budget?: PromptTokenBudget;
+  base: string; // branch the pull request targets
+  branch?: string;
+  commits?: string[]; // subjects of the branch's commits, oldest first
+}
+
+const PULL_REQUEST_SCHEMA =
+  '{"title":"<summary of the whole branch>","summary":"<what the change does and why>","changes":[{"area":"<module, directory or concern>","items":["<concrete change>"]}],"testing":["<how to verify>"]}';
+
+export const buildPullRequestPrompt = (
+  sanitizedDiffs: SanitizedDiff[],
+  options: PullRequestPromptOptions
+): BuiltPrompt => {
+  const source = options.branch ? `branch ${options.branch}` : "this branch";
+  const prompt = [
+    `Task: Write a pull request description for merging ${source} into ${options.base}.`,
+    `Output: ONLY a JSON object matching this schema, no prose, no markdown fence: ${PULL_REQUEST_SCHEMA}`,
+    "Rules:",
+    "- title: imperative mood, max 72 chars, no trailing period.",
+    "- summary: 1-3 sentences for a reviewer: what the branch changes and why.",
+    "- changes: 1 to 6 areas named after the module, directory or concern they touch. 1-6 items per area, each one concrete change from the diff.",
+    "- testing: 1-4 notes on how to verify the change. Name tests the diff adds or changes; never invent commands or results.",
+    "- Plain text in every field: no markdown, no angle brackets.",
+    "- Diff lines starting with + are the new state of the file. For large diffs you will only see + lines and hunk headers (deletions stripped to save tokens). Base the description on what those additions accomplish.",
+    ...(options.commits?.length
+      ? [
+          "- The branch's commit subjects, oldest first (context only, they may be vague):",
+          ...options.commits.map(subject => `  - ${subject}`),
+        ]
+      : []),
+    "Files:",
+    "---",
+    ...renderPromptFiles(sanitizedDiffs, options.budget),
+  ].join("\n");
+
+  return { prompt };
+};
+
+// Models sometimes put line breaks or markdown bullets inside fields; the
+// rendered markdown owns the structure, so fields are flattened to one line.
+const toLine = (value: unknown): string =>
+  typeof value === "string"
+    ? value
+        .replace(/\s+/g, " ")
+        .replace(/^[-*•]\s+/, "")
+        .trim()
+    : "";
+
+const toLines = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(toLine).filter(Boolean) : [];
+
+export const parsePullRequestResponse = (
+  response: string
+): PullRequestDescription => {
+  const parsed = parseJsonResponse(response).value as Record<string, unknown>;
+
+  const title = toLine(parsed.title);
+  const summary = toLine(parsed.summary);
+  if (!title || !summary) {
+    throw new Error("AI response is missing the pull request title or summary");
+  }
+
+  const changes: PullRequestArea[] = [];
+  for (const entry of Array.isArray(parsed.changes) ? parsed.changes : []) {
+    const area = toLine(entry?.area);
+    const items = toLines(entry?.items);
+    if (area && items.length > 0) changes.push({ area, items });
+  }
+
+  return { title, summary, changes, testing: toLines(parsed.testing) };
+};
@@ -76,3 +76,33 @@ export const logPrivacyGateOutcome = (result: PrivacyGateResult): void => {
     }
   }
 };
+
+export interface PrivacyOutcome {
+  skippedFiles: SkippedFile[];
+  sanitizedFiles: string[];
+  warnings: string[];
+}
+
+// One run can pass the gate several times (retries, fallback models, the
+// dropped-file retry); each file is reported once.
+export const summarizePrivacyGates = (
+  results: readonly PrivacyGateResult[]
+): PrivacyOutcome => {
+  const skipped = new Map<string, string>();
+  const sanitized = new Set<string>();
+  const warnings = new Set<string>();
+  for (const result of results) {
+    for (const { file, reason } of result.skippedFiles) {
+      if (!skipped.has(file)) skipped.set(file, reason);
+    }
+    result.sanitizedDiffs.forEach((diff, index) => {
+      if (diff.sanitized) sanitized.add(result.approvedDiffs[index].file);
+    });
+    result.report.warnings.forEach(warning => warnings.add(warning));
+  }
+  return {
+    skippedFiles: [...skipped].map(([file, reason]) => ({ file, reason })),
+    sanitizedFiles: [...sanitized],
+    warnings: [...warnings],
+  };
+};
@@ -1,19 +1,100 @@
 import type {
   AggregatedCommitResponse,
+  ClassifierOverrideCategory,
   CommitGroup,
   GitDiff,
+  MessageStyle,
 } from "../types/common.js";
+import { z } from "zod";
 import type { SanitizedDiff } from "../utils/data-sanitization.js";
+import { AggregatedCommitResponseSchema } from "../schemas/validation.js";
 import { DEFAULT_LIMITS } from "../constants/security.js";
-import { UI_CONSTANTS, COMMIT_MESSAGE_PATTERNS } from "../constants/ui.js";
+import {
+  DEFAULT_MAX_FILES_PER_GROUP,
+  DEFAULT_MESSAGE_STYLE,
+} from "../constants/config.js";
 import { lightColors } from "../utils/colors.js";
-import { compressDiffForPrompt } from "../utils/diff-minimizer.js";
+import {
+  compressDiffForPrompt,
+  normalizeDiffWhitespace,
+} from "../utils/diff-minimizer.js";
+import { formatCommitBody } from "../utils/commit-message.js";
+import { diffUnitId } from "../utils/diff-hunks.js";
+import { parseJsonResponse } from "../utils/json-extract.js";
+import {
+  allocateTokenBudgets,
+  charsForTokens,
+  estimateTokens,
+  fileSignificance,
+  type TokenEstimator,
+} from "../utils/token-budget.js";
+import {
+  applyMessageStyle,
+  getStylePromptRules,
+  parseConventionalHeader,
+  validateMessageStyle,
+  type StyleHints,
+} from "./message-style.js";
+import type { ResponseSchema } from "./ai-provider.js";
 
 export interface BuiltPrompt {
   prompt: string;
 }
 
-const TOTAL_CONTENT_BUDGET_CAP = 50_000;
+// How much diff content a prompt may carry, in the model's tokens.
+export interface PromptTokenBudget {
+  estimator?: TokenEstimator;
+  maxPromptTokens?: number; // defaults to DEFAULT_LIMITS.maxPromptTokens
+  classifierOverrides?: Readonly<Record<string, ClassifierOverrideCategory>>;
+}
+
+export interface PromptOptions {
+  budget?: PromptTokenBudget;
+  maxFilesPerGroup?: number;
+  messageStyle?: MessageStyle;
+  includeBody?: boolean;
+  singleGroup?: boolean; // caller already decided the grouping
+  history?: string[]; // subjects of the commits being combined, oldest first
+}
+
+export interface ParseOptions {
+  messageStyle?: MessageStyle;
+  includeBody?: boolean;
+}
+
+const HISTORY_PROMPT_RULE =
+  '- These commits are being squashed into one. Their subjects show the intent but may be vague ("wip", "fix"); summarize the whole diff, do not list them:';
+
+const HUNK_PROMPT_RULE =
+  "- Entries named path#N are single hunks of a larger file. Hunks of one file may go to different groups when they are unrelated; list each by its path#N name.";
+
+const BODY_PROMPT_RULE =
+  "- description: array of 1-5 short strings, each one concrete change in the group (what changed and why, from the diff). Plain text, no markdown, no angle brackets.";
+
+// Every style's schema ends with the confidence field; the body slots in
+// just before it.
+const withDescriptionField = (schema: string): string =>
+  schema.replace(
+    '"confidence":',
+    '"description":["<concrete change>"],"confidence":'
+  );
+
+// Sent with the grouping prompt to providers that can constrain their
+// output to it, so the answer is bare JSON of the right shape.
+const groupingJsonSchema: Record<string, unknown> = z.toJSONSchema(
+  AggregatedCommitResponseSchema
+);
+delete groupingJsonSchema.$schema; // providers take the bare schema
+
+export const GROUPING_RESPONSE_SCHEMA: ResponseSchema = {
+  name: "commit_groups",
+  schema: groupingJsonSchema,
+};
+
+// Diff content stays well below the model's limit: past this size the
+// answers get worse, not better.
+const PROMPT_CONTENT_TOKEN_CAP = 12_500;
+const FILE_CONTENT_TOKENS = { min: 50, max: 750 };
 
 const formatStatus = (diff: SanitizedDiff): string => {
   if (diff.isNew) return "A";
@@ -29,39 +110,72 @@ const renderFileEntry = (
 ): string => {
   const compressed = compressDiffForPrompt(diff, perFileBudget);
   const status = formatStatus(diff);
-  const header = `[${index + 1}] ${status} ${diff.file} (+${diff.additions}/-${diff.deletions})`;
+  const header = `[${index + 1}] ${status} ${diffUnitId(diff)} (+${diff.additions}/-${diff.deletions})`;
   return compressed.content ? `${header}\n${compressed.content}` : header;
 };
 
-export const buildAggregatedPrompt = (
-  sanitizedDiffs: SanitizedDiff[]
-): BuiltPrompt => {
-  const totalContentBudget = Math.min(
-    DEFAULT_LIMITS.maxApiRequestSize / 2,
-    TOTAL_CONTENT_BUDGET_CAP
+// The numbered, compressed "Files:" entries shared by every prompt that
+// shows diffs. The content budget is split by file significance, and no
+// file gets more than its whole diff needs.
+export const renderPromptFiles = (
+  sanitizedDiffs: SanitizedDiff[],
+  budget: PromptTokenBudget = {}
+): string[] => {
+  const { estimator, classifierOverrides } = budget;
+  const contentTokens = Math.min(
+    (budget.maxPromptTokens ?? DEFAULT_LIMITS.maxPromptTokens) / 2,
+    PROMPT_CONTENT_TOKEN_CAP
+  );
+  const fileBudgets = allocateTokenBudgets(
+    sanitizedDiffs.map(diff =>
+      estimateTokens(normalizeDiffWhitespace(diff.changes ?? ""), estimator)
+    ),
+    sanitizedDiffs.map(diff => fileSignificance(diff, classifierOverrides)),
+    contentTokens,
+    FILE_CONTENT_TOKENS
   );
-  const perFileBudget = Math.max(
-    200,
-    Math.min(
-      UI_CONSTANTS.DIFF_CONTENT_TRUNCATE_LIMIT,
-      Math.floor(totalContentBudget / Math.max(1, sanitizedDiffs.length))
+
+  return sanitizedDiffs.map((diff, index) =>
+    renderFileEntry(
+      diff,
+      index,
+      Math.max(1, charsForTokens(fileBudgets[index], estimator))
     )
   );
+};
 
-  const fileEntries = sanitizedDiffs.map((diff, index) =>
-    renderFileEntry(diff, index, perFileBudget)
+export const buildAggregatedPrompt = (
+  sanitizedDiffs: SanitizedDiff[],
+  options: PromptOptions = {}
+): BuiltPrompt => {
+  const maxFilesPerGroup =
+    options.maxFilesPerGroup ?? DEFAULT_MAX_FILES_PER_GROUP;
+  const style = getStylePromptRules(
+    options.messageStyle ?? DEFAULT_MESSAGE_STYLE
   );
+  const fileEntries = renderPromptFiles(sanitizedDiffs, options.budget);
 
   const prompt = [
     "Task: Group the file changes below into logical git commits.",
-    'Output: ONLY a JSON object matching this schema, no prose, no markdown fence: {"groups":[{"files":["<file>"],"message":"<subject>","confidence":<0..1>}]}',
+    `Output: ONLY a JSON object matching this schema, no prose, no markdown fence: ${options.includeBody ? withDescriptionField(style.schema) : style.schema}`,
     "Rules:",
     "- EVERY file in the 'Files:' list MUST appear in exactly one group. Do not omit new files, deleted files, or files with large diffs.",
-    "- 1 to 7 files per group. Split unrelated changes into separate groups.",
-    "- message: 3-20 words describing what the diff actually does based on the + lines shown. Capitalized past-tense verb first (e.g. Added, Fixed, Updated, Refactored). No trailing period. No speculation — describe the concrete change.",
-    "- FORBIDDEN prefixes: feat:, fix:, chore:, docs:, refactor:, style:, test:, perf:, build:, ci:, revert:. No type(scope): syntax.",
+    options.singleGroup
+      ? "- Put ALL files in exactly ONE group with one message covering the whole change."
+      : `- 1 to ${maxFilesPerGroup} files per group. Split unrelated changes into separate groups.`,
+    ...(sanitizedDiffs.some(diff => diff.hunk !== undefined)
+      ? [HUNK_PROMPT_RULE]
+      : []),
+    ...style.rules,
+    ...(options.includeBody ? [BODY_PROMPT_RULE] : []),
     "- confidence: 0.5 (unsure) to 0.95 (clear intent).",
     "- Diff lines starting with + are the new state of the file. For large diffs you will only see + lines and hunk headers (deletions stripped to save tokens). Base your message on what those additions accomplish.",
+    ...(options.history?.length
+      ? [
+          HISTORY_PROMPT_RULE,
+          ...options.history.map(subject => `  - ${subject}`),
+        ]
+      : []),
     "Files:",
     "---",
     ...fileEntries,
@@ -101,8 +215,8 @@ const createPathResolver = (
   };
 
   for (let i = 0; i < sanitizedDiffs.length; i++) {
-    const original = diffs[i].file;
-    record(sanitizedDiffs[i].file, original);
+    const original = diffUnitId(diffs[i]);
+    record(diffUnitId(sanitizedDiffs[i]), original);
     record(original, original);
   }
 
@@ -128,59 +242,15 @@ export const generateFactualFallback = (diff: GitDiff): string => {
   return `Updated ${fileName}`;
 };
 
-interface FormatValidation {
-  isValid: boolean;
-  correctedMessage?: string;
-}
-
-const validateCommitMessageFormat = (message: string): FormatValidation => {
-  if (!message || typeof message !== "string") return { isValid: false };
-
-  const trimmed = message.trim();
-  const hasBannedPrefix = COMMIT_MESSAGE_PATTERNS.AVOID_PREFIXES.some(prefix =>
-    trimmed.toLowerCase().startsWith(prefix.toLowerCase())
-  );
-
-  if (hasBannedPrefix) {
-    console.log(
-      lightColors.yellow(
-        `⚠️  Detected conventional commit prefix in: "${trimmed}"`
-      )
-    );
-    return { isValid: false };
-  }
-
-  const hasConventionalPattern =
-    COMMIT_MESSAGE_PATTERNS.CONVENTIONAL_COMMIT_PATTERNS.some(pattern =>
-      pattern.test(trimmed)
-    );
-
-  if (hasConventionalPattern) {
-    console.log(
-      lightColors.yellow(
-        `⚠️  Detected conventional commit format in: "${trimmed}"`
-      )
-    );
-    const corrected = trimmed.replace(/^[a-z]+(\([^)]*\))?:\s*/i, "");
-    if (corrected && corrected.length > 10) {
-      const correctedMessage =
-        corrected.charAt(0).toUpperCase() + corrected.slice(1);
-      console.log(lightColors.blue(`  ✓ Corrected to: "${correctedMessage}"`));
-      return { isValid: true, correctedMessage };
-    }
-    return { isValid: false };
-  }
-
-  return { isValid: true };
-};
-
 const resolveFinalMessage = (
   rawMessage: string,
   firstValidFile: string,
-  diffs: GitDiff[]
+  diffs: GitDiff[],
+  messageStyle: MessageStyle,
+  hints: StyleHints
 ): string => {
   const trimmed = rawMessage.trim();
-  const validation = validateCommitMessageFormat(trimmed);
+  const validation = validateMessageStyle(trimmed, messageStyle, hints);
 
   if (validation.correctedMessage) return validation.correctedMessage;
 
@@ -188,8 +258,11 @@ const resolveFinalMessage = (
     console.log(
       lightColors.red(`❌ Rejecting invalid commit message format: "${trimmed}"`)
     );
-    const firstDiff = diffs.find(d => d.file === firstValidFile);
-    const fallback = firstDiff ? generateFactualFallback(firstDiff) : "Updated files";
+    const firstDiff = diffs.find(d => diffUnitId(d) === firstValidFile);
+    const fallback = applyMessageStyle(
+      firstDiff ? generateFactualFallback(firstDiff) : "Updated files",
+      messageStyle
+    );
     console.log(lightColors.blue(`  ✓ Using fallback message: "${fallback}"`));
     return fallback;
   }
@@ -201,6 +274,8 @@ interface RawGroup {
   files?: unknown;
   message?: unknown;
   description?: unknown;
+  type?: unknown;
+  scope?: unknown;
   confidence?: unknown;
 }
 
@@ -211,21 +286,12 @@ export interface ParseResult extends AggregatedCommitResponse {
 export const parseAggregatedResponse = (
   response: string,
   diffs: GitDiff[],
-  sanitizedDiffs: SanitizedDiff[]
+  sanitizedDiffs: SanitizedDiff[],
+  options: ParseOptions = {}
 ): ParseResult => {
-  const jsonMatch = response.match(COMMIT_MESSAGE_PATTERNS.JSON_PATTERN);
-  if (!jsonMatch) {
-    throw new Error("No valid JSON found in AI response");
-  }
-
-  let parsed: { groups?: RawGroup[] };
-  try {
-    parsed = JSON.parse(jsonMatch[0]);
-  } catch (error) {
-    throw new Error(`Failed to parse AI JSON response: ${error}`, {
-      cause: error,
-    });
-  }
+  const messageStyle = options.messageStyle ?? DEFAULT_MESSAGE_STYLE;
+  const { value, repaired } = parseJsonResponse(response);
+  const parsed = value as { groups?: RawGroup[] };
 
   if (!parsed.groups || !Array.isArray(parsed.groups)) {
     throw new Error("Invalid groups structure in AI response");
@@ -257,11 +323,27 @@ export const parseAggregatedResponse = (
 
     if (validFiles.length === 0) continue;
 
-    const finalMessage = resolveFinalMessage(group.message, validFiles[0], diffs);
+    const finalMessage = resolveFinalMessage(
+      group.message,
+      validFiles[0],
+      diffs,
+      messageStyle,
+      {
+        type: typeof group.type === "string" ? group.type : undefined,
+        scope: typeof group.scope === "string" ? group.scope : undefined,
+      }
+    );
+    const header =
+      messageStyle === "conventional"
+        ? parseConventionalHeader(finalMessage)
+        : null;
     const description =
       typeof group.description === "string"
         ? group.description.trim()
         : undefined;
+    const body = options.includeBody
+      ? formatCommitBody(group.description)
+      : undefined;
     const confidence =
       typeof group.confidence === "number" ? group.confidence : 0.7;
 
@@ -269,13 +351,27 @@ export const parseAggregatedResponse = (
       files: validFiles,
       message: finalMessage,
       description,
+      ...(header && { type: header.type, scope: header.scope }),
+      ...(body && { body }),
       confidence,
     });
   }
 
+  // A cut-off answer counts when at least one usable group made it through
+  // whole; the unfinished group was dropped with the rest of the text, so
+  // its files go to the focused retry like any dropped file.
+  if (repaired) {
+    if (groups.length === 0) {
+      throw new Error("AI JSON response was cut off before any usable group");
+    }
+    console.warn(
+      `AI response was cut off; keeping its ${groups.length} complete group(s)`
+    );
+  }
+
   // Surface files AI omitted so the orchestrator can retry with a focused
   // prompt instead of emitting templated "Created new X file" messages.
-  const unusedDiffs = diffs.filter(diff => !usedFiles.has(diff.file));
+  const unusedDiffs = diffs.filter(diff => !usedFiles.has(diffUnitId(diff)));
 
   return { groups, unusedDiffs };
 };
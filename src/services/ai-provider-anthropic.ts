@@ -0,0 +1,100 @@
+import type { AIProvider, GenerateTextRequest } from "./ai-provider.js";
+import {
+  joinUrl,
+  postJson,
+  postStream,
+  unexpectedResponse,
+} from "./ai-provider-http.js";
+import {
+  AI_PROVIDER_BASE_URLS,
+  ANTHROPIC_API_VERSION,
+  ANTHROPIC_MAX_OUTPUT_TOKENS,
+} from "../constants/ai.js";
+import { ErrorType } from "../types/error-handler.js";
+import { SecureError } from "../utils/error-handler.js";
+
+interface MessagesResponse {
+  content?: Array<{ type?: string; text?: string }>;
+}
+
+// Only the events that carry text or an error; message_start, ping and the
+// block boundaries are ignored.
+interface MessagesStreamEvent {
+  type?: string;
+  delta?: { type?: string; text?: string };
+  error?: { message?: string };
+}
+
+// The Messages API has no JSON Schema mode, so `responseSchema` is ignored
+// and answers go through the same extraction as free text.
+export class AnthropicProvider implements AIProvider {
+  readonly name = "anthropic" as const;
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  constructor(apiKey: string, baseUrl?: string) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl ?? AI_PROVIDER_BASE_URLS.anthropic;
+  }
+
+  generateText = async (request: GenerateTextRequest): Promise<string> => {
+    const url = joinUrl(this.baseUrl, "messages");
+    const payload = {
+      model: request.model,
+      max_tokens: ANTHROPIC_MAX_OUTPUT_TOKENS,
+      messages: [{ role: "user", content: request.prompt }],
+    };
+    const headers = {
+      "x-api-key": this.apiKey,
+      "anthropic-version": ANTHROPIC_API_VERSION,
+    };
+
+    const { onText } = request;
+    if (!onText) {
+      return this.readText(await postJson(this.name, url, payload, headers));
+    }
+
+    let text = "";
+    const whole = await postStream(
+      this.name,
+      url,
+      { ...payload, stream: true },
+      headers,
+      event => {
+        const { type, delta, error } = event as MessagesStreamEvent;
+        if (type === "error") {
+          throw new SecureError(
+            `anthropic stream failed: ${error?.message ?? "unknown error"}`,
+            ErrorType.AI_SERVICE_ERROR,
+            { operation: "generateText" },
+            true
+          );
+        }
+        if (
+          type === "content_block_delta" &&
+          delta?.type === "text_delta" &&
+          delta.text
+        ) {
+          text += delta.text;
+          onText(delta.text);
+        }
+      }
+    );
+    if (whole !== undefined) {
+      const content = this.readText(whole);
+      onText(content);
+      return content;
+    }
+    if (!text) throw unexpectedResponse(this.name);
+    return text;
+  };
+
+  private readonly readText = (body: unknown): string => {
+    const text = ((body as MessagesResponse).content ?? [])
+      .filter(block => block.type === "text" && typeof block.text === "string")
+      .map(block => block.text)
+      .join("");
+    if (!text) throw unexpectedResponse(this.name);
+    return text;
+  };
+}
@@ -0,0 +1,42 @@
+import { GoogleGenAI } from "@google/genai";
+import type { AIProvider, GenerateTextRequest } from "./ai-provider.js";
+
+export class GeminiProvider implements AIProvider {
+  readonly name = "gemini" as const;
+  private readonly client: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenAI({ apiKey });
+  }
+
+  generateText = async (request: GenerateTextRequest): Promise<string> => {
+    const { responseSchema } = request;
+    const params = {
+      model: request.model,
+      contents: request.prompt,
+      ...(responseSchema && {
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: responseSchema.schema,
+        },
+      }),
+    };
+    const { onText } = request;
+    if (!onText) {
+      const result = await this.client.models.generateContent(params);
+      return result.text ?? "";
+    }
+
+    let text = "";
+    for await (const chunk of await this.client.models.generateContentStream(
+      params
+    )) {
+      const delta = chunk.text ?? "";
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+    }
+    return text;
+  };
+}
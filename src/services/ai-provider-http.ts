@@ -0,0 +1,164 @@
+import type { AIProviderName } from "../types/common.js";
+import { ErrorType } from "../types/error-handler.js";
+import { SecureError } from "../utils/error-handler.js";
+
+const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, "");
+
+export const joinUrl = (baseUrl: string, path: string): string =>
+  `${trimTrailingSlash(baseUrl)}/${path.replace(/^\/+/, "")}`;
+
+// Auth failures won't improve on another model, so they surface as
+// CONFIG_ERROR and short-circuit the fallback chain. Everything else stays
+// recoverable so retries and fallback behave as they do for Gemini.
+const errorTypeForStatus = (status: number): ErrorType =>
+  status === 401 || status === 403
+    ? ErrorType.CONFIG_ERROR
+    : ErrorType.AI_SERVICE_ERROR;
+
+const send = async (
+  provider: AIProviderName,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>
+): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new SecureError(
+      `${provider} request failed: ${reason}`,
+      ErrorType.NETWORK_ERROR,
+      { operation: "generateText" },
+      true
+    );
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => "")).slice(0, 200);
+    throw new SecureError(
+      `${provider} API returned ${response.status}${detail ? `: ${detail}` : ""}`,
+      errorTypeForStatus(response.status),
+      {
+        operation: "generateText",
+        additionalInfo: { status: response.status },
+      },
+      true
+    );
+  }
+  return response;
+};
+
+// 400/422: the server understood the request and refused something in it,
+// such as a `response_format` it does not support. Rate limits, auth and
+// unknown models are not rejections of the request's content.
+export const isRejectedRequest = (error: unknown): boolean => {
+  const status =
+    error instanceof SecureError
+      ? error.context.additionalInfo?.status
+      : undefined;
+  return status === 400 || status === 422;
+};
+
+const readJson = async (
+  provider: AIProviderName,
+  response: Response
+): Promise<unknown> => {
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new SecureError(
+      `${provider} API returned a non-JSON body: ${error}`,
+      ErrorType.AI_SERVICE_ERROR,
+      { operation: "generateText" },
+      true
+    );
+  }
+};
+
+export const postJson = async (
+  provider: AIProviderName,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<unknown> =>
+  readJson(provider, await send(provider, url, body, headers));
+
+const malformedStream = (provider: AIProviderName): SecureError =>
+  new SecureError(
+    `${provider} API sent a malformed stream event`,
+    ErrorType.AI_SERVICE_ERROR,
+    { operation: "generateText" },
+    true
+  );
+
+// Posts a streaming request and hands every event to `onEvent` as parsed
+// JSON: server-sent `data:` lines (OpenAI, Anthropic) and bare JSON lines
+// (Ollama) alike. A server that ignores the stream flag and answers with a
+// single JSON body gets that body returned instead, for the caller to read
+// as a regular response.
+export const postStream = async (
+  provider: AIProviderName,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  onEvent: (event: unknown) => void
+): Promise<unknown> => {
+  const response = await send(provider, url, body, headers);
+  const contentType = response.headers.get("content-type") ?? "";
+  if (contentType.includes("application/json") || !response.body) {
+    return readJson(provider, response);
+  }
+
+  const handleLine = (line: string): void => {
+    const trimmed = line.trim();
+    if (!trimmed || /^(event|id|retry):|^:/.test(trimmed)) return;
+    const data = trimmed.replace(/^data:\s*/, "");
+    if (data === "[DONE]") return;
+    let event: unknown;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      throw malformedStream(provider);
+    }
+    onEvent(event);
+  };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    }
+  } catch (error) {
+    void reader.cancel().catch(() => undefined);
+    if (error instanceof SecureError) throw error;
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new SecureError(
+      `${provider} stream was interrupted: ${reason}`,
+      ErrorType.NETWORK_ERROR,
+      { operation: "generateText" },
+      true
+    );
+  }
+  handleLine(pending + decoder.decode());
+  return undefined;
+};
+
+export const unexpectedResponse = (provider: AIProviderName): SecureError =>
+  new SecureError(
+    `${provider} API response did not contain any text`,
+    ErrorType.AI_SERVICE_ERROR,
+    { operation: "generateText" },
+    true
+  );
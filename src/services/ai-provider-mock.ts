@@ -0,0 +1,42 @@
+import type { AIProvider, GenerateTextRequest } from "./ai-provider.js";
+import {
+  createMockScript,
+  parseMockScenario,
+  respondToPrompt,
+  streamPieces,
+  type MockStep,
+} from "./ai-mock.js";
+import { ErrorType } from "../types/error-handler.js";
+import { SecureError } from "../utils/error-handler.js";
+
+// In-process stand-in for offline runs and tests: no network, no key.
+// "timeout" never settles, so AIService's own timeout fires as it would for
+// a hung provider.
+export class MockProvider implements AIProvider {
+  readonly name = "mock" as const;
+  private readonly nextStep: () => MockStep;
+
+  constructor(scenario = "") {
+    this.nextStep = createMockScript(parseMockScenario(scenario));
+  }
+
+  generateText = async (request: GenerateTextRequest): Promise<string> => {
+    const step = this.nextStep();
+    switch (step) {
+      case "timeout":
+        return new Promise<string>(() => undefined);
+      case "error":
+        throw new SecureError(
+          `mock request for ${request.model} failed (simulated)`,
+          ErrorType.AI_SERVICE_ERROR,
+          { operation: "generateText" },
+          true
+        );
+      default: {
+        const text = respondToPrompt(request.prompt, step);
+        if (request.onText) streamPieces(text).forEach(request.onText);
+        return text;
+      }
+    }
+  };
+}
@@ -0,0 +1,76 @@
+import type { AIProvider, GenerateTextRequest } from "./ai-provider.js";
+import {
+  joinUrl,
+  postJson,
+  postStream,
+  unexpectedResponse,
+} from "./ai-provider-http.js";
+import { AI_PROVIDER_BASE_URLS } from "../constants/ai.js";
+import { ErrorType } from "../types/error-handler.js";
+import { SecureError } from "../utils/error-handler.js";
+
+interface GenerateResponse {
+  response?: string;
+  error?: string; // sent mid-stream, e.g. when the model runs out of memory
+}
+
+export class OllamaProvider implements AIProvider {
+  readonly name = "ollama" as const;
+  private readonly baseUrl: string;
+
+  constructor(baseUrl?: string) {
+    this.baseUrl = baseUrl ?? AI_PROVIDER_BASE_URLS.ollama;
+  }
+
+  generateText = async (request: GenerateTextRequest): Promise<string> => {
+    const url = joinUrl(this.baseUrl, "api/generate");
+    const payload = {
+      model: request.model,
+      prompt: request.prompt,
+      ...(request.responseSchema && { format: request.responseSchema.schema }),
+    };
+
+    const { onText } = request;
+    if (!onText) {
+      return this.readResponse(
+        await postJson(this.name, url, { ...payload, stream: false })
+      );
+    }
+
+    let text = "";
+    const whole = await postStream(
+      this.name,
+      url,
+      { ...payload, stream: true },
+      {},
+      event => {
+        const { response, error } = event as GenerateResponse;
+        if (error) {
+          throw new SecureError(
+            `ollama stream failed: ${error}`,
+            ErrorType.AI_SERVICE_ERROR,
+            { operation: "generateText" },
+            true
+          );
+        }
+        if (response) {
+          text += response;
+          onText(response);
+        }
+      }
+    );
+    if (whole !== undefined) {
+      const response = this.readResponse(whole);
+      onText(response);
+      return response;
+    }
+    if (!text) throw unexpectedResponse(this.name);
+    return text;
+  };
+
+  private readonly readResponse = (body: unknown): string => {
+    const { response } = body as GenerateResponse;
+    if (typeof response !== "string") throw unexpectedResponse(this.name);
+    return response;
+  };
+}
@@ -0,0 +1,83 @@
+import type { AIProvider, GenerateTextRequest } from "./ai-provider.js";
+import {
+  joinUrl,
+  postJson,
+  postStream,
+  unexpectedResponse,
+} from "./ai-provider-http.js";
+import { AI_PROVIDER_BASE_URLS } from "../constants/ai.js";
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+}
+
+// Speaks the `/chat/completions` dialect, so it also covers self-hosted
+// gateways (vLLM, LiteLLM, LM Studio, ...) via `baseUrl`.
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = "openai" as const;
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+
+  constructor(apiKey: string, baseUrl?: string) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl ?? AI_PROVIDER_BASE_URLS.openai;
+  }
+
+  generateText = async (request: GenerateTextRequest): Promise<string> => {
+    const headers: Record<string, string> = this.apiKey
+      ? { authorization: `Bearer ${this.apiKey}` }
+      : {};
+    const url = joinUrl(this.baseUrl, "chat/completions");
+    const { responseSchema } = request;
+    const payload = {
+      model: request.model,
+      messages: [{ role: "user", content: request.prompt }],
+      // Not strict: strict mode demands every property be required.
+      ...(responseSchema && {
+        response_format: {
+          type: "json_schema",
+          json_schema: { ...responseSchema, strict: false },
+        },
+      }),
+    };
+
+    const { onText } = request;
+    if (!onText) {
+      return this.readContent(await postJson(this.name, url, payload, headers));
+    }
+
+    let text = "";
+    const whole = await postStream(
+      this.name,
+      url,
+      { ...payload, stream: true },
+      headers,
+      event => {
+        const delta = (event as ChatCompletionChunk).choices?.[0]?.delta
+          ?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+    );
+    if (whole !== undefined) {
+      const content = this.readContent(whole);
+      onText(content);
+      return content;
+    }
+    if (!text) throw unexpectedResponse(this.name);
+    return text;
+  };
+
+  private readonly readContent = (body: unknown): string => {
+    const content = (body as ChatCompletionResponse).choices?.[0]?.message
+      ?.content;
+    if (typeof content !== "string") throw unexpectedResponse(this.name);
+    return content;
+  };
+}
@@ -0,0 +1,65 @@
+import process from "process";
+import type { AIProviderName } from "../types/common.js";
+import {
+  AI_MOCK_SCENARIO_ENV,
+  AI_PROVIDER_API_KEY_ENV,
+} from "../constants/ai.js";
+import { ERROR_MESSAGES } from "../constants/messages.js";
+import { GeminiProvider } from "./ai-provider-gemini.js";
+import { OpenAICompatibleProvider } from "./ai-provider-openai.js";
+import { AnthropicProvider } from "./ai-provider-anthropic.js";
+import { OllamaProvider } from "./ai-provider-ollama.js";
+import { MockProvider } from "./ai-provider-mock.js";
+
+// A JSON Schema the answer must match, for providers with a structured
+// output mode. Providers without one ignore it.
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface GenerateTextRequest {
+  model: string;
+  prompt: string;
+  onText?: (delta: string) => void; // set to stream the response
+  responseSchema?: ResponseSchema;
+}
+
+// Text in, text out. Everything provider-agnostic (privacy gate, prompt,
+// model fallback, retries, parsing) stays in AIService. With `onText`, the
+// response is streamed and handed over piece by piece as it arrives; the
+// returned promise still resolves to the whole text.
+export interface AIProvider {
+  readonly name: AIProviderName;
+  generateText(request: GenerateTextRequest): Promise<string>;
+}
+
+export interface AIProviderSettings {
+  name: AIProviderName;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export const providerRequiresApiKey = (name: AIProviderName): boolean =>
+  AI_PROVIDER_API_KEY_ENV[name] !== undefined;
+
+export const missingApiKeyMessage = (name: AIProviderName): string =>
+  name === "gemini"
+    ? ERROR_MESSAGES.API_KEY_NOT_FOUND
+    : `API key for provider "${name}" not found. Please set ${AI_PROVIDER_API_KEY_ENV[name]} environment variable or configure it with "cx config set apiKey YOUR_API_KEY"`;
+
+export const createAIProvider = (settings: AIProviderSettings): AIProvider => {
+  const apiKey = settings.apiKey ?? "";
+  switch (settings.name) {
+    case "gemini":
+      return new GeminiProvider(apiKey);
+    case "openai":
+      return new OpenAICompatibleProvider(apiKey, settings.baseUrl);
+    case "anthropic":
+      return new AnthropicProvider(apiKey, settings.baseUrl);
+    case "ollama":
+      return new OllamaProvider(settings.baseUrl);
+    case "mock":
+      return new MockProvider(process.env[AI_MOCK_SCENARIO_ENV]);
+  }
+};
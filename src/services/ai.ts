@@ -1,8 +1,12 @@
-import { GoogleGenAI } from "@google/genai";
+import { createHash } from "crypto";
 import type {
   AggregatedCommitResponse,
+  ChangelogEntry,
   CommitGroup,
   GitDiff,
+  MessageStyle,
+  ModelSettings,
+  PullRequestDescription,
 } from "../types/common.js";
 import { ConfigManager } from "../config.js";
 import { withTimeout } from "../utils/security.js";
@@ -13,79 +17,141 @@ import {
   SecureError,
 } from "../utils/error-handler.js";
 import { DEFAULT_LIMITS } from "../constants/security.js";
+import { DEFAULT_MAX_FILES_PER_GROUP } from "../constants/config.js";
 import { calculateAITimeout } from "../utils/timeout.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { createArrayItemStream } from "../utils/json-stream.js";
 import {
+  AI_CHUNK_CONCURRENCY,
   AI_RETRY_ATTEMPTS,
   AI_RETRY_DELAY_MS,
-  AI_MODEL_FALLBACK_CHAIN,
 } from "../constants/ai.js";
-import { ERROR_MESSAGES } from "../constants/messages.js";
 import { PersistentAICache, type AICache } from "../utils/ai-cache.js";
 import { RequestBatcher } from "../utils/request-batcher.js";
 import {
   enforcePrivacyGate,
   logPrivacyGateOutcome,
+  type PrivacyGateResult,
 } from "./ai-privacy-gate.js";
 import {
   buildAggregatedPrompt,
   generateFactualFallback,
+  GROUPING_RESPONSE_SCHEMA,
   parseAggregatedResponse,
   type ParseResult,
+  type PromptTokenBudget,
 } from "./ai-prompt.js";
+import {
+  buildPullRequestPrompt,
+  parsePullRequestResponse,
+  type PullRequestPromptOptions,
+} from "./ai-pr-prompt.js";
+import {
+  buildChangelogPrompt,
+  parseChangelogResponse,
+  type ChangelogCommit,
+} from "./ai-changelog-prompt.js";
 import { preGroupDeterministicFiles } from "./ai-commit-group.js";
+import { planPromptChunks, reconcileChunkGroups } from "./ai-chunking.js";
+import {
+  sanitizeDiffContent,
+  type SanitizedDiff,
+} from "../utils/data-sanitization.js";
+import { diffUnitId } from "../utils/diff-hunks.js";
+import { estimateTokens, tokenEstimatorFor } from "../utils/token-budget.js";
+import { applyMessageStyle, renderStyledMessage } from "./message-style.js";
+import {
+  createAIProvider,
+  missingApiKeyMessage,
+  providerRequiresApiKey,
+  type AIProvider,
+} from "./ai-provider.js";
+import { isRejectedRequest } from "./ai-provider-http.js";
+
+// A group as the AI streams it in, before file ids are resolved and the
+// message is styled; only good for showing progress.
+export interface GroupPreview {
+  files: string[];
+  message: string;
+}
 
 interface GenerateOptions {
   useCached?: boolean;
+  branch?: string; // fills {ticket}/{branch} in message templates
+  body?: boolean; // overrides the commitBody config
+  singleGroup?: boolean;
+  history?: string[]; // subjects of commits being squashed, for context
+  onPrivacyGate?: (result: PrivacyGateResult) => void; // every gate pass
+  onGroupPreview?: (group: GroupPreview) => void; // streams the response
+  // An attempt failed after streaming these previews; its groups will be
+  // asked for again (retry, next model, focused retry), so drop them.
+  onAttemptFailed?: (previews: GroupPreview[]) => void;
 }
 
+const toGroupPreview = (item: unknown): GroupPreview | undefined => {
+  const { files, message } = item as { files?: unknown; message?: unknown };
+  if (!Array.isArray(files) || typeof message !== "string") return undefined;
+  return {
+    files: files.filter(file => typeof file === "string"),
+    message,
+  };
+};
+
 // One focused retry is enough — if the AI drops files twice, they get
 // factual fallback messages rather than a third round of speculation.
 const MAX_DROPPED_FILE_RETRIES = 1;
 
 export class AIService {
-  private readonly genAI: GoogleGenAI;
+  private readonly provider: AIProvider;
+  private readonly modelChain: readonly ModelSettings[];
   private readonly config: ConfigManager;
   private readonly aiCache: AICache;
   private readonly requestBatcher: RequestBatcher;
+  // Models whose server refused the grouping response schema; later
+  // requests (other chunks, the focused retry) go without it.
+  private readonly schemaRejected = new Set<string>();
 
   constructor() {
     this.config = ConfigManager.getInstance();
     this.aiCache = new PersistentAICache();
     this.requestBatcher = new RequestBatcher();
 
-    const apiKey = this.config.getApiKey();
-    if (!apiKey) {
+    const providerName = this.config.getProvider();
+    const apiKey = this.config.getApiKey(providerName);
+    if (!apiKey && providerRequiresApiKey(providerName)) {
       throw new SecureError(
-        ERROR_MESSAGES.API_KEY_NOT_FOUND,
+        missingApiKeyMessage(providerName),
         ErrorType.CONFIG_ERROR,
         { operation: "AIService.constructor" },
         true
       );
     }
 
-    this.genAI = new GoogleGenAI({ apiKey });
+    this.provider = createAIProvider({
+      name: providerName,
+      apiKey,
+      baseUrl: this.config.getConfig().baseUrl,
+    });
+    this.modelChain = this.config.getModelChain();
   }
 
   generateAggregatedCommits = async (
     diffs: GitDiff[],
     options: GenerateOptions = {}
   ): Promise<AggregatedCommitResponse> => {
-    const { aiDiffs, autoGroups } = preGroupDeterministicFiles(diffs);
+    const messageStyle = this.config.getMessageStyle();
+    const { aiDiffs, autoGroups } = preGroupDeterministicFiles(diffs, {
+      classifierOverrides: this.config.getConfig().classifierOverrides,
+      messageStyle,
+    });
 
     if (aiDiffs.length === 0) {
-      return { groups: autoGroups };
+      return { groups: this.renderGroupMessages(autoGroups, options) };
     }
 
-    if (AI_MODEL_FALLBACK_CHAIN.length === 0) {
-      throw new SecureError(
-        "AI_MODEL_FALLBACK_CHAIN is empty; at least one model must be configured",
-        ErrorType.CONFIG_ERROR,
-        { operation: "generateAggregatedCommits" },
-        true
-      );
-    }
+    this.assertModelChain();
 
-    const primary = await this.runAIWithModelFallback(aiDiffs, options);
+    const primary = await this.runAIInChunks(aiDiffs, options);
     const allGroups: CommitGroup[] = [...autoGroups, ...primary.groups];
 
     let leftover = primary.unusedDiffs;
@@ -94,7 +160,7 @@ export class AIService {
         `${leftover.length} file(s) dropped by AI; running focused retry...`
       );
       try {
-        const retry = await this.runAIWithModelFallback(leftover, options);
+        const retry = await this.runAIInChunks(leftover, options);
         allGroups.push(...retry.groups);
         leftover = retry.unusedDiffs;
       } catch (err) {
@@ -108,28 +174,217 @@ export class AIService {
     // Intentionally not speculative about content — we have no AI analysis.
     for (const diff of leftover) {
       allGroups.push({
-        files: [diff.file],
-        message: generateFactualFallback(diff),
+        files: [diffUnitId(diff)],
+        message: applyMessageStyle(generateFactualFallback(diff), messageStyle),
         confidence: 0.6,
       });
     }
 
-    return { groups: allGroups };
+    return { groups: this.renderGroupMessages(allGroups, options) };
   };
 
-  private readonly runAIWithModelFallback = async (
+  // One message for a fixed set of files (group review "regenerate",
+  // amend). Deterministic pre-grouping is skipped: the caller already chose
+  // the grouping, so every file lands in the returned group.
+  generateSingleGroup = async (
+    diffs: GitDiff[],
+    options: GenerateOptions = {}
+  ): Promise<CommitGroup> => {
+    this.assertModelChain();
+
+    const result = await this.runAIWithModelFallback(diffs, {
+      ...options,
+      singleGroup: true,
+    });
+    const files = diffs.map(diffUnitId);
+    const [first] = result.groups;
+    const group: CommitGroup = first
+      ? { ...first, files }
+      : {
+          files,
+          message: applyMessageStyle(
+            generateFactualFallback(diffs[0]),
+            this.config.getMessageStyle()
+          ),
+          confidence: 0.6,
+        };
+    return this.renderGroupMessages([group], options)[0];
+  };
+
+  // Markdown-ready sections describing a whole branch. Commit subjects are
+  // context only and go through the same sanitizer as diff content.
+  generatePullRequestDescription = async (
+    diffs: GitDiff[],
+    options: PullRequestPromptOptions
+  ): Promise<PullRequestDescription> => {
+    this.assertModelChain();
+
+    const promptOptions = {
+      ...options,
+      commits: options.commits?.map(
+        subject => sanitizeDiffContent(subject).sanitized
+      ),
+    };
+    return this.runWithModelFallback(
+      async model =>
+        this.executePullRequestGeneration(diffs, model, promptOptions),
+      "generatePullRequestDescription"
+    );
+  };
+
+  // One changelog entry per user-facing commit, classified from the commit
+  // messages alone; no diffs are sent.
+  generateChangelogEntries = async (
+    commits: ChangelogCommit[]
+  ): Promise<ChangelogEntry[]> => {
+    this.assertModelChain();
+
+    const sanitized = commits.map(commit => ({
+      ...commit,
+      subject: sanitizeDiffContent(commit.subject).sanitized,
+      body: commit.body && sanitizeDiffContent(commit.body).sanitized,
+    }));
+    return this.runWithModelFallback(
+      async model => this.executeChangelogGeneration(sanitized, model),
+      "generateChangelogEntries"
+    );
+  };
+
+  private readonly assertModelChain = (): void => {
+    if (this.modelChain.length === 0) {
+      throw new SecureError(
+        `Model chain for provider "${this.provider.name}" is empty; at least one model must be configured`,
+        ErrorType.CONFIG_ERROR,
+        { operation: "generateAggregatedCommits" },
+        true
+      );
+    }
+  };
+
+  // Style rendering runs after caching so a cached answer still picks up the
+  // current branch and template.
+  private readonly renderGroupMessages = (
+    groups: CommitGroup[],
+    options: GenerateOptions
+  ): CommitGroup[] => {
+    const messageStyle = this.config.getMessageStyle();
+    const { messageTemplate, ticketPatterns } = this.config.getConfig();
+    const context = {
+      branch: options.branch,
+      template: messageTemplate,
+      ticketPatterns,
+    };
+    return groups.map(group => ({
+      ...group,
+      message: renderStyledMessage(
+        group.message,
+        group.files,
+        messageStyle,
+        context
+      ),
+    }));
+  };
+
+  // A change set whose prompt would exceed a model's limit is split into
+  // chunks that fit every model in the chain, so fallback still works per
+  // chunk. The chunks are grouped concurrently and their groups merged.
+  // A chunk that exhausts the chain hands its changes back as unused, so
+  // the other chunks' groups survive; only when every chunk fails does the
+  // run fail.
+  private readonly runAIInChunks = async (
     diffs: GitDiff[],
     options: GenerateOptions
   ): Promise<ParseResult> => {
+    const chunks = planPromptChunks(diffs, chunk =>
+      this.promptFitsModelChain(chunk, options)
+    );
+    if (chunks.length === 1) {
+      return this.runAIWithModelFallback(chunks[0], options);
+    }
+
+    console.warn(
+      `${diffs.length} changes are too large for one prompt; grouping them in ${chunks.length} requests...`
+    );
+    const outcomes = await mapWithConcurrency(
+      chunks,
+      AI_CHUNK_CONCURRENCY,
+      async (chunk): Promise<ParseResult | Error> => {
+        try {
+          return await this.runAIWithModelFallback(chunk, options);
+        } catch (error) {
+          return error instanceof Error ? error : new Error(String(error));
+        }
+      }
+    );
+    if (outcomes.every(outcome => outcome instanceof Error)) {
+      throw outcomes[0];
+    }
+    const results = outcomes.map((outcome, index): ParseResult => {
+      if (!(outcome instanceof Error)) return outcome;
+      console.warn(
+        `⚠️  Request ${index + 1}/${chunks.length} failed: ${outcome.message}. Its ${chunks[index].length} change(s) go to the focused retry.`
+      );
+      return { groups: [], unusedDiffs: chunks[index] };
+    });
+    const { maxFilesPerGroup, reconcileChunks } = this.config.getConfig();
+    const groups =
+      reconcileChunks === false
+        ? results.flatMap(result => result.groups)
+        : reconcileChunkGroups(
+            results.map(result => result.groups),
+            maxFilesPerGroup ?? DEFAULT_MAX_FILES_PER_GROUP
+          );
+    return {
+      groups,
+      unusedDiffs: results.flatMap(result => result.unusedDiffs),
+    };
+  };
+
+  // Builds the prompt exactly as executeAggregatedCommitGeneration would,
+  // without logging the privacy gate. Diffs the gate rejects entirely are
+  // left for the real call to report.
+  private readonly promptFitsModelChain = (
+    diffs: GitDiff[],
+    options: GenerateOptions
+  ): boolean => {
+    const { sanitizedDiffs } = enforcePrivacyGate(diffs, process.cwd());
+    if (sanitizedDiffs.length === 0) return true;
+    return this.modelChain.every(model => {
+      const { prompt } = this.buildGroupingPrompt(
+        sanitizedDiffs,
+        model,
+        options
+      );
+      const { tokens, limit } = this.promptSize(prompt, model);
+      return tokens <= limit;
+    });
+  };
+
+  private readonly runAIWithModelFallback = async (
+    diffs: GitDiff[],
+    options: GenerateOptions
+  ): Promise<ParseResult> =>
+    this.runWithModelFallback(
+      async model =>
+        this.executeAggregatedCommitGeneration(diffs, model, options),
+      "generateAggregatedCommits"
+    );
+
+  private readonly runWithModelFallback = async <T>(
+    execute: (model: ModelSettings) => Promise<T>,
+    operation: string
+  ): Promise<T> => {
     let lastError: unknown;
-    for (let i = 0; i < AI_MODEL_FALLBACK_CHAIN.length; i++) {
-      const model = AI_MODEL_FALLBACK_CHAIN[i];
+    for (let i = 0; i < this.modelChain.length; i++) {
+      const model = this.modelChain[i];
+      const attempts =
+        model.retries !== undefined ? model.retries + 1 : AI_RETRY_ATTEMPTS;
       try {
         return await withRetry(
-          async () => this.executeAggregatedCommitGeneration(diffs, model, options),
-          AI_RETRY_ATTEMPTS,
+          async () => execute(model),
+          attempts,
           AI_RETRY_DELAY_MS,
-          { operation: "generateAggregatedCommits" }
+          { operation }
         );
       } catch (err) {
         lastError = err;
@@ -143,11 +398,11 @@ export class AIService {
           throw err;
         }
 
-        const next = AI_MODEL_FALLBACK_CHAIN[i + 1];
+        const next = this.modelChain[i + 1];
         const reason = err instanceof Error ? err.message : String(err);
         if (next) {
           console.warn(
-            `⚠️  Model (${model}) failed: ${reason}. Trying (${next})...`
+            `⚠️  Model (${model.name}) failed: ${reason}. Trying (${next.name})...`
           );
         }
       }
@@ -159,7 +414,7 @@ export class AIService {
 
   private readonly executeAggregatedCommitGeneration = async (
     diffs: GitDiff[],
-    modelName: string,
+    model: ModelSettings,
     options: GenerateOptions
   ): Promise<ParseResult> => {
     return withErrorHandling(
@@ -173,30 +428,36 @@ export class AIService {
           );
         }
 
-        const gate = enforcePrivacyGate(diffs, process.cwd());
-        logPrivacyGateOutcome(gate);
-
-        if (gate.approvedDiffs.length === 0) {
-          throw new SecureError(
-            "No valid diffs after privacy gate",
-            ErrorType.VALIDATION_ERROR,
-            { operation: "generateAggregatedCommits" },
-            true
-          );
-        }
+        const gate = this.passPrivacyGate(
+          diffs,
+          "generateAggregatedCommits",
+          options.onPrivacyGate
+        );
 
-        const { prompt } = buildAggregatedPrompt(gate.sanitizedDiffs);
+        const { prompt, messageStyle, includeBody } = this.buildGroupingPrompt(
+          gate.sanitizedDiffs,
+          model,
+          options
+        );
 
-        if (prompt.length > DEFAULT_LIMITS.maxApiRequestSize) {
-          throw new SecureError(
-            `Prompt size ${prompt.length} exceeds limit of ${DEFAULT_LIMITS.maxApiRequestSize} characters`,
-            ErrorType.VALIDATION_ERROR,
-            { operation: "generateAggregatedCommits" },
-            true
-          );
-        }
+        this.assertPromptSize(prompt, model, "generateAggregatedCommits");
 
-        const cacheKey = `agg_${this.aiCache.generateKey(gate.approvedDiffs)}`;
+        // Prompt options are part of the key: a cached plain-style answer
+        // must not be replayed once the repo switches to Conventional Commits.
+        // Squashing the same diff from other commits gives other context.
+        const variant = [
+          messageStyle,
+          includeBody && "body",
+          options.singleGroup && "single",
+          options.history?.length &&
+            `history-${createHash("sha256")
+              .update(options.history.join("\n"))
+              .digest("hex")
+              .substring(0, 8)}`,
+        ]
+          .filter(Boolean)
+          .join("_");
+        const cacheKey = `agg_${variant}_${this.aiCache.generateKey(gate.approvedDiffs)}`;
 
         if (options.useCached) {
           const cached = await this.aiCache.get(cacheKey);
@@ -205,33 +466,66 @@ export class AIService {
           }
         }
 
-        const totalChanges = gate.approvedDiffs.reduce(
-          (sum, diff) => sum + diff.additions + diff.deletions,
-          0
-        );
+        const aiTimeout = this.timeoutFor(model, prompt, gate.approvedDiffs);
 
-        const aiTimeout = calculateAITimeout({
-          diffSize: prompt.length,
-          fileCount: gate.approvedDiffs.length,
-          totalChanges,
-        });
+        const streamed: GroupPreview[] = [];
+        const callModel = async (): Promise<string> => {
+          const { onGroupPreview } = options;
+          // Pieces still arriving after a timeout must not reach the preview.
+          let live = true;
+          const onText =
+            onGroupPreview &&
+            createArrayItemStream("groups", item => {
+              const preview = toGroupPreview(item);
+              if (!live || !preview) return;
+              streamed.push(preview);
+              onGroupPreview(preview);
+            });
+          const request = (withSchema: boolean): Promise<string> =>
+            withTimeout(
+              this.provider.generateText({
+                model: model.name,
+                prompt,
+                onText,
+                responseSchema: withSchema
+                  ? GROUPING_RESPONSE_SCHEMA
+                  : undefined,
+              }),
+              aiTimeout
+            );
+          const withSchema =
+            model.structuredOutput !== false &&
+            !this.schemaRejected.has(model.name);
+          try {
+            return await request(withSchema);
+          } catch (error) {
+            // Many OpenAI-compatible and Ollama servers answer 400 to a
+            // response schema they don't support; the prompt alone still
+            // asks for the same JSON.
+            if (!withSchema || !isRejectedRequest(error)) throw error;
+            this.schemaRejected.add(model.name);
+            console.warn(
+              `⚠️  Model (${model.name}) rejected the response schema; asking again without it...`
+            );
+            return await request(false);
+          } finally {
+            live = false;
+          }
+        };
 
-        const callModel = async (): Promise<{ text?: string }> =>
-          withTimeout(
-            this.genAI.models.generateContent({
-              model: modelName,
-              contents: prompt,
-            }),
-            aiTimeout
+        let parseResult: ParseResult;
+        try {
+          const text = await this.requestBatcher.batch(cacheKey, callModel);
+          parseResult = parseAggregatedResponse(
+            text,
+            gate.approvedDiffs,
+            gate.sanitizedDiffs,
+            { messageStyle, includeBody }
           );
-
-        const result = await this.requestBatcher.batch(cacheKey, callModel);
-
-        const parseResult = parseAggregatedResponse(
-          result.text ?? "",
-          gate.approvedDiffs,
-          gate.sanitizedDiffs
-        );
+        } catch (error) {
+          if (streamed.length > 0) options.onAttemptFailed?.(streamed);
+          throw error;
+        }
 
         if (options.useCached && parseResult.groups.length > 0) {
           void this.aiCache.set(cacheKey, parseResult.groups);
@@ -242,4 +536,146 @@ export class AIService {
       { operation: "generateAggregatedCommits" }
     ) as Promise<ParseResult>;
   };
+
+  private readonly buildGroupingPrompt = (
+    sanitizedDiffs: SanitizedDiff[],
+    model: ModelSettings,
+    options: GenerateOptions
+  ): { prompt: string; messageStyle: MessageStyle; includeBody: boolean } => {
+    const messageStyle = this.config.getMessageStyle();
+    const includeBody =
+      options.body ?? this.config.getConfig().commitBody ?? false;
+    const { prompt } = buildAggregatedPrompt(sanitizedDiffs, {
+      budget: this.promptBudget(model),
+      maxFilesPerGroup: this.config.getConfig().maxFilesPerGroup,
+      messageStyle,
+      includeBody,
+      singleGroup: options.singleGroup,
+      history: options.history?.map(
+        subject => sanitizeDiffContent(subject).sanitized
+      ),
+    });
+    return { prompt, messageStyle, includeBody };
+  };
+
+  private readonly executePullRequestGeneration = async (
+    diffs: GitDiff[],
+    model: ModelSettings,
+    options: PullRequestPromptOptions
+  ): Promise<PullRequestDescription> => {
+    return withErrorHandling(
+      async () => {
+        const gate = this.passPrivacyGate(
+          diffs,
+          "generatePullRequestDescription"
+        );
+        const { prompt } = buildPullRequestPrompt(gate.sanitizedDiffs, {
+          ...options,
+          budget: this.promptBudget(model),
+        });
+        this.assertPromptSize(prompt, model, "generatePullRequestDescription");
+
+        const text = await withTimeout(
+          this.provider.generateText({ model: model.name, prompt }),
+          this.timeoutFor(model, prompt, gate.approvedDiffs)
+        );
+        return parsePullRequestResponse(text);
+      },
+      { operation: "generatePullRequestDescription" }
+    ) as Promise<PullRequestDescription>;
+  };
+
+  private readonly executeChangelogGeneration = async (
+    commits: ChangelogCommit[],
+    model: ModelSettings
+  ): Promise<ChangelogEntry[]> => {
+    return withErrorHandling(
+      async () => {
+        const { prompt } = buildChangelogPrompt(commits);
+        this.assertPromptSize(prompt, model, "generateChangelogEntries");
+
+        const text = await withTimeout(
+          this.provider.generateText({ model: model.name, prompt }),
+          model.timeoutMs ??
+            calculateAITimeout({
+              diffSize: prompt.length,
+              fileCount: commits.length,
+              totalChanges: 0,
+            })
+        );
+        return parseChangelogResponse(text, commits);
+      },
+      { operation: "generateChangelogEntries" }
+    ) as Promise<ChangelogEntry[]>;
+  };
+
+  private readonly passPrivacyGate = (
+    diffs: GitDiff[],
+    operation: string,
+    onPrivacyGate?: (result: PrivacyGateResult) => void
+  ): PrivacyGateResult => {
+    const gate = enforcePrivacyGate(diffs, process.cwd());
+    logPrivacyGateOutcome(gate);
+    onPrivacyGate?.(gate);
+
+    if (gate.approvedDiffs.length === 0) {
+      throw new SecureError(
+        "No valid diffs after privacy gate",
+        ErrorType.VALIDATION_ERROR,
+        { operation },
+        true
+      );
+    }
+    return gate;
+  };
+
+  private readonly promptBudget = (
+    model: ModelSettings
+  ): PromptTokenBudget => ({
+    estimator: tokenEstimatorFor(this.provider.name, model.name),
+    maxPromptTokens: model.maxPromptTokens,
+    classifierOverrides: this.config.getConfig().classifierOverrides,
+  });
+
+  private readonly promptSize = (
+    prompt: string,
+    model: ModelSettings
+  ): { tokens: number; limit: number } => ({
+    tokens: estimateTokens(
+      prompt,
+      tokenEstimatorFor(this.provider.name, model.name)
+    ),
+    limit: model.maxPromptTokens ?? DEFAULT_LIMITS.maxPromptTokens,
+  });
+
+  private readonly assertPromptSize = (
+    prompt: string,
+    model: ModelSettings,
+    operation: string
+  ): void => {
+    const { tokens, limit } = this.promptSize(prompt, model);
+    if (tokens > limit) {
+      throw new SecureError(
+        `Prompt of ~${tokens} tokens exceeds the ${limit}-token limit for ${model.name}`,
+        ErrorType.VALIDATION_ERROR,
+        { operation },
+        true
+      );
+    }
+  };
+
+  private readonly timeoutFor = (
+    model: ModelSettings,
+    prompt: string,
+    diffs: GitDiff[]
+  ): number =>
+    model.timeoutMs ??
+    calculateAITimeout({
+      diffSize: prompt.length,
+      fileCount: diffs.length,
+      totalChanges: diffs.reduce(
+        (sum, diff) => sum + diff.additions + diff.deletions,
+        0
+      ),
+    });
 }
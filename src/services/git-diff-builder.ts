@@ -245,23 +245,100 @@ export const buildFileDiff = async (
   }
 };
 
-export const mapWithConcurrency = async <T, R>(
-  items: T[],
-  concurrency: number,
-  worker: (item: T) => Promise<R>
-): Promise<R[]> => {
-  const results = new Array<R>(items.length);
-  let currentIndex = 0;
-  const workerCount = Math.max(1, Math.min(concurrency, items.length));
-
-  const runners = Array.from({ length: workerCount }, async () => {
-    while (currentIndex < items.length) {
-      const itemIndex = currentIndex++;
-      results[itemIndex] = await worker(items[itemIndex]);
+export interface RevisionChange {
+  status: string; // A, M, D, R or T
+  file: string;
+  oldPath?: string; // set for renames
+}
+
+// Parses `git diff --name-status -z -M`: a status, then one path (two for
+// renames and copies), NUL-separated.
+export const parseNameStatus = (output: string): RevisionChange[] => {
+  const fields = output.split("\0").filter(field => field !== "");
+  const changes: RevisionChange[] = [];
+  for (let i = 0; i < fields.length; ) {
+    const status = fields[i].charAt(0);
+    if (status === "R" || status === "C") {
+      changes.push({ status, oldPath: fields[i + 1], file: fields[i + 2] });
+      i += 3;
+    } else {
+      changes.push({ status, file: fields[i + 1] });
+      i += 2;
     }
-  });
+  }
+  return changes;
+};
+
+const countChangedLines = (
+  diff: string
+): { additions: number; deletions: number } => {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+") && !line.startsWith("+++")) additions++;
+    else if (line.startsWith("-") && !line.startsWith("---")) deletions++;
+  }
+  return { additions, deletions };
+};
+
+// Diff of one file between two revisions (or a revision and the index),
+// for commits that already exist rather than the working tree. Mirrors
+// buildFileDiff's handling of bulk and oversized lock files.
+export const buildRevisionFileDiff = async (
+  git: SimpleGit,
+  change: RevisionChange,
+  repositoryPath: string,
+  revisionArgs: string[]
+): Promise<GitDiff> => {
+  const pathValidation = validateAndSanitizePath(change.file, repositoryPath);
+  if (!pathValidation.isValid || !pathValidation.sanitizedValue) {
+    throw new SecureError(
+      pathValidation.error ?? "Invalid file path",
+      ErrorType.SECURITY_ERROR,
+      { operation: "getRevisionDiff", file: change.file },
+      false
+    );
+  }
 
-  await Promise.all(runners);
+  const validatedFile = pathValidation.sanitizedValue;
+  const paths = change.oldPath ? [change.oldPath, change.file] : [change.file];
+  const diff = await withTimeout(
+    git.diff(["-U0", "-M", ...revisionArgs, "--", ...paths]),
+    calculateGitTimeout({ diffSize: 0 })
+  );
+  const { additions, deletions } = countChangedLines(diff);
+  const base = {
+    file: validatedFile,
+    additions,
+    deletions,
+    isNew: change.status === "A",
+    isDeleted: change.status === "D",
+    isRenamed: change.status === "R",
+    oldPath: change.oldPath,
+  };
+
+  if (isBulkFilePath(change.file)) {
+    return {
+      ...base,
+      changes: `Generated file updated: +${additions}/-${deletions}`,
+    };
+  }
+
+  const diffValidation = validateDiffSize(diff);
+  if (!diffValidation.isValid) {
+    if (classifyFile(change.file).category === "LOCK") {
+      return {
+        ...base,
+        changes: `Lock file updated: ${additions} additions, ${deletions} deletions`,
+      };
+    }
+    throw new SecureError(
+      diffValidation.error ?? "Validation failed",
+      ErrorType.VALIDATION_ERROR,
+      { operation: "getRevisionDiff", file: validatedFile },
+      true
+    );
+  }
 
-  return results;
+  return { ...base, changes: diffValidation.sanitizedValue ?? "" };
 };
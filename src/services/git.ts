@@ -1,6 +1,14 @@
 import simpleGit, { type SimpleGit } from "simple-git";
-import { access } from "fs/promises";
-import type { GitDiff, GitStatus } from "../types/common.js";
+import { access, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import type {
+  CommitInfo,
+  CommitRef,
+  GitDiff,
+  GitStatus,
+  RepoSnapshot,
+} from "../types/common.js";
 import {
   validateAndSanitizePath,
   withTimeout,
@@ -15,15 +23,20 @@ import {
 } from "../utils/timeout.js";
 import { ERROR_MESSAGES } from "../constants/messages.js";
 import { UI_CONSTANTS } from "../constants/ui.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
 import { GitCache, type RepoInfo } from "./git-cache.js";
 import {
   buildFileDiff,
-  mapWithConcurrency,
+  buildRevisionFileDiff,
+  parseNameStatus,
   type RawGitStatus,
 } from "./git-diff-builder.js";
 
 const DIFF_COLLECTION_CONCURRENCY = 4;
 
+// git's well-known empty tree (SHA-1); the "parent" of a root commit.
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
 export class GitService {
   private readonly git: SimpleGit;
   private repositoryPath: string;
@@ -199,20 +212,23 @@ export class GitService {
     );
   };
 
-  getChangesSummary = async (): Promise<string> => {
+  // Modified, deleted and untracked files against the index.
+  getUnstagedDiffs = async (): Promise<GitDiff[]> => {
     const status = await this.getRawStatus();
     const unstagedFiles = [
       ...status.modified,
       ...status.not_added,
       ...status.deleted,
     ];
-
-    if (unstagedFiles.length === 0) return "No unstaged changes found.";
+    if (unstagedFiles.length === 0) return [];
 
     const validatedFiles = this.validateFilePaths(unstagedFiles);
-    const diffs = await this.collectDiffs(validatedFiles, status, false);
+    return this.collectDiffs(validatedFiles, status, false);
+  };
 
-    if (diffs.length === 0) return "No valid changes found.";
+  getChangesSummary = async (): Promise<string> => {
+    const diffs = await this.getUnstagedDiffs();
+    if (diffs.length === 0) return "No unstaged changes found.";
 
     const totalAdditions = diffs.reduce((sum, diff) => sum + diff.additions, 0);
     const totalDeletions = diffs.reduce((sum, diff) => sum + diff.deletions, 0);
@@ -306,28 +322,505 @@ export class GitService {
     );
   };
 
+  // Stages part of a file from a zero-context patch (hunk-level groups).
+  // simple-git's raw() has no stdin, so the patch goes through a temp file.
+  stagePatch = async (
+    patch: string,
+    timeoutOptions?: Omit<TimeoutCalculationOptions, "operationType">
+  ): Promise<void> => {
+    return withErrorHandling(
+      async () => {
+        const patchDir = await mkdtemp(join(tmpdir(), "commitx-patch-"));
+        const patchPath = join(patchDir, "hunks.patch");
+        try {
+          await writeFile(patchPath, patch, "utf-8");
+          await withTimeout(
+            this.git.raw([
+              "apply",
+              "--cached",
+              "--unidiff-zero",
+              "--whitespace=nowarn",
+              patchPath,
+            ]),
+            calculateGitTimeout(timeoutOptions ?? {})
+          );
+          this.cache.clear();
+        } finally {
+          await rm(patchDir, { recursive: true, force: true });
+        }
+      },
+      { operation: "stagePatch" }
+    );
+  };
+
+  private readonly validateMessage = (message: string): string => {
+    const messageValidation = validateCommitMessage(message);
+    if (!messageValidation.isValid || !messageValidation.sanitizedValue) {
+      throw new SecureError(
+        messageValidation.error ?? "Invalid commit message",
+        ErrorType.VALIDATION_ERROR,
+        { operation: "commit" },
+        true
+      );
+    }
+    return messageValidation.sanitizedValue;
+  };
+
   commit = async (
     message: string,
     timeoutOptions?: Omit<TimeoutCalculationOptions, "operationType">
   ): Promise<void> => {
     return withErrorHandling(
       async () => {
-        const messageValidation = validateCommitMessage(message);
-        if (!messageValidation.isValid || !messageValidation.sanitizedValue) {
+        await withTimeout(
+          this.git.commit(this.validateMessage(message)),
+          calculateGitTimeout(timeoutOptions ?? {})
+        );
+        this.cache.clear();
+      },
+      { operation: "commit" }
+    );
+  };
+
+  // Replaces HEAD with a commit of the current index and the new message.
+  amendCommit = async (message: string): Promise<void> => {
+    return withErrorHandling(
+      async () => {
+        await withTimeout(
+          this.git.raw([
+            "commit",
+            "--quiet",
+            "--amend",
+            "--message",
+            this.validateMessage(message),
+          ]),
+          calculateGitTimeout({})
+        );
+        this.cache.clear();
+      },
+      { operation: "amendCommit" }
+    );
+  };
+
+  // Commits the index as "fixup! <target subject>" for an autosquash rebase.
+  commitFixup = async (target: string): Promise<void> => {
+    return withErrorHandling(
+      async () => {
+        await withTimeout(
+          this.git.raw(["commit", "--quiet", `--fixup=${target}`]),
+          calculateGitTimeout({})
+        );
+        this.cache.clear();
+      },
+      { operation: "commitFixup" }
+    );
+  };
+
+  // Annotated tag on HEAD. The message is kept verbatim so markdown
+  // headings in release notes are not stripped as comments.
+  createTag = async (name: string, message: string): Promise<void> => {
+    return withErrorHandling(
+      async () => {
+        await withTimeout(
+          this.git.raw([
+            "tag",
+            "--annotate",
+            "--cleanup=verbatim",
+            "--message",
+            message,
+            name,
+          ]),
+          calculateGitTimeout({})
+        );
+      },
+      { operation: "createTag" }
+    );
+  };
+
+  // null on a branch with no commits yet
+  getHead = async (): Promise<string | null> => {
+    try {
+      const head = await withTimeout(
+        this.git.raw(["rev-parse", "--verify", "HEAD"]),
+        calculateGitTimeout({})
+      );
+      return head.trim();
+    } catch {
+      return null;
+    }
+  };
+
+  getGitDir = async (): Promise<string> => {
+    return withErrorHandling(
+      async () => {
+        const gitDir = await withTimeout(
+          this.git.raw(["rev-parse", "--absolute-git-dir"]),
+          calculateGitTimeout({})
+        );
+        return gitDir.trim();
+      },
+      { operation: "getGitDir" }
+    );
+  };
+
+  // Resolves a path inside the git dir the way git does, so hooks land in
+  // core.hooksPath and linked worktrees share the main repository's hooks.
+  getGitPath = async (relativePath: string): Promise<string> => {
+    return withErrorHandling(
+      async () => {
+        const gitPath = await withTimeout(
+          this.git.raw(["rev-parse", "--git-path", relativePath]),
+          calculateGitTimeout({})
+        );
+        return resolve(this.repositoryPath, gitPath.trim());
+      },
+      { operation: "getGitPath" }
+    );
+  };
+
+  // Newest first, following first parents from HEAD.
+  getRecentCommits = async (count: number): Promise<string[]> => {
+    if ((await this.getHead()) === null) return [];
+    return withErrorHandling(
+      async () => {
+        const output = await withTimeout(
+          this.git.raw([
+            "rev-list",
+            "--first-parent",
+            `--max-count=${count}`,
+            "HEAD",
+          ]),
+          calculateGitTimeout({})
+        );
+        return output.split("\n").filter(line => line.trim() !== "");
+      },
+      { operation: "getRecentCommits" }
+    );
+  };
+
+  revisionExists = async (revision: string): Promise<boolean> => {
+    try {
+      const sha = await withTimeout(
+        this.git.raw([
+          "rev-parse",
+          "--verify",
+          "--quiet",
+          `${revision}^{commit}`,
+        ]),
+        calculateGitTimeout({})
+      );
+      return sha.trim() !== "";
+    } catch {
+      return false;
+    }
+  };
+
+  // Newest version tag (v1.2.3 or 1.2.3) reachable from `revision`, or null
+  // when there is none. Other tags, like deploy markers, are skipped.
+  getLatestTag = async (revision: string = "HEAD"): Promise<string | null> => {
+    try {
+      const tag = await withTimeout(
+        this.git.raw([
+          "describe",
+          "--tags",
+          "--abbrev=0",
+          "--match",
+          "v[0-9]*.[0-9]*.[0-9]*",
+          "--match",
+          "[0-9]*.[0-9]*.[0-9]*",
+          revision,
+        ]),
+        calculateGitTimeout({})
+      );
+      return tag.trim() || null;
+    } catch {
+      return null;
+    }
+  };
+
+  // null for a root commit
+  getParent = async (commit: string): Promise<string | null> => {
+    try {
+      const parent = await withTimeout(
+        this.git.raw(["rev-parse", "--verify", "--quiet", `${commit}^`]),
+        calculateGitTimeout({})
+      );
+      return parent.trim() || null;
+    } catch {
+      return null;
+    }
+  };
+
+  // Like getParent, but a root commit gets the empty tree, so the result
+  // can always be diffed against.
+  getParentRevision = async (commit: string): Promise<string> =>
+    (await this.getParent(commit)) ?? EMPTY_TREE;
+
+  // Newest non-merge commit reachable from HEAD that changed the file, or
+  // null when it has no history (new file).
+  getLastCommitTouching = async (file: string): Promise<CommitRef | null> => {
+    return withErrorHandling(
+      async () => {
+        const output = await withTimeout(
+          this.git.raw([
+            "log",
+            "--no-merges",
+            "--max-count=1",
+            "--format=%H%x00%s",
+            "--",
+            file,
+          ]),
+          calculateGitTimeout({})
+        );
+        const [sha, subject = ""] = output.trim().split("\0");
+        return sha ? { sha, subject } : null;
+      },
+      { operation: "getLastCommitTouching", file }
+    );
+  };
+
+  // Changes from `base` to `target`, or to the index when no target is
+  // given (HEAD's parent to the index is what an amend would commit).
+  getRevisionDiff = async (
+    base: string,
+    target?: string
+  ): Promise<GitDiff[]> => {
+    return withErrorHandling(
+      async () => {
+        const revisionArgs = target ? [base, target] : ["--cached", base];
+        const nameStatus = await withTimeout(
+          this.git.raw(["diff", "--name-status", "-z", "-M", ...revisionArgs]),
+          calculateGitTimeout({})
+        );
+        const results = await mapWithConcurrency(
+          parseNameStatus(nameStatus),
+          DIFF_COLLECTION_CONCURRENCY,
+          async change => {
+            try {
+              return await buildRevisionFileDiff(
+                this.git,
+                change,
+                this.repositoryPath,
+                revisionArgs
+              );
+            } catch (error) {
+              console.warn(`Failed to get diff for ${change.file}:`, error);
+              return null;
+            }
+          }
+        );
+        return results.filter((diff): diff is GitDiff => diff !== null);
+      },
+      { operation: "getRevisionDiff" }
+    );
+  };
+
+  // Oldest of the given commits when they sit on one line of history.
+  getMergeBase = async (commits: string[]): Promise<string> => {
+    return withErrorHandling(
+      async () => {
+        const output = await withTimeout(
+          this.git.raw(["merge-base", "--octopus", ...commits]),
+          calculateGitTimeout({})
+        );
+        return output.trim();
+      },
+      { operation: "getMergeBase" }
+    );
+  };
+
+  // Oldest first; fails on a range git cannot parse.
+  listCommits = async (range: string): Promise<string[]> => {
+    let output: string;
+    try {
+      output = await withTimeout(
+        this.git.raw(["rev-list", "--reverse", range, "--"]),
+        calculateGitTimeout({})
+      );
+    } catch (error) {
+      throw new SecureError(
+        `Invalid revision range "${range}": ${error}`,
+        ErrorType.GIT_ERROR,
+        { operation: "listCommits" },
+        true
+      );
+    }
+    return output.split("\n").filter(line => line.trim() !== "");
+  };
+
+  getCommitInfo = async (commit: string): Promise<CommitInfo> => {
+    return withErrorHandling(
+      async () => {
+        const output = await withTimeout(
+          this.git.raw([
+            "log",
+            "--max-count=1",
+            "--date=raw",
+            "--format=%H%x00%T%x00%P%x00%an%x00%ae%x00%ad%x00%cn%x00%ce%x00%cd%x00%B",
+            commit,
+            "--",
+          ]),
+          calculateGitTimeout({})
+        );
+        const [sha, tree, parents, an, ae, ad, cn, ce, cd, message = ""] =
+          output.split("\0");
+        return {
+          sha,
+          tree,
+          parents: parents.split(" ").filter(Boolean),
+          author: { name: an, email: ae, date: ad },
+          committer: { name: cn, email: ce, date: cd },
+          message: message.trim(),
+        };
+      },
+      { operation: "getCommitInfo" }
+    );
+  };
+
+  // Writes a commit object without touching HEAD, the index or the working
+  // tree. Author and committer (names and dates) are carried over as given;
+  // the message is not validated, so existing commits keep theirs verbatim.
+  // Hashed from a temp file like stagePatch: raw() has no stdin, and
+  // commit-tree would need the dates passed through the environment.
+  createCommit = async (commit: Omit<CommitInfo, "sha">): Promise<string> => {
+    return withErrorHandling(
+      async () => {
+        const identity = (role: string, who: CommitInfo["author"]): string =>
+          `${role} ${who.name} <${who.email}> ${who.date}`;
+        const object = [
+          `tree ${commit.tree}`,
+          ...commit.parents.map(parent => `parent ${parent}`),
+          identity("author", commit.author),
+          identity("committer", commit.committer),
+          "",
+          `${commit.message}\n`,
+        ].join("\n");
+
+        const objectDir = await mkdtemp(join(tmpdir(), "commitx-commit-"));
+        const objectPath = join(objectDir, "commit");
+        try {
+          await writeFile(objectPath, object, "utf-8");
+          const sha = await withTimeout(
+            this.git.raw(["hash-object", "-t", "commit", "-w", objectPath]),
+            calculateGitTimeout({})
+          );
+          return sha.trim();
+        } finally {
+          await rm(objectDir, { recursive: true, force: true });
+        }
+      },
+      { operation: "createCommit" }
+    );
+  };
+
+  // A new commit of `tree` by the configured user, dated now.
+  commitTree = async (
+    tree: string,
+    parents: string[],
+    message: string
+  ): Promise<string> => {
+    return withErrorHandling(
+      async () => {
+        const sha = await withTimeout(
+          this.git.raw([
+            "commit-tree",
+            tree,
+            ...parents.flatMap(parent => ["-p", parent]),
+            "-m",
+            this.validateMessage(message),
+          ]),
+          calculateGitTimeout({})
+        );
+        return sha.trim();
+      },
+      { operation: "commitTree" }
+    );
+  };
+
+  // Moves the checked-out branch to `newHead`, but only if it still points
+  // at `expectedHead` (nothing committed in the meantime).
+  updateHead = async (
+    newHead: string,
+    expectedHead: string,
+    reason: string
+  ): Promise<void> => {
+    return withErrorHandling(
+      async () => {
+        await withTimeout(
+          this.git.raw([
+            "update-ref",
+            "-m",
+            reason,
+            "HEAD",
+            newHead,
+            expectedHead,
+          ]),
+          calculateGitTimeout({})
+        );
+        this.cache.clear();
+      },
+      { operation: "updateHead" }
+    );
+  };
+
+  // Moves HEAD without touching the index or working tree; a null target
+  // returns the branch to its unborn state.
+  resetSoft = async (target: string | null): Promise<void> => {
+    return withErrorHandling(
+      async () => {
+        await withTimeout(
+          this.git.raw(
+            target
+              ? ["reset", "--quiet", "--soft", target]
+              : ["update-ref", "-d", "HEAD"]
+          ),
+          calculateGitTimeout({})
+        );
+        this.cache.clear();
+      },
+      { operation: "resetSoft" }
+    );
+  };
+
+  // Records HEAD and the index (as a tree object) so a failed multi-commit
+  // run can be undone without touching the working tree.
+  captureSnapshot = async (): Promise<RepoSnapshot> => {
+    return withErrorHandling(
+      async () => {
+        const head = await this.getHead();
+        let indexTree: string;
+        try {
+          indexTree = (
+            await withTimeout(
+              this.git.raw(["write-tree"]),
+              calculateGitTimeout({})
+            )
+          ).trim();
+        } catch (error) {
           throw new SecureError(
-            messageValidation.error ?? "Invalid commit message",
-            ErrorType.VALIDATION_ERROR,
-            { operation: "commit" },
+            `Cannot snapshot the index (unresolved conflicts?): ${error}`,
+            ErrorType.GIT_ERROR,
+            { operation: "captureSnapshot" },
             true
           );
         }
+        return { head, indexTree };
+      },
+      { operation: "captureSnapshot" }
+    );
+  };
+
+  restoreSnapshot = async (snapshot: RepoSnapshot): Promise<void> => {
+    return withErrorHandling(
+      async () => {
+        await this.resetSoft(snapshot.head);
         await withTimeout(
-          this.git.commit(messageValidation.sanitizedValue),
-          calculateGitTimeout(timeoutOptions ?? {})
+          this.git.raw(["read-tree", snapshot.indexTree]),
+          calculateGitTimeout({})
         );
         this.cache.clear();
       },
-      { operation: "commit" }
+      { operation: "restoreSnapshot" }
     );
   };
 
@@ -340,6 +833,12 @@ export class GitService {
     }
   };
 
+  // null on a detached HEAD
+  getCurrentBranch = async (): Promise<string | null> => {
+    const status = await this.getRawStatus();
+    return status.current ?? null;
+  };
+
   getRepoInfo = async (): Promise<RepoInfo> => {
     const cached = this.cache.getRepoInfo();
     if (cached) return cached;
@@ -0,0 +1,441 @@
+import type { MessageStyle, TicketPlacement } from "../types/common.js";
+import {
+  COMMIT_MESSAGE_PATTERNS,
+  CONVENTIONAL_COMMIT_TYPES,
+  UI_CONSTANTS,
+} from "../constants/ui.js";
+import {
+  DEFAULT_MESSAGE_TEMPLATE,
+  TICKET_TRAILER,
+} from "../constants/config.js";
+import { lightColors } from "../utils/colors.js";
+import type { FileCategory } from "../utils/file-classifier.js";
+import { extractTicket } from "../utils/ticket.js";
+import {
+  composeCommitMessage,
+  splitCommitMessage,
+} from "../utils/commit-message.js";
+
+export type ConventionalType = (typeof CONVENTIONAL_COMMIT_TYPES)[number];
+
+export interface ConventionalHeader {
+  type: string;
+  scope?: string;
+  breaking: boolean;
+  subject: string;
+}
+
+export interface FormatValidation {
+  isValid: boolean;
+  correctedMessage?: string;
+}
+
+export interface StyleHints {
+  type?: string;
+  scope?: string;
+}
+
+export interface StylePromptRules {
+  schema: string;
+  rules: string[];
+}
+
+const PLAIN_PROMPT_RULES: StylePromptRules = {
+  schema:
+    '{"groups":[{"files":["<file>"],"message":"<subject>","confidence":<0..1>}]}',
+  rules: [
+    "- message: 3-20 words describing what the diff actually does based on the + lines shown. Capitalized past-tense verb first (e.g. Added, Fixed, Updated, Refactored). No trailing period. No speculation — describe the concrete change.",
+    "- FORBIDDEN prefixes: feat:, fix:, chore:, docs:, refactor:, style:, test:, perf:, build:, ci:, revert:. No type(scope): syntax.",
+  ],
+};
+
+const CONVENTIONAL_PROMPT_RULES: StylePromptRules = {
+  schema:
+    '{"groups":[{"files":["<file>"],"type":"<type>","scope":"<scope, optional>","message":"<type>(<scope>): <subject>","confidence":<0..1>}]}',
+  rules: [
+    `- message: Conventional Commits header "type(scope): subject". type is one of: ${CONVENTIONAL_COMMIT_TYPES.join(", ")}. Omit "(scope)" when no single module or area fits.`,
+    `- subject: imperative mood, lowercase first letter, no trailing period, whole header at most ${UI_CONSTANTS.COMMIT_MESSAGE_MAX_LENGTH} characters. Describe the concrete change shown by the + lines.`,
+    "- type and scope: repeat the values used in the message header.",
+  ],
+};
+
+export const isConventionalType = (type: string): type is ConventionalType =>
+  (CONVENTIONAL_COMMIT_TYPES as readonly string[]).includes(type);
+
+export const parseConventionalHeader = (
+  message: string
+): ConventionalHeader | null => {
+  const header = message.trim().split("\n")[0];
+  const match = header.match(COMMIT_MESSAGE_PATTERNS.CONVENTIONAL_HEADER);
+  if (!match) return null;
+  const [, type, scope, bang, subject] = match;
+  return { type, scope, breaking: bang === "!", subject: subject.trim() };
+};
+
+export const formatConventionalHeader = (header: ConventionalHeader): string =>
+  `${header.type}${header.scope ? `(${header.scope})` : ""}${header.breaking ? "!" : ""}: ${header.subject}`;
+
+// Leaves acronyms and identifiers ("README", "API") alone.
+const lowerFirst = (text: string): string =>
+  /^[A-Z][a-z]/.test(text)
+    ? text.charAt(0).toLowerCase() + text.slice(1)
+    : text;
+
+const nonEmpty = (text?: string): string | undefined => {
+  const trimmed = text?.trim();
+  return trimmed === "" ? undefined : trimmed;
+};
+
+const stripTrailingPeriod = (text: string): string => text.replace(/\.+$/, "");
+
+// Past-tense leads produced by the plain style and by the deterministic
+// messages; anything else just gets its first letter lowered.
+const IMPERATIVE_VERBS: Readonly<Record<string, string>> = {
+  added: "add",
+  updated: "update",
+  removed: "remove",
+  renamed: "rename",
+  fixed: "fix",
+  refactored: "refactor",
+  rebuilt: "rebuild",
+  regenerated: "regenerate",
+};
+
+const toImperativeSubject = (message: string): string => {
+  const [first, ...rest] = message.trim().split(" ");
+  const verb = IMPERATIVE_VERBS[first.toLowerCase()];
+  return stripTrailingPeriod(
+    verb ? [verb, ...rest].join(" ") : lowerFirst(message.trim())
+  );
+};
+
+const validatePlainMessage = (message: string): FormatValidation => {
+  const trimmed = message.trim();
+  const hasBannedPrefix = COMMIT_MESSAGE_PATTERNS.AVOID_PREFIXES.some(prefix =>
+    trimmed.toLowerCase().startsWith(prefix.toLowerCase())
+  );
+
+  if (hasBannedPrefix) {
+    console.log(
+      lightColors.yellow(
+        `⚠️  Detected conventional commit prefix in: "${trimmed}"`
+      )
+    );
+    return { isValid: false };
+  }
+
+  const hasConventionalPattern =
+    COMMIT_MESSAGE_PATTERNS.CONVENTIONAL_COMMIT_PATTERNS.some(pattern =>
+      pattern.test(trimmed)
+    );
+
+  if (hasConventionalPattern) {
+    console.log(
+      lightColors.yellow(
+        `⚠️  Detected conventional commit format in: "${trimmed}"`
+      )
+    );
+    const corrected = trimmed.replace(/^[a-z]+(\([^)]*\))?:\s*/i, "");
+    if (corrected && corrected.length > 10) {
+      const correctedMessage =
+        corrected.charAt(0).toUpperCase() + corrected.slice(1);
+      console.log(lightColors.blue(`  ✓ Corrected to: "${correctedMessage}"`));
+      return { isValid: true, correctedMessage };
+    }
+    return { isValid: false };
+  }
+
+  return { isValid: true };
+};
+
+// Accepts a valid header as-is, normalizes casing slips ("Feat: Added x"),
+// and builds the header from the group's type/scope when the model put them
+// in the JSON fields but left the message bare.
+const validateConventionalMessage = (
+  message: string,
+  hints: StyleHints
+): FormatValidation => {
+  const trimmed = message.trim();
+  const loose = trimmed.match(/^([A-Za-z]+)(?:\(([^)]*)\))?(!)?:\s*(\S.*)$/);
+
+  if (loose) {
+    const [, rawType, rawScope, bang, subject] = loose;
+    const type = rawType.toLowerCase();
+    if (!isConventionalType(type)) {
+      console.log(
+        lightColors.yellow(`⚠️  Unknown conventional type "${rawType}"`)
+      );
+      return { isValid: false };
+    }
+    const normalized = formatConventionalHeader({
+      type,
+      scope: nonEmpty(rawScope),
+      breaking: bang === "!",
+      subject: stripTrailingPeriod(lowerFirst(subject.trim())),
+    });
+    return normalized === trimmed
+      ? { isValid: true }
+      : { isValid: true, correctedMessage: normalized };
+  }
+
+  const hintedType = hints.type?.trim().toLowerCase();
+  if (hintedType && isConventionalType(hintedType) && trimmed.length > 0) {
+    return {
+      isValid: true,
+      correctedMessage: formatConventionalHeader({
+        type: hintedType,
+        scope: nonEmpty(hints.scope),
+        breaking: false,
+        subject: toImperativeSubject(trimmed),
+      }),
+    };
+  }
+
+  console.log(
+    lightColors.yellow(
+      `⚠️  Missing conventional commit header in: "${trimmed}"`
+    )
+  );
+  return { isValid: false };
+};
+
+// ✨ Added x / :sparkles: Added x
+const GITMOJI_LEAD = /^(\p{Extended_Pictographic}\uFE0F?|:[a-z0-9_+-]+:)\s*/u;
+
+const GITMOJI_BY_VERB: Readonly<Record<string, string>> = {
+  added: "✨",
+  implemented: "✨",
+  introduced: "✨",
+  fixed: "🐛",
+  removed: "🔥",
+  deleted: "🔥",
+  renamed: "🚚",
+  moved: "🚚",
+  refactored: "♻️",
+  improved: "⚡️",
+  optimized: "⚡️",
+  documented: "📝",
+  tested: "✅",
+  configured: "🔧",
+};
+const DEFAULT_GITMOJI = "🎨";
+
+const CATEGORY_GITMOJI: Readonly<Partial<Record<FileCategory, string>>> = {
+  LOCK: "⬆️",
+  DOC: "📝",
+  MINIFIED: "📦",
+  GENERATED: "📦",
+  BUILD_ARTIFACT: "📦",
+};
+
+const inferGitmoji = (subject: string): string =>
+  GITMOJI_BY_VERB[subject.split(" ")[0].toLowerCase()] ?? DEFAULT_GITMOJI;
+
+const GITMOJI_PROMPT_RULES: StylePromptRules = {
+  schema: PLAIN_PROMPT_RULES.schema,
+  rules: [
+    ...PLAIN_PROMPT_RULES.rules,
+    "- Start message with ONE gitmoji for the intent, then a space: ✨ new feature, 🐛 bug fix, ♻️ refactor, ⚡️ performance, 📝 docs, ✅ tests, 🔧 config, ⬆️ dependencies, 🔥 removal, 🚚 move/rename, 🎨 structure/format.",
+  ],
+};
+
+// The emoji is optional on input: a bare plain-style subject gets one
+// inferred from its leading verb.
+const validateGitmojiMessage = (message: string): FormatValidation => {
+  const trimmed = message.trim();
+  const lead = trimmed.match(GITMOJI_LEAD);
+  const subject = lead ? trimmed.slice(lead[0].length) : trimmed;
+
+  const validation = validatePlainMessage(subject);
+  if (!validation.isValid) return validation;
+
+  const finalSubject = validation.correctedMessage ?? subject;
+  const styled = `${lead?.[1] ?? inferGitmoji(finalSubject)} ${finalSubject}`;
+  return styled === trimmed
+    ? { isValid: true }
+    : { isValid: true, correctedMessage: styled };
+};
+
+export interface MessageContext {
+  branch?: string;
+  template?: string;
+  ticketPatterns?: readonly string[];
+}
+
+const describeFiles = (files: readonly string[]): string => {
+  const names = files.map(file => file.split("/").pop() ?? file);
+  return names.length > 3
+    ? `${names.slice(0, 3).join(", ")} +${names.length - 3} more`
+    : names.join(", ");
+};
+
+// Placeholders with no value (no ticket on this branch) leave their
+// brackets behind; drop those so "[{ticket}] {Subject}" degrades to
+// "{Subject}".
+const tidyRenderedTemplate = (rendered: string): string =>
+  rendered
+    .replace(/\[\s*\]|\(\s*\)/g, "")
+    .replace(/\s{2,}/g, " ")
+    .replace(/^[\s:|-]+/, "")
+    .trim();
+
+export const renderMessageTemplate = (
+  template: string,
+  subject: string,
+  files: readonly string[],
+  context: MessageContext
+): string => {
+  const values: Readonly<Record<string, string>> = {
+    subject: lowerFirst(subject),
+    Subject: subject.charAt(0).toUpperCase() + subject.slice(1),
+    ticket: extractTicket(context.branch, context.ticketPatterns) ?? "",
+    branch: context.branch ?? "",
+    files: describeFiles(files),
+  };
+  return tidyRenderedTemplate(
+    template.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in values ? values[name] : match
+    )
+  );
+};
+
+interface MessageStyleDefinition {
+  promptRules: StylePromptRules;
+  validate: (message: string, hints: StyleHints) => FormatValidation;
+  // Rewrites one of cx's own plain past-tense messages (deterministic
+  // groups, factual fallbacks) into this style.
+  fromPlain: (plainMessage: string, category?: FileCategory) => string;
+  // The style's own lead ("feat(api): ", "✨ "); a prefixed ticket goes
+  // after it so the header stays parseable.
+  lead?: RegExp;
+  // Final pass over every group's message once grouping is done.
+  render?: (
+    message: string,
+    files: readonly string[],
+    context: MessageContext
+  ) => string;
+}
+
+// Type used for messages cx writes itself, where there is no AI
+// classification to go on.
+const CATEGORY_CONVENTIONAL_HEADERS: Readonly<
+  Partial<Record<FileCategory, Pick<ConventionalHeader, "type" | "scope">>>
+> = {
+  LOCK: { type: "build", scope: "deps" },
+  DOC: { type: "docs" },
+  MINIFIED: { type: "build" },
+  GENERATED: { type: "chore" },
+  BUILD_ARTIFACT: { type: "build" },
+};
+
+const MESSAGE_STYLE_REGISTRY: Readonly<
+  Record<MessageStyle, MessageStyleDefinition>
+> = {
+  plain: {
+    promptRules: PLAIN_PROMPT_RULES,
+    validate: validatePlainMessage,
+    fromPlain: plainMessage => plainMessage,
+  },
+  conventional: {
+    promptRules: CONVENTIONAL_PROMPT_RULES,
+    validate: validateConventionalMessage,
+    lead: /^[a-z]+(?:\([^)]*\))?!?:\s*/,
+    fromPlain: (plainMessage, category) =>
+      formatConventionalHeader({
+        ...((category && CATEGORY_CONVENTIONAL_HEADERS[category]) ?? {
+          type: "chore",
+        }),
+        breaking: false,
+        subject: toImperativeSubject(plainMessage),
+      }),
+  },
+  gitmoji: {
+    promptRules: GITMOJI_PROMPT_RULES,
+    validate: validateGitmojiMessage,
+    lead: GITMOJI_LEAD,
+    fromPlain: (plainMessage, category) =>
+      `${(category && CATEGORY_GITMOJI[category]) ?? inferGitmoji(plainMessage)} ${plainMessage}`,
+  },
+  // The AI writes a plain subject; the template wraps it afterwards.
+  template: {
+    promptRules: PLAIN_PROMPT_RULES,
+    validate: validatePlainMessage,
+    fromPlain: plainMessage => plainMessage,
+    render: (message, files, context) =>
+      renderMessageTemplate(
+        context.template ?? DEFAULT_MESSAGE_TEMPLATE,
+        message,
+        files,
+        context
+      ),
+  },
+};
+
+export const getStylePromptRules = (style: MessageStyle): StylePromptRules =>
+  MESSAGE_STYLE_REGISTRY[style].promptRules;
+
+export const validateMessageStyle = (
+  message: string,
+  style: MessageStyle,
+  hints: StyleHints = {}
+): FormatValidation => {
+  if (!message || typeof message !== "string") return { isValid: false };
+  return MESSAGE_STYLE_REGISTRY[style].validate(message, hints);
+};
+
+export const applyMessageStyle = (
+  plainMessage: string,
+  style: MessageStyle,
+  category?: FileCategory
+): string => MESSAGE_STYLE_REGISTRY[style].fromPlain(plainMessage, category);
+
+export const renderStyledMessage = (
+  message: string,
+  files: readonly string[],
+  style: MessageStyle,
+  context: MessageContext = {}
+): string => {
+  const { render } = MESSAGE_STYLE_REGISTRY[style];
+  return render ? render(message, files, context) : message;
+};
+
+export interface TicketReferenceOptions extends MessageContext {
+  placement?: TicketPlacement;
+  style: MessageStyle;
+}
+
+// Adds the branch's ticket to a full commit message (subject + optional
+// body). A no-op when placement is unset, the branch has no ticket, the
+// message already mentions it, or the template places {ticket} itself.
+export const applyTicketReference = (
+  message: string,
+  options: TicketReferenceOptions
+): string => {
+  if (!options.placement) return message;
+  if (options.style === "template" && options.template?.includes("{ticket}")) {
+    return message;
+  }
+
+  const ticket = extractTicket(options.branch, options.ticketPatterns);
+  if (!ticket || message.includes(ticket)) return message;
+
+  const { subject, body } = splitCommitMessage(message);
+  switch (options.placement) {
+    case "prefix": {
+      const lead =
+        subject.match(MESSAGE_STYLE_REGISTRY[options.style].lead ?? /^/)?.[0] ??
+        "";
+      return composeCommitMessage(
+        `${lead}[${ticket}] ${subject.slice(lead.length)}`,
+        body
+      );
+    }
+    case "suffix":
+      return composeCommitMessage(`${subject} (${ticket})`, body);
+    case "trailer":
+      return composeCommitMessage(
+        subject,
+        [body, `${TICKET_TRAILER}: ${ticket}`].filter(Boolean).join("\n\n")
+      );
+  }
+};
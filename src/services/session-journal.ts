@@ -0,0 +1,95 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import type { JournalCommit, JournalSession } from "../types/common.js";
+import { JournalSessionSchema } from "../schemas/validation.js";
+import {
+  JOURNAL_DIR,
+  JOURNAL_FILE,
+  JOURNAL_MAX_SESSIONS,
+} from "../constants/config.js";
+
+// Records which commits cx created, per run, so `cx undo` can take back
+// exactly those. Journal writes never fail a commit: problems are warned
+// about and the run carries on.
+export class SessionJournal {
+  private readonly journalPath: string;
+
+  constructor(gitDir: string) {
+    this.journalPath = join(gitDir, JOURNAL_DIR, JOURNAL_FILE);
+  }
+
+  readSessions = async (): Promise<JournalSession[]> => {
+    let raw: string;
+    try {
+      raw = await readFile(this.journalPath, "utf-8");
+    } catch {
+      return [];
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      console.warn(`⚠️  Ignoring unreadable cx journal at ${this.journalPath}`);
+      return [];
+    }
+
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap(entry => {
+      const result = JournalSessionSchema.safeParse(entry);
+      return result.success ? [result.data] : [];
+    });
+  };
+
+  // Nothing is written until the session's first commit is recorded.
+  startSession = async (
+    startHead: string | null,
+    branch?: string
+  ): Promise<JournalSession> => {
+    const sessions = await this.readSessions();
+    const lastId = sessions.reduce(
+      (max, session) => Math.max(max, session.id),
+      0
+    );
+    return {
+      id: lastId + 1,
+      startedAt: new Date().toISOString(),
+      ...(branch && { branch }),
+      startHead,
+      commits: [],
+    };
+  };
+
+  recordCommit = async (
+    session: JournalSession,
+    commit: JournalCommit
+  ): Promise<void> => {
+    session.commits.push(commit);
+    await this.saveSession(session);
+  };
+
+  markUndone = async (session: JournalSession): Promise<void> => {
+    session.undoneAt = new Date().toISOString();
+    await this.saveSession(session);
+  };
+
+  private readonly saveSession = async (
+    session: JournalSession
+  ): Promise<void> => {
+    try {
+      const sessions = (await this.readSessions()).filter(
+        existing => existing.id !== session.id
+      );
+      sessions.push(session);
+      sessions.sort((a, b) => a.id - b.id);
+      await mkdir(dirname(this.journalPath), { recursive: true });
+      await writeFile(
+        this.journalPath,
+        `${JSON.stringify(sessions.slice(-JOURNAL_MAX_SESSIONS), null, 2)}\n`,
+        "utf-8"
+      );
+    } catch (error) {
+      console.warn(`⚠️  Could not update the cx journal: ${error}`);
+    }
+  };
+}
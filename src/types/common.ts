@@ -1,5 +1,51 @@
+export type AIProviderName =
+  | "gemini"
+  | "openai"
+  | "anthropic"
+  | "ollama"
+  | "mock";
+
+export interface ModelSettings {
+  name: string;
+  timeoutMs?: number; // overrides the size-based AI timeout
+  retries?: number; // extra attempts on this model before falling back
+  maxPromptTokens?: number; // context this model accepts; sizes the prompt
+  structuredOutput?: boolean; // false for servers that reject JSON Schema output
+}
+
+export type ClassifierOverrideCategory =
+  | "DOC"
+  | "MINIFIED"
+  | "GENERATED"
+  | "BUILD_ARTIFACT"
+  | "REGULAR";
+
+export type MessageStyle = "plain" | "conventional" | "gitmoji" | "template";
+
+export type TicketPlacement = "prefix" | "suffix" | "trailer";
+
 export interface CommitConfig {
   apiKey?: string;
+  provider?: AIProviderName;
+  baseUrl?: string;
+  models?: ModelSettings[];
+  ignore?: string[]; // globs cx leaves out of grouping and AI prompts
+  classifierOverrides?: Record<string, ClassifierOverrideCategory>; // glob -> category
+  maxFilesPerGroup?: number;
+  messageStyle?: MessageStyle;
+  messageTemplate?: string; // e.g. "[{ticket}] {Subject}"
+  commitBody?: boolean; // generate a bullet-list body under the subject
+  hunkGrouping?: boolean; // let AI groups split a file by hunk
+  reconcileChunks?: boolean; // merge near-identical groups across prompt chunks
+  ticketPatterns?: string[]; // regexes matched against the branch name
+  ticketPlacement?: TicketPlacement; // unset = don't add ticket references
+}
+
+export type ConfigSourceKind = "env" | "project" | "user" | "default";
+
+export interface ConfigSource {
+  kind: ConfigSourceKind;
+  path?: string;
 }
 
 export interface GitDiff {
@@ -11,6 +57,7 @@ export interface GitDiff {
   isDeleted: boolean;
   isRenamed: boolean;
   oldPath?: string;
+  hunk?: number; // set when this diff is one hunk of a split file
 }
 
 export interface CommitSuggestion {
@@ -21,6 +68,49 @@ export interface CommitSuggestion {
   confidence: number;
 }
 
+// Where an atomic run started; restored if any of its commits fails.
+export interface RepoSnapshot {
+  head: string | null; // null on a branch with no commits yet
+  indexTree: string;
+}
+
+export interface CommitRef {
+  sha: string;
+  subject: string;
+}
+
+export interface CommitIdentity {
+  name: string;
+  email: string;
+  date: string; // git's raw "<epoch seconds> <offset>" form
+}
+
+// Everything needed to recreate a commit with a different message.
+export interface CommitInfo {
+  sha: string;
+  tree: string;
+  parents: string[];
+  author: CommitIdentity;
+  committer: CommitIdentity;
+  message: string;
+}
+
+export interface JournalCommit {
+  sha: string;
+  message: string; // subject and body as committed
+  files: string[];
+}
+
+// One cx run that created commits, as recorded in .git/commitx/journal.json.
+export interface JournalSession {
+  id: number;
+  startedAt: string; // ISO timestamp
+  branch?: string;
+  startHead: string | null;
+  commits: JournalCommit[];
+  undoneAt?: string; // set by `cx undo` or an atomic rollback
+}
+
 export interface GitStatus {
   staged: string[];
   unstaged: string[];
@@ -28,21 +118,55 @@ export interface GitStatus {
   total: number;
 }
 
+// Commands that can print machine-readable output instead of text
+export interface OutputOptions {
+  json?: boolean;
+}
+
 export interface CommitOptions {
   message?: string;
   dryRun?: boolean;
   interactive?: boolean;
   all?: boolean; // Stage all files and commit together (traditional workflow)
   useCached?: boolean; // Reuse persisted AI results across runs (default: false)
+  body?: boolean; // Generate a commit body (overrides the commitBody config)
+  hunks?: boolean; // Group individual hunks (overrides the hunkGrouping config)
+  atomic?: boolean; // Roll back every commit of the run if one fails
+  amend?: boolean; // Fold the staged changes into HEAD with a new message
+  json?: boolean; // Print the dry-run plan as JSON (needs dryRun)
 }
 
 export interface CommitGroup {
-  files: string[];
+  files: string[]; // paths, or path#N ids for single hunks
   message: string;
   description?: string;
+  type?: string; // Conventional Commits type, when messageStyle is "conventional"
+  scope?: string;
+  body?: string; // wrapped bullet list, only when body generation is on
   confidence: number;
 }
 
 export interface AggregatedCommitResponse {
   groups: CommitGroup[];
 }
+
+export interface PullRequestArea {
+  area: string; // module, directory or concern
+  items: string[];
+}
+
+export interface PullRequestDescription {
+  title: string;
+  summary: string;
+  changes: PullRequestArea[];
+  testing: string[];
+}
+
+export type ChangelogSection = "Added" | "Changed" | "Fixed" | "Removed";
+
+export interface ChangelogEntry {
+  sha: string;
+  section: ChangelogSection;
+  text: string;
+  breaking?: boolean; // users must change something to upgrade
+}
@@ -52,6 +52,7 @@ declare module "simple-git" {
     diff(args?: string[]): Promise<string>;
     diffSummary(args?: string[]): Promise<any>;
     add(files: string | string[]): Promise<void>;
+    raw(args: string[]): Promise<string>;
     commit(message: string): Promise<any>;
     log(options?: { maxCount: number }): Promise<any>;
     getRemotes(verbose?: boolean): Promise<any[]>;
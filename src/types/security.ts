@@ -7,6 +7,6 @@ export interface ValidationResult {
 export interface ResourceLimits {
   maxFileSize: number; // in bytes
   maxDiffSize: number; // in characters
-  maxApiRequestSize: number; // in characters
+  maxPromptTokens: number; // estimated with the model's tokenizer ratio
   timeoutMs: number; // in milliseconds
 }
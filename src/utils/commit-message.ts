@@ -0,0 +1,88 @@
+import {
+  COMMIT_BODY_LINE_WIDTH,
+  SUSPICIOUS_COMMIT_PATTERNS,
+} from "../constants/security.js";
+
+export interface CommitMessageParts {
+  subject: string;
+  body?: string;
+}
+
+const BULLET = "- ";
+const BULLET_INDENT = "  ";
+
+// Git convention: subject, blank line, body. Extra blank lines between the
+// two are dropped; blank lines inside the body are kept.
+export const splitCommitMessage = (message: string): CommitMessageParts => {
+  const [subject, ...rest] = message.trim().split("\n");
+  const body = rest.join("\n").trim();
+  return body ? { subject: subject.trim(), body } : { subject: subject.trim() };
+};
+
+// `git commit -v` appends the diff below this line; it is not message text.
+const SCISSORS_LINE = /^# -+ >8 -+$/;
+
+// What git keeps of an edited message file: everything above the scissors
+// line, minus "#" comment lines.
+export const stripGitComments = (text: string): string => {
+  const lines = text.split("\n");
+  const scissors = lines.findIndex(line => SCISSORS_LINE.test(line));
+  return (scissors === -1 ? lines : lines.slice(0, scissors))
+    .filter(line => !line.startsWith("#"))
+    .join("\n");
+};
+
+export const composeCommitMessage = (subject: string, body?: string): string =>
+  body?.trim() ? `${subject.trim()}\n\n${body.trim()}` : subject.trim();
+
+// Greedy word wrap; a single word longer than the width (URL, path) gets a
+// line of its own rather than being split.
+export const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && candidate.length > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+const toBulletItems = (description: unknown): string[] => {
+  if (Array.isArray(description)) {
+    return description.filter(
+      (item): item is string => typeof item === "string"
+    );
+  }
+  if (typeof description !== "string") return [];
+  return description.split("\n");
+};
+
+// Turns the model's description (array of changes, or a newline/bullet
+// separated string) into a "- " list wrapped at the commit body width.
+// Items that trip the commit-message security patterns are dropped rather
+// than failing the whole commit.
+export const formatCommitBody = (
+  description: unknown,
+  width: number = COMMIT_BODY_LINE_WIDTH
+): string | undefined => {
+  const items = toBulletItems(description)
+    .map(item => item.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, "").trim())
+    .filter(Boolean)
+    .filter(item => !SUSPICIOUS_COMMIT_PATTERNS.some(p => p.test(item)));
+
+  if (items.length === 0) return undefined;
+
+  return items
+    .map(item =>
+      wrapText(item, width - BULLET.length)
+        .map((line, index) => (index === 0 ? BULLET : BULLET_INDENT) + line)
+        .join("\n")
+    )
+    .join("\n");
+};
@@ -0,0 +1,22 @@
+// Runs `worker` over `items` with at most `concurrency` calls in flight.
+// Results keep the order of `items`.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let currentIndex = 0;
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+
+  const runners = Array.from({ length: workerCount }, async () => {
+    while (currentIndex < items.length) {
+      const itemIndex = currentIndex++;
+      results[itemIndex] = await worker(items[itemIndex]);
+    }
+  });
+
+  await Promise.all(runners);
+
+  return results;
+};
@@ -48,6 +48,7 @@ export interface SanitizedDiff {
   isDeleted: boolean;
   isRenamed: boolean;
   oldPath?: string;
+  hunk?: number;
   sanitized: boolean;
   warnings: string[];
 }
@@ -135,6 +136,7 @@ export const sanitizeGitDiff = (
     isDeleted: boolean;
     isRenamed: boolean;
     oldPath?: string;
+    hunk?: number;
   },
   baseDir: string
 ): SanitizedDiff => {
@@ -152,6 +154,7 @@ export const sanitizeGitDiff = (
     isDeleted: diff.isDeleted,
     isRenamed: diff.isRenamed,
     oldPath: diff.oldPath ? sanitizeFilePath(diff.oldPath, baseDir) : undefined,
+    hunk: diff.hunk,
     sanitized: warnings.length > 0,
     warnings,
   };
@@ -0,0 +1,162 @@
+import type { GitDiff } from "../types/common.js";
+import { classifyFile, type ClassifierOverrides } from "./file-classifier.js";
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
+
+// Header lines a partial patch can replay as-is. Anything else (mode
+// changes, binary markers, rename/copy info) keeps the file whole.
+const PLAIN_HEADER_LINE = /^(diff --git |index |--- |\+\+\+ )/;
+
+export interface DiffHunk {
+  index: number; // 1-based, as used in hunk ids
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  context: string; // text after the closing @@
+  lines: string[]; // body lines, without the @@ header
+}
+
+export interface FilePatch {
+  file: string;
+  header: string[];
+  hunks: DiffHunk[];
+}
+
+export interface HunkExpansion {
+  diffs: GitDiff[];
+  patches: Map<string, FilePatch>; // keyed by file path
+}
+
+export const hunkId = (file: string, index: number): string =>
+  `${file}#${index}`;
+
+// The id a diff goes by in prompts and commit groups: the plain path for
+// whole files, `path#N` for a single hunk.
+export const diffUnitId = (diff: Pick<GitDiff, "file" | "hunk">): string =>
+  diff.hunk === undefined ? diff.file : hunkId(diff.file, diff.hunk);
+
+// Parses a single-file `git diff -U0` into its hunks. Returns null when the
+// diff carries anything a hunk-by-hunk `git apply` could not reproduce.
+export const parseFilePatch = (
+  file: string,
+  diffText: string
+): FilePatch | null => {
+  const header: string[] = [];
+  const hunks: DiffHunk[] = [];
+
+  for (const line of diffText.split("\n")) {
+    const match = HUNK_HEADER.exec(line);
+    if (match) {
+      hunks.push({
+        index: hunks.length + 1,
+        oldStart: Number(match[1]),
+        oldLines: match[2] === undefined ? 1 : Number(match[2]),
+        newStart: Number(match[3]),
+        newLines: match[4] === undefined ? 1 : Number(match[4]),
+        context: match[5],
+        lines: [],
+      });
+      continue;
+    }
+
+    const current = hunks[hunks.length - 1];
+    if (current) {
+      if (/^[ +\-\\]/.test(line)) current.lines.push(line);
+      continue;
+    }
+    if (line === "") continue;
+    if (!PLAIN_HEADER_LINE.test(line)) return null;
+    header.push(line);
+  }
+
+  const hasFileHeader =
+    header.some(line => line.startsWith("--- ")) &&
+    header.some(line => line.startsWith("+++ "));
+  return hasFileHeader && hunks.length > 0 ? { file, header, hunks } : null;
+};
+
+const countLines = (lines: readonly string[], marker: string): number =>
+  lines.filter(line => line.startsWith(marker)).length;
+
+const formatHunkHeader = (
+  hunk: DiffHunk,
+  oldStart: number,
+  newStart: number
+): string =>
+  `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@${hunk.context}`;
+
+// Only modified, regular (AI-grouped) files with two or more hunks are
+// split; everything else stays a whole-file diff.
+export const splitDiffsIntoHunks = (
+  diffs: GitDiff[],
+  overrides: ClassifierOverrides = {}
+): HunkExpansion => {
+  const expanded: GitDiff[] = [];
+  const patches = new Map<string, FilePatch>();
+
+  for (const diff of diffs) {
+    const splittable =
+      !diff.isNew &&
+      !diff.isDeleted &&
+      !diff.isRenamed &&
+      classifyFile(diff.file, overrides).category === "REGULAR";
+    const patch = splittable ? parseFilePatch(diff.file, diff.changes) : null;
+    if (!patch || patch.hunks.length < 2) {
+      expanded.push(diff);
+      continue;
+    }
+
+    patches.set(diff.file, patch);
+    for (const hunk of patch.hunks) {
+      expanded.push({
+        ...diff,
+        hunk: hunk.index,
+        additions: countLines(hunk.lines, "+"),
+        deletions: countLines(hunk.lines, "-"),
+        changes: [
+          ...patch.header,
+          formatHunkHeader(hunk, hunk.oldStart, hunk.newStart),
+          ...hunk.lines,
+        ].join("\n"),
+      });
+    }
+  }
+
+  return { diffs: expanded, patches };
+};
+
+// Zero-context hunks apply at exact line numbers. The old side shifts by the
+// hunks of this file already in the index; the new side also counts the
+// hunks selected here, but not the earlier ones still left out.
+export const buildHunkPatch = (
+  patch: FilePatch,
+  selected: readonly number[],
+  applied: ReadonlySet<number> = new Set()
+): string => {
+  const chosen = new Set(selected);
+  const lines = [...patch.header];
+  let appliedShift = 0;
+  let pendingShift = 0;
+
+  for (const hunk of patch.hunks) {
+    const delta = hunk.newLines - hunk.oldLines;
+    if (chosen.has(hunk.index)) {
+      lines.push(
+        formatHunkHeader(
+          hunk,
+          hunk.oldStart + appliedShift,
+          hunk.newStart - pendingShift
+        ),
+        ...hunk.lines
+      );
+    }
+    if (applied.has(hunk.index)) {
+      appliedShift += delta;
+    } else if (!chosen.has(hunk.index)) {
+      pendingShift += delta;
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+};
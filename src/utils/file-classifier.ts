@@ -1,4 +1,6 @@
 import * as path from "path";
+import type { ClassifierOverrideCategory } from "../types/common.js";
+import { matchesGlob } from "./glob.js";
 
 export type FileCategory =
   | "LOCK"
@@ -136,7 +138,32 @@ const isBuildArtifact = (filePath: string): boolean => {
   return false;
 };
 
-export const classifyFile = (filePath: string): Classification => {
+export type ClassifierOverrides = Readonly<
+  Record<string, ClassifierOverrideCategory>
+>;
+
+const overriddenClassification = (
+  filePath: string,
+  overrides: ClassifierOverrides
+): Classification | undefined => {
+  for (const [pattern, category] of Object.entries(overrides)) {
+    if (!matchesGlob(filePath, pattern)) continue;
+    return category === "REGULAR"
+      ? { category }
+      : { category, deterministicMessage: DETERMINISTIC_MESSAGES[category] };
+  }
+  return undefined;
+};
+
+// Project overrides (first matching glob wins) take precedence over the
+// built-in rules.
+export const classifyFile = (
+  filePath: string,
+  overrides: ClassifierOverrides = {}
+): Classification => {
+  const overridden = overriddenClassification(filePath, overrides);
+  if (overridden) return overridden;
+
   const baseName = path.basename(filePath);
 
   const lockEco = lockEcosystem(baseName);
@@ -0,0 +1,59 @@
+import * as path from "path";
+
+const regexCache = new Map<string, RegExp>();
+
+const escapeRegex = (char: string): string =>
+  /[.+^${}()|[\]\\]/.test(char) ? `\\${char}` : char;
+
+// gitignore-flavoured subset: `*` and `?` stay within a path segment, `**`
+// spans segments, a trailing `/` means "everything below", and patterns
+// without a slash match the basename anywhere in the tree.
+const compileGlob = (pattern: string): RegExp => {
+  let source = pattern.trim().replace(/^\.\//, "");
+  const anchored =
+    source.startsWith("/") || source.replace(/\/$/, "").includes("/");
+  if (source.endsWith("/")) source = `${source}**`;
+  source = source.replace(/^\//, "");
+
+  let regex = "";
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "*" && source[i + 1] === "*") {
+      const followedBySlash = source[i + 2] === "/";
+      regex += followedBySlash ? "(?:.*/)?" : ".*";
+      i += followedBySlash ? 2 : 1;
+    } else if (char === "*") {
+      regex += "[^/]*";
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else {
+      regex += escapeRegex(char);
+    }
+  }
+
+  return new RegExp(anchored ? `^${regex}$` : `(?:^|/)${regex}$`);
+};
+
+export const toRepoRelativePath = (
+  filePath: string,
+  baseDir: string = process.cwd()
+): string => {
+  const relative = path.isAbsolute(filePath)
+    ? path.relative(baseDir, filePath)
+    : filePath;
+  return relative.split(path.sep).join("/").replace(/^\.\//, "");
+};
+
+export const matchesGlob = (filePath: string, pattern: string): boolean => {
+  let compiled = regexCache.get(pattern);
+  if (!compiled) {
+    compiled = compileGlob(pattern);
+    regexCache.set(pattern, compiled);
+  }
+  return compiled.test(toRepoRelativePath(filePath));
+};
+
+export const matchesAnyGlob = (
+  filePath: string,
+  patterns: readonly string[] = []
+): boolean => patterns.some(pattern => matchesGlob(filePath, pattern));
@@ -0,0 +1,107 @@
+export interface ExtractedJson {
+  value: unknown;
+  repaired: boolean; // the response was cut off and had to be closed
+}
+
+// A place the text can be cut and still be valid JSON once `closers` is
+// appended: just after an object element of an array directly inside the
+// top-level object, e.g. after a whole group of `{"groups":[...]}`.
+interface CutPoint {
+  position: number;
+  closers: string;
+}
+
+// Closes a response that ended mid-object (output token limit, dropped
+// stream) by dropping everything after the last complete element. A
+// half-written element is never kept: its text or list may stop anywhere,
+// and a group committed with half its description is worse than one the
+// focused retry asks for again.
+const repairTruncated = (
+  candidate: string,
+  cuts: readonly CutPoint[]
+): unknown => {
+  for (const cut of [...cuts].reverse()) {
+    try {
+      return JSON.parse(`${candidate.slice(0, cut.position)}${cut.closers}`);
+    } catch {
+      // cut further back
+    }
+  }
+  return undefined;
+};
+
+// Scans from the `{` at `start` to its matching `}`, tracking strings so
+// braces inside them don't count. Returns the object's text, or the cut
+// points to repair it with when the text ends first (positions relative to
+// `start`).
+const scanObject = (
+  text: string,
+  start: number
+): { complete: string } | { truncated: string; cuts: CutPoint[] } => {
+  let closers = "";
+  let inString = false;
+  let escaped = false;
+  const cuts: CutPoint[] = [];
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      closers = (char === "{" ? "}" : "]") + closers;
+    } else if (char === "}" || char === "]") {
+      closers = closers.slice(1);
+      if (closers === "") return { complete: text.slice(start, i + 1) };
+      if (char === "}" && closers === "]}") {
+        cuts.push({ position: i + 1 - start, closers });
+      }
+    }
+  }
+
+  return { truncated: text.slice(start), cuts };
+};
+
+// Finds the JSON object in a model's answer. Prose or a markdown fence
+// around it is skipped, and so are brace pairs in the prose that are not
+// JSON ("use {ticket} here"). The first candidate that parses wins; an
+// answer that ends inside an object is repaired rather than rejected.
+export const extractJsonObject = (text: string): ExtractedJson | undefined => {
+  for (let start = text.indexOf("{"); start !== -1; ) {
+    const scanned = scanObject(text, start);
+    if ("complete" in scanned) {
+      try {
+        return { value: JSON.parse(scanned.complete), repaired: false };
+      } catch {
+        start = text.indexOf("{", start + 1);
+        continue;
+      }
+    }
+
+    const value = repairTruncated(scanned.truncated, scanned.cuts);
+    if (value !== undefined) return { value, repaired: true };
+    // An unbalanced "{" in prose swallowed the rest; try the next one.
+    start = text.indexOf("{", start + 1);
+  }
+  return undefined;
+};
+
+// The JSON object of an AI answer, with the errors every response parser
+// reports.
+export const parseJsonResponse = (response: string): ExtractedJson => {
+  const extracted = extractJsonObject(response);
+  if (!extracted) {
+    throw new Error(
+      response.includes("{")
+        ? "Failed to parse AI JSON response: no complete JSON object found"
+        : "No valid JSON found in AI response"
+    );
+  }
+  return extracted;
+};
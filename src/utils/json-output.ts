@@ -0,0 +1,153 @@
+import type {
+  CommitGroup,
+  ConfigSource,
+  GitDiff,
+  GitStatus,
+} from "../types/common.js";
+import type {
+  PrivacyOutcome,
+  SkippedFile,
+} from "../services/ai-privacy-gate.js";
+
+// Bumped only for changes that break existing consumers; new optional
+// fields keep the version.
+export const JSON_OUTPUT_VERSION = 1;
+
+export type JsonFileStatus = "added" | "modified" | "deleted" | "renamed";
+
+export interface JsonDiffFile {
+  file: string;
+  status: JsonFileStatus;
+  oldPath?: string;
+  hunk?: number;
+  additions: number;
+  deletions: number;
+}
+
+export interface StatusJson {
+  version: number;
+  repository: string;
+  branch: string | null;
+  staged: string[];
+  unstaged: string[];
+  untracked: string[];
+  total: number;
+  lastCommit: string | null;
+}
+
+export interface DiffJson {
+  version: number;
+  files: JsonDiffFile[];
+  totals: { files: number; additions: number; deletions: number };
+}
+
+export interface JsonCommitGroup {
+  files: string[];
+  message: string;
+  body?: string;
+  type?: string;
+  scope?: string;
+  confidence: number;
+}
+
+export interface CommitPlanJson {
+  version: number;
+  dryRun: true;
+  groups: JsonCommitGroup[];
+  skippedFiles: SkippedFile[];
+  privacy: PrivacyOutcome;
+}
+
+export interface ConfigValueJson {
+  value: unknown;
+  source: ConfigSource;
+}
+
+export interface ConfigJson {
+  version: number;
+  values: Record<string, ConfigValueJson>;
+}
+
+// With --json, stdout carries exactly one JSON document. Everything the
+// commands print for people (progress, skipped-file notes, style
+// corrections) goes through console.log, so it is moved to stderr while
+// `run` runs and put back afterwards.
+export const withConsoleOnStderr = async <T>(
+  enabled: boolean | undefined,
+  run: () => Promise<T>
+): Promise<T> => {
+  if (!enabled) return run();
+  const log = console.log;
+  console.log = console.error;
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+  }
+};
+
+export const printJson = (payload: object): void => {
+  process.stdout.write(`${JSON.stringify(payload, null, 2)}\n`);
+};
+
+const fileStatus = (diff: GitDiff): JsonFileStatus => {
+  if (diff.isNew) return "added";
+  if (diff.isDeleted) return "deleted";
+  if (diff.isRenamed) return "renamed";
+  return "modified";
+};
+
+export const toJsonDiffFile = (diff: GitDiff): JsonDiffFile => ({
+  file: diff.file,
+  status: fileStatus(diff),
+  ...(diff.oldPath && { oldPath: diff.oldPath }),
+  ...(diff.hunk !== undefined && { hunk: diff.hunk }),
+  additions: diff.additions,
+  deletions: diff.deletions,
+});
+
+export const buildStatusJson = (
+  status: GitStatus,
+  repository: { name: string; branch: string | null },
+  lastCommit: string | null
+): StatusJson => ({
+  version: JSON_OUTPUT_VERSION,
+  repository: repository.name,
+  branch: repository.branch ?? null,
+  staged: status.staged,
+  unstaged: status.unstaged,
+  untracked: status.untracked,
+  total: status.total,
+  lastCommit,
+});
+
+export const buildDiffJson = (diffs: readonly GitDiff[]): DiffJson => ({
+  version: JSON_OUTPUT_VERSION,
+  files: diffs.map(toJsonDiffFile),
+  totals: {
+    files: diffs.length,
+    additions: diffs.reduce((sum, diff) => sum + diff.additions, 0),
+    deletions: diffs.reduce((sum, diff) => sum + diff.deletions, 0),
+  },
+});
+
+// Only the fields a consumer can act on; `description` is the raw AI text
+// that `body` was rendered from.
+export const buildCommitPlanJson = (
+  groups: readonly CommitGroup[],
+  skippedFiles: SkippedFile[],
+  privacy: PrivacyOutcome
+): CommitPlanJson => ({
+  version: JSON_OUTPUT_VERSION,
+  dryRun: true,
+  groups: groups.map(group => ({
+    files: group.files,
+    message: group.message,
+    ...(group.body && { body: group.body }),
+    ...(group.type && { type: group.type }),
+    ...(group.scope && { scope: group.scope }),
+    confidence: group.confidence,
+  })),
+  skippedFiles,
+  privacy,
+});
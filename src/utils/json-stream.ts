@@ -0,0 +1,65 @@
+// Feeds text as it streams in and calls `onItem` with each element of the
+// `key` array once that element is complete, e.g. every group of
+// `{"groups":[{...},{...}]}` before the closing brackets arrive. Only object
+// elements are reported; one that fails to parse is skipped and left for the
+// full response parser to deal with.
+export const createArrayItemStream = (
+  key: string,
+  onItem: (item: unknown) => void
+): ((delta: string) => void) => {
+  const opening = new RegExp(`"${key}"\\s*:\\s*\\[`);
+  let text = "";
+  let position = 0;
+  let inArray = false;
+  let done = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+
+  return (delta: string): void => {
+    if (done) return;
+    text += delta;
+
+    if (!inArray) {
+      const match = opening.exec(text);
+      if (!match) return;
+      inArray = true;
+      position = match.index + match[0].length;
+    }
+
+    for (; position < text.length; position++) {
+      const char = text[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        if (depth === 0 && char === "{") itemStart = position;
+        depth++;
+      } else if (char === "}" || char === "]") {
+        if (depth === 0) {
+          done = true; // the array itself closed
+          return;
+        }
+        depth--;
+        if (depth === 0 && itemStart !== -1) {
+          const raw = text.slice(itemStart, position + 1);
+          itemStart = -1;
+          let item: unknown;
+          try {
+            item = JSON.parse(raw);
+          } catch {
+            continue; // the full response parser reports invalid JSON
+          }
+          onItem(item);
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,70 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { CommitConfig } from "../types/common.js";
+import { ProjectConfigSchema } from "../schemas/validation.js";
+import {
+  PROJECT_CONFIG_FILE,
+  PROJECT_CONFIG_PACKAGE_KEY,
+} from "../constants/config.js";
+import { sanitizeError } from "./security.js";
+
+export interface ProjectConfig {
+  path: string;
+  config: CommitConfig;
+}
+
+// Synchronous twin of validateGitRepository's walk: ConfigManager loads in
+// its constructor, before GitService has chdir'd to the repository root.
+export const findRepositoryRoot = (startDir: string): string | null => {
+  let currentDir = path.resolve(startDir);
+  const rootDir = path.parse(currentDir).root;
+
+  while (currentDir !== rootDir) {
+    if (fs.existsSync(path.join(currentDir, ".git"))) return currentDir;
+    currentDir = path.dirname(currentDir);
+  }
+  return null;
+};
+
+const readProjectSettings = (
+  repoRoot: string
+): { path: string; data: unknown } | null => {
+  const rcPath = path.join(repoRoot, PROJECT_CONFIG_FILE);
+  if (fs.existsSync(rcPath)) {
+    return { path: rcPath, data: JSON.parse(fs.readFileSync(rcPath, "utf-8")) };
+  }
+
+  const packagePath = path.join(repoRoot, "package.json");
+  if (fs.existsSync(packagePath)) {
+    const pkg = JSON.parse(fs.readFileSync(packagePath, "utf-8"));
+    if (pkg && typeof pkg === "object" && PROJECT_CONFIG_PACKAGE_KEY in pkg) {
+      return { path: packagePath, data: pkg[PROJECT_CONFIG_PACKAGE_KEY] };
+    }
+  }
+
+  return null;
+};
+
+// `.commitxrc.json` wins over the package.json key when both exist.
+export const loadProjectConfig = (startDir: string): ProjectConfig | null => {
+  const repoRoot = findRepositoryRoot(startDir);
+  if (!repoRoot) return null;
+
+  try {
+    const settings = readProjectSettings(repoRoot);
+    if (!settings) return null;
+
+    const result = ProjectConfigSchema.safeParse(settings.data);
+    if (!result.success) {
+      console.warn(
+        `Invalid project config in ${settings.path}, ignoring it:`,
+        result.error.issues.map(issue => issue.message).join(", ")
+      );
+      return null;
+    }
+    return { path: settings.path, config: result.data };
+  } catch (error) {
+    console.warn("Failed to load project config:", sanitizeError(error));
+    return null;
+  }
+};
@@ -3,10 +3,14 @@ import * as fs from "fs";
 import { promisify } from "util";
 import type { ValidationResult } from "../types/security.js";
 import {
+  COMMIT_BODY_LINE_WIDTH,
+  COMMIT_BODY_MAX_LENGTH,
+  COMMIT_SUBJECT_MAX_LENGTH,
   DEFAULT_LIMITS,
   SUSPICIOUS_COMMIT_PATTERNS,
   SUSPICIOUS_PATTERNS,
 } from "../constants/security.js";
+import { composeCommitMessage, splitCommitMessage } from "./commit-message.js";
 
 const access = promisify(fs.access);
 
@@ -51,42 +55,87 @@ export const validateAndSanitizePath = (
   }
 };
 
-export const validateCommitMessage = (message: string): ValidationResult => {
-  if (!message || typeof message !== "string") {
+const findSuspiciousPattern = (text: string): boolean =>
+  SUSPICIOUS_COMMIT_PATTERNS.some(pattern => pattern.test(text));
+
+export const validateCommitSubject = (subject: string): ValidationResult => {
+  if (subject.length === 0) {
     return {
       isValid: false,
-      error: "Commit message must be a non-empty string",
+      error: "Commit message cannot be empty",
     };
   }
 
-  const trimmed = message.trim();
+  if (subject.length > COMMIT_SUBJECT_MAX_LENGTH) {
+    return {
+      isValid: false,
+      error: `Commit message must be ${COMMIT_SUBJECT_MAX_LENGTH} characters or less`,
+    };
+  }
 
-  if (trimmed.length === 0) {
+  if (findSuspiciousPattern(subject)) {
     return {
       isValid: false,
-      error: "Commit message cannot be empty",
+      error: "Commit message contains potentially malicious content",
     };
   }
 
-  if (trimmed.length > 200) {
+  return { isValid: true, sanitizedValue: subject };
+};
+
+// Lines may only run past the wrap width when they can't be broken (a long
+// URL or path with no spaces).
+export const validateCommitBody = (body: string): ValidationResult => {
+  if (body.length > COMMIT_BODY_MAX_LENGTH) {
     return {
       isValid: false,
-      error: "Commit message must be 200 characters or less",
+      error: `Commit body must be ${COMMIT_BODY_MAX_LENGTH} characters or less`,
     };
   }
 
-  for (const pattern of SUSPICIOUS_COMMIT_PATTERNS) {
-    if (pattern.test(trimmed)) {
-      return {
-        isValid: false,
-        error: "Commit message contains potentially malicious content",
-      };
-    }
+  const unwrappedLine = body
+    .split("\n")
+    .findIndex(
+      line => line.length > COMMIT_BODY_LINE_WIDTH && /\S\s+\S/.test(line)
+    );
+  if (unwrappedLine !== -1) {
+    return {
+      isValid: false,
+      error: `Commit body line ${unwrappedLine + 1} exceeds ${COMMIT_BODY_LINE_WIDTH} characters`,
+    };
+  }
+
+  if (findSuspiciousPattern(body)) {
+    return {
+      isValid: false,
+      error: "Commit body contains potentially malicious content",
+    };
+  }
+
+  return { isValid: true, sanitizedValue: body };
+};
+
+export const validateCommitMessage = (message: string): ValidationResult => {
+  if (!message || typeof message !== "string") {
+    return {
+      isValid: false,
+      error: "Commit message must be a non-empty string",
+    };
+  }
+
+  const { subject, body } = splitCommitMessage(message);
+
+  const subjectResult = validateCommitSubject(subject);
+  if (!subjectResult.isValid) return subjectResult;
+
+  if (body) {
+    const bodyResult = validateCommitBody(body);
+    if (!bodyResult.isValid) return bodyResult;
   }
 
   return {
     isValid: true,
-    sanitizedValue: trimmed,
+    sanitizedValue: composeCommitMessage(subject, body),
   };
 };
 
@@ -26,6 +26,8 @@ export class LightSpinner {
   private currentFrame = 0;
   private timer?: ReturnType<typeof setTimeout>;
   private lastLength = 0;
+  private detailLines: string[] = [];
+  private lastDetailCount = 0;
 
   private static readonly DEFAULT_FRAMES = [
     "⠋",
@@ -77,6 +79,8 @@ export class LightSpinner {
     this.currentFrame = 0;
 
     this.stream.write("\u001B[?25l");
+    // Ctrl+C would otherwise leave the cursor hidden.
+    process.once("SIGINT", this.interrupt);
 
     this.render();
     this.timer = setInterval(() => {
@@ -97,6 +101,7 @@ export class LightSpinner {
       clearInterval(this.timer);
       this.timer = undefined;
     }
+    process.off("SIGINT", this.interrupt);
 
     if (this.stream.isTTY) {
       this.clear();
@@ -158,6 +163,21 @@ export class LightSpinner {
     return this.text;
   }
 
+  // Extra lines drawn below the spinner while it runs, such as a live
+  // preview. Each is flattened to one line (AI text can hold newlines or
+  // escape codes) and cut to the terminal width so redraws stay in place.
+  set details(lines: string[]) {
+    this.detailLines = lines.map(line =>
+      // eslint-disable-next-line no-control-regex
+      line.replace(/[\s\x00-\x1f\x7f]+/g, " ").trim()
+    );
+  }
+
+  private readonly interrupt = (): void => {
+    this.stop();
+    process.exit(130);
+  };
+
   private render(): void {
     if (!this.stream.isTTY) {
       return;
@@ -171,16 +191,26 @@ export class LightSpinner {
         : lightColors.cyan
     ) as (text: string) => string;
     const line = `${colorFn(frame)} ${this.text}`;
+    const width = Math.max(10, (this.stream.columns || 80) - 1);
+    const details = this.detailLines.map(detail =>
+      lightColors.gray(`  ${detail}`.slice(0, width))
+    );
 
     this.clear();
-    this.stream.write(line);
-    this.lastLength = this.stripAnsi(line).length;
+    this.stream.write([line, ...details].join("\n"));
+    this.lastLength = this.stripAnsi(details.at(-1) ?? line).length;
+    this.lastDetailCount = details.length;
 
     this.currentFrame = (this.currentFrame + 1) % this.frames.length;
   }
 
   private clear(): void {
-    if (this.lastLength > 0) {
+    if (this.lastDetailCount > 0) {
+      // back to the spinner line, then erase everything below it
+      this.stream.write(`\r\u001B[${this.lastDetailCount}A\u001B[0J`);
+      this.lastDetailCount = 0;
+      this.lastLength = 0;
+    } else if (this.lastLength > 0) {
       this.stream.write(`\r${" ".repeat(this.lastLength)}\r`);
     }
   }
@@ -0,0 +1,27 @@
+import { DEFAULT_TICKET_PATTERNS } from "../constants/config.js";
+
+const regexCache = new Map<string, RegExp>();
+
+const compilePattern = (pattern: string): RegExp => {
+  let compiled = regexCache.get(pattern);
+  if (!compiled) {
+    compiled = new RegExp(pattern);
+    regexCache.set(pattern, compiled);
+  }
+  return compiled;
+};
+
+// First pattern that matches wins. A pattern's first capture group is the
+// ticket when it has one (`^feature/(\d+)-` -> "123"), otherwise the whole
+// match is. Patterns are used exactly as written, case included.
+export const extractTicket = (
+  branch: string | null | undefined,
+  patterns: readonly string[] = DEFAULT_TICKET_PATTERNS
+): string | undefined => {
+  if (!branch) return undefined;
+  for (const pattern of patterns) {
+    const match = branch.match(compilePattern(pattern));
+    if (match) return match[1] ?? match[0];
+  }
+  return undefined;
+};
@@ -0,0 +1,140 @@
+import type {
+  AIProviderName,
+  ClassifierOverrideCategory,
+  GitDiff,
+} from "../types/common.js";
+import type { SanitizedDiff } from "./data-sanitization.js";
+import { classifyFile, type FileCategory } from "./file-classifier.js";
+
+// Characters per token for ASCII text. No tokenizer ships with cx, so these
+// are averages over source code and diffs for each tokenizer family; code
+// tokenizes denser than prose, hence the values below the usual 4.
+export interface TokenEstimator {
+  charsPerToken: number;
+}
+
+export const DEFAULT_TOKEN_ESTIMATOR: TokenEstimator = { charsPerToken: 3.5 };
+
+// First match wins; checked before the provider default so a gateway
+// serving several model families still gets the right estimate.
+const MODEL_CHARS_PER_TOKEN: ReadonlyArray<readonly [RegExp, number]> = [
+  [/^(gpt-4o|gpt-4\.1|gpt-5|o\d)/i, 3.8], // o200k_base
+  [/^gpt-/i, 3.4], // cl100k_base
+  [/^claude/i, 3.2],
+  [/^gemini|^gemma/i, 3.6],
+  [/llama|mistral|mixtral|qwen|deepseek|phi/i, 3.3],
+];
+
+const PROVIDER_CHARS_PER_TOKEN: Readonly<Record<AIProviderName, number>> = {
+  gemini: 3.6,
+  openai: 3.6,
+  anthropic: 3.2,
+  ollama: 3.3,
+  mock: DEFAULT_TOKEN_ESTIMATOR.charsPerToken,
+};
+
+export const tokenEstimatorFor = (
+  provider?: AIProviderName,
+  model?: string
+): TokenEstimator => {
+  const byModel = model
+    ? MODEL_CHARS_PER_TOKEN.find(([pattern]) => pattern.test(model))
+    : undefined;
+  if (byModel) return { charsPerToken: byModel[1] };
+  return provider
+    ? { charsPerToken: PROVIDER_CHARS_PER_TOKEN[provider] }
+    : DEFAULT_TOKEN_ESTIMATOR;
+};
+
+// Non-ASCII characters (CJK, emoji, accented letters) are counted as a
+// token each: tokenizers rarely merge them the way they merge ASCII.
+export const estimateTokens = (
+  text: string,
+  estimator: TokenEstimator = DEFAULT_TOKEN_ESTIMATOR
+): number => {
+  let nonAscii = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) > 127) nonAscii++;
+  }
+  return (
+    Math.ceil((text.length - nonAscii) / estimator.charsPerToken) + nonAscii
+  );
+};
+
+// The diff minimizer measures in characters; this is the budget it gets.
+export const charsForTokens = (
+  tokens: number,
+  estimator: TokenEstimator = DEFAULT_TOKEN_ESTIMATOR
+): number => Math.floor(tokens * estimator.charsPerToken);
+
+const CATEGORY_WEIGHTS: Readonly<Record<FileCategory, number>> = {
+  REGULAR: 1,
+  MANIFEST: 0.8,
+  DOC: 0.6,
+  GENERATED: 0.3,
+  MINIFIED: 0.2,
+  BUILD_ARTIFACT: 0.2,
+  LOCK: 0.2,
+};
+
+const TEST_FILE = /(^|\/)(__tests__|tests?|spec)\/|\.(test|spec)\.[^/]+$/i;
+
+// How much of the prompt a file deserves relative to the others. Size is
+// left out on purpose: a large diff already asks for more, and letting it
+// weigh more as well is how big refactors crowded out small files. What
+// counts is the kind of file and how much of its diff is additions, which
+// show the new state the message has to describe.
+export const fileSignificance = (
+  diff: Pick<
+    GitDiff | SanitizedDiff,
+    "file" | "additions" | "deletions" | "isDeleted"
+  >,
+  classifierOverrides: Readonly<Record<string, ClassifierOverrideCategory>> = {}
+): number => {
+  const { category } = classifyFile(diff.file, classifierOverrides);
+  const changed = diff.additions + diff.deletions;
+  const additions = changed > 0 ? 0.5 + diff.additions / changed : 1;
+  const test = TEST_FILE.test(diff.file) ? 0.5 : 1;
+  const deleted = diff.isDeleted ? 0.5 : 1;
+  return CATEGORY_WEIGHTS[category] * test * deleted * additions;
+};
+
+export interface BudgetBounds {
+  min: number; // every file gets this much, or its demand if smaller
+  max: number;
+}
+
+// Splits `total` tokens in proportion to `weights`, never giving a file more
+// than it asks for (`demands`) or than `bounds.max`. Whatever a file leaves
+// unused is shared out again among the files that still want more, so small
+// files keep their full diff and the large ones split the rest.
+export const allocateTokenBudgets = (
+  demands: readonly number[],
+  weights: readonly number[],
+  total: number,
+  bounds: BudgetBounds
+): number[] => {
+  const caps = demands.map(demand => Math.min(bounds.max, Math.max(0, demand)));
+  const budgets = caps.map(cap => Math.min(bounds.min, cap));
+  let remaining = total - budgets.reduce((sum, budget) => sum + budget, 0);
+
+  let open = budgets.flatMap((budget, i) => (budget < caps[i] ? [i] : []));
+  while (remaining >= 1 && open.length > 0) {
+    const weightSum = open.reduce((sum, i) => sum + Math.max(weights[i], 0), 0);
+    let granted = 0;
+    for (const i of open) {
+      const share =
+        weightSum > 0
+          ? (remaining * Math.max(weights[i], 0)) / weightSum
+          : remaining / open.length;
+      const grant = Math.min(share, caps[i] - budgets[i]);
+      budgets[i] += grant;
+      granted += grant;
+    }
+    remaining -= granted;
+    open = open.filter(i => budgets[i] < caps[i]);
+    if (granted === 0) break;
+  }
+
+  return budgets.map(Math.floor);
+};
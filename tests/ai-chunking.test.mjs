@@ -0,0 +1,129 @@
+import assert from "node:assert/strict";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import { cliIn, git, withRepo, writeUserConfig } from "./helpers.mjs";
+
+const load = async () => (await import("../dist/index.js")).aiChunking;
+
+const diff = (file, hunk) => ({
+  file,
+  additions: 1,
+  deletions: 0,
+  changes: "+x",
+  isNew: false,
+  isDeleted: false,
+  isRenamed: false,
+  ...(hunk === undefined ? {} : { hunk }),
+});
+
+const group = (files, message, extra = {}) => ({ files, message, confidence: 0.9, ...extra });
+
+// Letters rather than digits, so the minimizer doesn't collapse the lines
+// as repetitive.
+const word = i => (i < 26 ? "" : word(Math.floor(i / 26) - 1)) + String.fromCharCode(97 + (i % 26));
+
+test("planPromptChunks leaves a fitting change set alone and splits along directories", async () => {
+  const { planPromptChunks } = await load();
+  const diffs = [
+    diff("src/b.ts"),
+    diff("lib/x.ts"),
+    diff("src/a.ts", 2),
+    diff("lib/y.ts"),
+    diff("src/a.ts", 1),
+    diff("docs/guide.md"),
+  ];
+
+  assert.deepEqual(planPromptChunks(diffs, () => true), [diffs]);
+
+  const chunks = planPromptChunks(diffs, chunk => chunk.length <= 3);
+  assert.deepEqual(
+    chunks.map(chunk => chunk.map(d => (d.hunk ? `${d.file}#${d.hunk}` : d.file))),
+    [["docs/guide.md", "lib/x.ts", "lib/y.ts"], ["src/a.ts#1", "src/a.ts#2", "src/b.ts"]]
+  );
+
+  const single = [diff("src/huge.ts")];
+  assert.deepEqual(planPromptChunks(single, () => false), [single]);
+  assert.equal(planPromptChunks(diffs, () => false).length, diffs.length);
+});
+
+test("reconcileChunkGroups merges near-identical groups across chunks only", async () => {
+  const { reconcileChunkGroups, messageSimilarity } = await load();
+  assert.equal(messageSimilarity("Updated test fixtures", "updated test fixtures"), 1);
+  assert.ok(messageSimilarity("Updated test fixtures", "Added login form") < 0.8);
+
+  const merged = reconcileChunkGroups(
+    [
+      [
+        group(["tests/a.json"], "Updated test fixtures", { type: "test", body: "- a" }),
+        group(["tests/b.json"], "Updated test fixtures", { type: "test" }),
+      ],
+      [
+        group(["tests/c.json"], "Updated test fixtures", { type: "test", body: "- c", confidence: 0.7 }),
+        group(["src/login.ts"], "Added login form", { type: "feat" }),
+        group(["tests/d.json"], "Updated test fixtures", { type: "chore" }),
+      ],
+    ],
+    7
+  );
+  assert.deepEqual(
+    merged.map(g => [g.files, g.body, g.confidence]),
+    [
+      [["tests/a.json", "tests/c.json"], "- a\n- c", 0.7],
+      [["tests/b.json"], undefined, 0.9],
+      [["src/login.ts"], undefined, 0.9],
+      [["tests/d.json"], undefined, 0.9],
+    ]
+  );
+
+  const capped = reconcileChunkGroups(
+    [[group(["a", "b"], "Updated src")], [group(["c", "d"], "Updated src")]],
+    3
+  );
+  assert.equal(capped.length, 2);
+});
+
+test("an oversized change set is grouped in concurrent chunks and reconciled", async () => {
+  await withRepo(async (repo, root) => {
+    const cx = (args, env = {}) => cliIn(repo, root, { COMMITX_PROVIDER: "mock", ...env })(...args);
+    const writeConfig = extra =>
+      writeUserConfig(root, {
+        models: [{ name: "mock-small", maxPromptTokens: 2000 }],
+        maxFilesPerGroup: 50,
+        ...extra,
+      });
+    // Modified files: new files are sent with little more than their header.
+    const writeSources = async call => {
+      for (let i = 0; i < 40; i++) {
+        const body = Array.from(
+          { length: 12 },
+          (_, j) => `export const ${word(i)}${word(j)} = ${call}("${word(i)}", "${word(j)}");`
+        ).join("\n");
+        await writeFile(path.join(repo, "src", `${word(i)}.ts`), `${body}\n`);
+      }
+    };
+    await mkdir(path.join(repo, "src"));
+    await writeSources("compute");
+    git(repo, "add", ".");
+    git(repo, "commit", "-qm", "init");
+    await writeSources("computeNext");
+
+    await writeConfig({});
+    const { stdout, stderr } = await cx(["commit", "--dry-run", "--json"]);
+    assert.match(stderr, /40 changes are too large for one prompt; grouping them in \d+ requests/);
+    const plan = JSON.parse(stdout);
+    assert.equal(plan.groups.length, 1);
+    assert.equal(plan.groups[0].files.length, 40);
+
+    await writeConfig({ reconcileChunks: false });
+    const unreconciled = JSON.parse((await cx(["commit", "--dry-run", "--json"])).stdout);
+    assert.ok(unreconciled.groups.length > 1);
+    assert.equal(unreconciled.groups.flatMap(g => g.files).length, 40);
+
+    // The only model fails the first request; that chunk's files are
+    // regrouped by the focused retry instead of sinking the whole run.
+    const failed = await cx(["commit", "--dry-run", "--json"], { COMMITX_MOCK_SCENARIO: "error" });
+    assert.match(failed.stderr, /Request 1\/\d+ failed: .*\. Its \d+ change\(s\) go to the focused retry/);
+    assert.equal(JSON.parse(failed.stdout).groups.flatMap(g => g.files).length, 40);
+  });
+});
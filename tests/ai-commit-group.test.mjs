@@ -87,3 +87,17 @@ test("orphaned lock without a manifest still forms a deterministic group", async
   assert.equal(autoGroups.length, 1);
   assert.deepEqual(autoGroups[0].files, ["yarn.lock"]);
 });
+
+test("conventional style rewrites deterministic group messages", async () => {
+  const { preGroupDeterministicFiles } = await loadGroup();
+  const { autoGroups } = preGroupDeterministicFiles(
+    [diff("package.json"), diff("yarn.lock"), diff("README.md")],
+    { messageStyle: "conventional" }
+  );
+
+  const messages = autoGroups.map(group => group.message).sort();
+  assert.deepEqual(messages, [
+    "build(deps): update project dependencies",
+    "docs: update documentation",
+  ]);
+});
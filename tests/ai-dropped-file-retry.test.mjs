@@ -51,35 +51,30 @@ test("new files dropped by AI trigger a focused retry (no templated fallback)",
     };
 
     const callLog = [];
-    service.genAI = {
-      models: {
-        generateContent: async ({ contents }) => {
-          callLog.push(contents);
-          if (callLog.length === 1) {
-            return {
-              text: JSON.stringify({
-                groups: [
-                  {
-                    files: ["src/existing.ts"],
-                    message: "Updated existing module",
-                    confidence: 0.9,
-                  },
-                ],
-              }),
-            };
-          }
-          return {
-            text: JSON.stringify({
-              groups: [
-                {
-                  files: ["src/brand-new.ts"],
-                  message: "Added fresh constants module",
-                  confidence: 0.85,
-                },
-              ],
-            }),
-          };
-        },
+    service.provider = {
+      name: "gemini",
+      generateText: async ({ prompt }) => {
+        callLog.push(prompt);
+        if (callLog.length === 1) {
+          return JSON.stringify({
+            groups: [
+              {
+                files: ["src/existing.ts"],
+                message: "Updated existing module",
+                confidence: 0.9,
+              },
+            ],
+          });
+        }
+        return JSON.stringify({
+          groups: [
+            {
+              files: ["src/brand-new.ts"],
+              message: "Added fresh constants module",
+              confidence: 0.85,
+            },
+          ],
+        });
       },
     };
 
@@ -130,22 +125,19 @@ test("factual fallback (not speculative template) applies only when retry also f
     };
 
     let callCount = 0;
-    service.genAI = {
-      models: {
-        generateContent: async () => {
-          callCount += 1;
-          return {
-            text: JSON.stringify({
-              groups: [
-                {
-                  files: ["src/existing.ts"],
-                  message: "Updated existing module",
-                  confidence: 0.9,
-                },
-              ],
-            }),
-          };
-        },
+    service.provider = {
+      name: "gemini",
+      generateText: async () => {
+        callCount += 1;
+        return JSON.stringify({
+          groups: [
+            {
+              files: ["src/existing.ts"],
+              message: "Updated existing module",
+              confidence: 0.9,
+            },
+          ],
+        });
       },
     };
 
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import { TEST_API_KEY, cliIn, git, withRepo, writeUserConfig } from "./helpers.mjs";
+
+const GROUP_PROMPT = [
+  "Task: Group the file changes below into logical git commits.",
+  'Output: ONLY a JSON object matching this schema, no prose, no markdown fence: {"groups":[{"files":["<file>"],"message":"<subject>","confidence":<0..1>}]}',
+  "Rules:",
+  "- 1 to 2 files per group. Split unrelated changes into separate groups.",
+  "Files:",
+  "---",
+  "[1] M src/a.ts (+1/-0)",
+  "+export const a = 2;",
+  "[2] A src/b.ts (+1/-0)",
+  "[3] M src/c.ts (+1/-1)",
+  "[4] D README.md (+0/-3)",
+].join("\n");
+
+const withAppRepo = (env, run) =>
+  withRepo(async (repo, root) => {
+    await mkdir(path.join(repo, "src"));
+    await writeFile(path.join(repo, "src", "app.ts"), "export const a = 1;\n");
+    git(repo, "add", ".");
+    git(repo, "commit", "-qm", "init");
+    await writeFile(path.join(repo, "src", "app.ts"), "export const a = 2;\n");
+    await writeFile(path.join(repo, "src", "util.ts"), "export const u = 1;\n");
+    await writeFile(path.join(repo, "notes.md"), "# Notes\n");
+    await run(repo, root, cliIn(repo, root, env));
+  });
+
+const groupedFiles = plan =>
+  plan.groups.flatMap(group => group.files.map(file => path.basename(file))).sort();
+
+test("parseMockScenario expands repeats and rejects unknown steps", async () => {
+  const { parseMockScenario, createMockScript } = (await import("../dist/index.js")).aiMock;
+
+  const steps = parseMockScenario(" error, 2*Malformed ,,drop-files");
+  assert.deepEqual(steps, ["error", "malformed", "malformed", "drop-files"]);
+  const next = createMockScript(steps);
+  assert.deepEqual([1, 2, 3, 4, 5, 6].map(() => next()), [...steps, "ok", "ok"]);
+  assert.throws(() => parseMockScenario("ok,hang"), /Unknown mock step "hang"/);
+});
+
+test("respondToPrompt groups files by directory within the prompt's limit", async () => {
+  const { respondToPrompt } = (await import("../dist/index.js")).aiMock;
+
+  const { groups } = JSON.parse(respondToPrompt(GROUP_PROMPT));
+  assert.deepEqual(
+    groups.map(group => [group.files, group.message]),
+    [
+      [["src/a.ts", "src/b.ts"], "Updated src"],
+      [["src/c.ts"], "Updated c.ts"],
+      [["README.md"], "Updated README.md"],
+    ]
+  );
+
+  const dropped = JSON.parse(respondToPrompt(GROUP_PROMPT, "drop-files")).groups;
+  assert.deepEqual(dropped.flatMap(group => group.files), ["src/a.ts", "src/b.ts", "src/c.ts"]);
+
+  const conventional = GROUP_PROMPT.replace('"message"', '"type":"<type>","message"').replace(
+    "Output:",
+    'Output (with "description":["<concrete change>"]):'
+  );
+  const [first] = JSON.parse(respondToPrompt(conventional)).groups;
+  assert.equal(first.message, "chore(src): update src");
+  assert.deepEqual(first.description, ["Updated a.ts", "Updated b.ts"]);
+
+  assert.doesNotMatch(respondToPrompt(GROUP_PROMPT, "malformed"), /}$/);
+  assert.throws(() => respondToPrompt("Task: Something else"), /does not recognize the prompt/);
+});
+
+test("COMMITX_PROVIDER=mock runs fallback and the dropped-file retry offline", async () => {
+  await withAppRepo(
+    { COMMITX_PROVIDER: "mock", COMMITX_MOCK_SCENARIO: "error,drop-files" },
+    async (repo, root, cx) => {
+      const { stdout, stderr } = await cx("commit", "--dry-run", "--json");
+      assert.match(stderr, /Model \(mock-primary\) failed: .*simulated.*Trying \(mock-fallback\)/);
+      assert.match(stderr, /1 file\(s\) dropped by AI; running focused retry/);
+      assert.deepEqual(groupedFiles(JSON.parse(stdout)), ["app.ts", "notes.md", "util.ts"]);
+
+      const config = JSON.parse((await cx("config", "get", "provider", "--json")).stdout);
+      assert.deepEqual(config.values.provider, {
+        value: "mock",
+        source: { kind: "env", path: "COMMITX_PROVIDER" },
+      });
+      await assert.rejects(cx("config", "set", "provider", "mock"), /provider/);
+    }
+  );
+});
+
+test("cx dev mock-server's API drives timeouts and malformed JSON through the fallback chain", async () => {
+  const { startMockServer } = (await import("../dist/index.js")).aiMock;
+  const steps = [];
+  const server = await startMockServer({ scenario: ["timeout", "malformed"], onRequest: step => steps.push(step) });
+  try {
+    await withAppRepo({ OPENAI_API_KEY: TEST_API_KEY }, async (repo, root, cx) => {
+      await writeUserConfig(root, {
+        provider: "openai",
+        baseUrl: server.url,
+        models: [{ name: "slow", timeoutMs: 1000 }, "broken", "good"],
+      });
+
+      const { stdout, stderr } = await cx("commit", "--dry-run", "--json");
+      assert.match(stderr, /Model \(slow\) failed: Operation timed out after 1000ms/);
+      assert.match(stderr, /Model \(broken\) failed: .*JSON/);
+      assert.deepEqual(steps, ["timeout", "malformed", "ok"]);
+      assert.deepEqual(groupedFiles(JSON.parse(stdout)), ["app.ts", "notes.md", "util.ts"]);
+    });
+
+    const response = await fetch(`${server.url}/models`);
+    assert.equal(response.status, 404);
+  } finally {
+    await server.close();
+  }
+});
@@ -153,3 +153,169 @@ test("generateFactualFallback stays factual about status without speculating on
     "Updated changed.ts"
   );
 });
+
+test("buildAggregatedPrompt uses the configured files-per-group limit", async () => {
+  const { buildAggregatedPrompt } = await loadPrompt();
+  assert.ok(
+    buildAggregatedPrompt([sanitized("src/a.ts")]).prompt.includes("1 to 7 files per group")
+  );
+  assert.ok(
+    buildAggregatedPrompt([sanitized("src/a.ts")], { maxFilesPerGroup: 3 }).prompt.includes(
+      "1 to 3 files per group"
+    )
+  );
+});
+
+test("conventional style asks for type(scope) headers and fills type/scope", async () => {
+  const { buildAggregatedPrompt, parseAggregatedResponse } = await loadPrompt();
+  const { prompt } = buildAggregatedPrompt([sanitized("src/app.ts")], {
+    messageStyle: "conventional",
+  });
+  assert.ok(prompt.includes("type(scope): subject"));
+  assert.equal(prompt.includes("FORBIDDEN prefixes"), false);
+
+  const diffs = [diff("src/app.ts"), diff("src/api/client.ts"), diff("src/b.ts")];
+  const response = JSON.stringify({
+    groups: [
+      { files: ["src/app.ts"], message: "feat(app): add dark mode toggle", confidence: 0.9 },
+      { files: ["src/api/client.ts"], type: "fix", scope: "api", message: "Fixed retry on 503", confidence: 0.8 },
+      { files: ["src/b.ts"], message: "Updated the b module helpers", confidence: 0.8 },
+    ],
+  });
+  const { groups } = parseAggregatedResponse(
+    response,
+    diffs,
+    diffs.map(d => sanitized(d.file)),
+    { messageStyle: "conventional" }
+  );
+
+  assert.equal(groups[0].message, "feat(app): add dark mode toggle");
+  assert.equal(groups[0].type, "feat");
+  assert.equal(groups[0].scope, "app");
+  assert.equal(groups[1].message, "fix(api): fix retry on 503");
+  assert.equal(groups[2].message, "chore: update b.ts", "headerless message falls back to a styled factual label");
+  assert.equal(groups[2].type, "chore");
+});
+
+test("plain style still strips conventional prefixes", async () => {
+  const { parseAggregatedResponse } = await loadPrompt();
+  const diffs = [diff("src/app.ts")];
+  const response = JSON.stringify({
+    groups: [{ files: ["src/app.ts"], message: "feat(app): added dark mode toggle", confidence: 0.9 }],
+  });
+  const { groups } = parseAggregatedResponse(response, diffs, [sanitized("src/app.ts")]);
+  assert.equal(groups[0].message, "Added dark mode toggle");
+  assert.equal(groups[0].type, undefined);
+});
+
+test("body generation asks for description and fills a wrapped body", async () => {
+  const { buildAggregatedPrompt, parseAggregatedResponse } = await loadPrompt();
+  const { prompt } = buildAggregatedPrompt([sanitized("src/app.ts")], { includeBody: true });
+  assert.ok(prompt.includes('"description":["<concrete change>"],"confidence"'));
+  assert.equal(
+    buildAggregatedPrompt([sanitized("src/app.ts")]).prompt.includes("description"),
+    false
+  );
+
+  const diffs = [diff("src/app.ts")];
+  const response = JSON.stringify({
+    groups: [
+      {
+        files: ["src/app.ts"],
+        message: "Added dark mode toggle",
+        description: ["Added a toggle to the settings page", "Persisted the choice in local storage"],
+        confidence: 0.9,
+      },
+    ],
+  });
+  const [withBody] = parseAggregatedResponse(response, diffs, [sanitized("src/app.ts")], {
+    includeBody: true,
+  }).groups;
+  assert.equal(
+    withBody.body,
+    "- Added a toggle to the settings page\n- Persisted the choice in local storage"
+  );
+
+  const [withoutBody] = parseAggregatedResponse(response, diffs, [sanitized("src/app.ts")]).groups;
+  assert.equal(withoutBody.body, undefined);
+});
+
+test("hunk ids are listed in the prompt and resolved per hunk", async () => {
+  const { buildAggregatedPrompt, parseAggregatedResponse } = await loadPrompt();
+  const diffs = [
+    { ...diff("src/app.ts"), hunk: 1 },
+    { ...diff("src/app.ts"), hunk: 2 },
+    diff("src/other.ts"),
+  ];
+  const sanitizedDiffs = [
+    sanitized("src/app.ts", { hunk: 1 }),
+    sanitized("src/app.ts", { hunk: 2 }),
+    sanitized("src/other.ts"),
+  ];
+
+  const { prompt } = buildAggregatedPrompt(sanitizedDiffs);
+  assert.ok(prompt.includes("M src/app.ts#2 (+1/-0)"));
+  assert.ok(prompt.includes("path#N"));
+  assert.ok(!buildAggregatedPrompt([sanitized("src/other.ts")]).prompt.includes("path#N"));
+
+  const response = JSON.stringify({
+    groups: [
+      { files: ["src/app.ts#1", "src/other.ts"], message: "Fixed retry delay", confidence: 0.9 },
+      { files: ["app.ts#1"], message: "Duplicate claim", confidence: 0.9 },
+    ],
+  });
+
+  const result = parseAggregatedResponse(response, diffs, sanitizedDiffs);
+  assert.equal(result.groups.length, 1);
+  assert.deepEqual(result.groups[0].files, ["src/app.ts#1", "src/other.ts"]);
+  assert.deepEqual(result.unusedDiffs.map(d => d.hunk), [2]);
+});
+
+test("squash history is listed as context only when given", async () => {
+  const { buildAggregatedPrompt } = await loadPrompt();
+  const files = [sanitized("src/a.ts")];
+
+  assert.equal(buildAggregatedPrompt(files).prompt.includes("being squashed"), false);
+  const { prompt } = buildAggregatedPrompt(files, { singleGroup: true, history: ["wip", "fix tests"] });
+  assert.ok(prompt.includes("being squashed into one"));
+  assert.ok(prompt.indexOf("  - fix tests") < prompt.indexOf("\nFiles:"));
+});
+
+test("parseAggregatedResponse ignores prose after the JSON and keeps complete groups of a cut-off answer", async () => {
+  const { parseAggregatedResponse } = await loadPrompt();
+  const diffs = [diff("src/app.ts"), diff("src/other.ts")];
+  const sanitizedDiffs = [sanitized("src/app.ts"), sanitized("src/other.ts")];
+  const first = '{"files":["src/app.ts"],"message":"Updated app","confidence":0.9}';
+
+  const withProse = parseAggregatedResponse(
+    `{"groups":[${first}]}\nNote: other.ts looks unrelated {see above}.`,
+    diffs,
+    sanitizedDiffs
+  );
+  assert.deepEqual(withProse.groups.map(group => group.message), ["Updated app"]);
+
+  const cutOff = parseAggregatedResponse(
+    `{"groups":[${first},{"files":["src/other.ts"],"message":"Updated other","description":["Adds the form","Adds valid`,
+    diffs,
+    sanitizedDiffs,
+    { includeBody: true }
+  );
+  assert.deepEqual(cutOff.groups.map(group => group.files), [["src/app.ts"]]);
+  assert.deepEqual(cutOff.unusedDiffs.map(d => d.file), ["src/other.ts"]);
+
+  assert.throws(
+    () => parseAggregatedResponse('{"groups":[{"files":["src/app.ts"],"mess', diffs, sanitizedDiffs),
+    /Failed to parse AI JSON response: no complete JSON object found/
+  );
+});
+
+test("GROUPING_RESPONSE_SCHEMA is a plain JSON Schema of the groups answer", async () => {
+  const { GROUPING_RESPONSE_SCHEMA } = await loadPrompt();
+  const { schema } = GROUPING_RESPONSE_SCHEMA;
+
+  assert.equal(schema.$schema, undefined);
+  assert.deepEqual(schema.required, ["groups"]);
+  const group = schema.properties.groups.items;
+  assert.deepEqual(group.required, ["files", "message", "confidence"]);
+  assert.deepEqual(Object.keys(group.properties).sort(), ["confidence", "description", "files", "message", "scope", "type"]);
+});
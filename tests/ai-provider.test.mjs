@@ -0,0 +1,291 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import process from "node:process";
+import test from "node:test";
+
+const loadProviders = async () => {
+  const module = await import("../dist/index.js");
+  return module.aiProvider;
+};
+
+// Minimal HTTP stand-in: records the request and replies with `respond()`.
+const startServer = async respond => {
+  const requests = [];
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", chunk => (raw += chunk));
+    req.on("end", () => {
+      const entry = { url: req.url, headers: req.headers, body: JSON.parse(raw) };
+      requests.push(entry);
+      const { status = 200, body, contentType = "application/json" } = respond(entry);
+      res.writeHead(status, { "content-type": contentType });
+      res.end(typeof body === "string" ? body : JSON.stringify(body));
+    });
+  });
+  await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address();
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+};
+
+test("OpenAI-compatible provider posts chat completions with bearer auth", async () => {
+  const { createAIProvider } = await loadProviders();
+  const server = await startServer(() => ({
+    body: { choices: [{ message: { content: '{"groups":[]}' } }] },
+  }));
+
+  try {
+    const provider = createAIProvider({
+      name: "openai",
+      apiKey: "sk-test-1234567890",
+      baseUrl: `${server.baseUrl}/v1/`,
+    });
+    const text = await provider.generateText({ model: "gpt-test", prompt: "hi" });
+
+    assert.equal(text, '{"groups":[]}');
+    assert.equal(server.requests[0].url, "/v1/chat/completions");
+    assert.equal(server.requests[0].headers.authorization, "Bearer sk-test-1234567890");
+    assert.equal(server.requests[0].body.model, "gpt-test");
+    assert.deepEqual(server.requests[0].body.messages, [{ role: "user", content: "hi" }]);
+  } finally {
+    await server.close();
+  }
+});
+
+test("Anthropic provider sends version header and joins text blocks", async () => {
+  const { createAIProvider } = await loadProviders();
+  const server = await startServer(() => ({
+    body: {
+      content: [
+        { type: "text", text: '{"groups":' },
+        { type: "text", text: "[]}" },
+      ],
+    },
+  }));
+
+  try {
+    const provider = createAIProvider({
+      name: "anthropic",
+      apiKey: "sk-ant-test-123456",
+      baseUrl: server.baseUrl,
+    });
+    const text = await provider.generateText({ model: "claude-test", prompt: "hi" });
+
+    assert.equal(text, '{"groups":[]}');
+    assert.equal(server.requests[0].url, "/messages");
+    assert.equal(server.requests[0].headers["x-api-key"], "sk-ant-test-123456");
+    assert.ok(server.requests[0].headers["anthropic-version"]);
+    assert.ok(server.requests[0].body.max_tokens > 0);
+  } finally {
+    await server.close();
+  }
+});
+
+test("Ollama provider uses the non-streaming generate endpoint", async () => {
+  const { createAIProvider, providerRequiresApiKey } = await loadProviders();
+  const server = await startServer(() => ({ body: { response: "ok" } }));
+
+  try {
+    const provider = createAIProvider({ name: "ollama", baseUrl: server.baseUrl });
+    const text = await provider.generateText({ model: "llama-test", prompt: "hi" });
+
+    assert.equal(text, "ok");
+    assert.equal(server.requests[0].url, "/api/generate");
+    assert.equal(server.requests[0].body.stream, false);
+    assert.equal(providerRequiresApiKey("ollama"), false);
+    assert.equal(providerRequiresApiKey("openai"), true);
+  } finally {
+    await server.close();
+  }
+});
+
+test("HTTP errors stay recoverable so retry and model fallback still apply", async () => {
+  const { createAIProvider } = await loadProviders();
+  const server = await startServer(({ body }) =>
+    body.model === "unauthorized"
+      ? { status: 401, body: { error: "bad key" } }
+      : { status: 503, body: { error: "overloaded" } }
+  );
+
+  try {
+    const provider = createAIProvider({
+      name: "openai",
+      apiKey: "sk-test-1234567890",
+      baseUrl: server.baseUrl,
+    });
+
+    await assert.rejects(
+      provider.generateText({ model: "busy", prompt: "hi" }),
+      error => error.type === "AI_SERVICE_ERROR" && error.isRecoverable === true
+    );
+    await assert.rejects(
+      provider.generateText({ model: "unauthorized", prompt: "hi" }),
+      error => error.type === "CONFIG_ERROR",
+      "auth failures must short-circuit the fallback chain"
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+const sse = events => events.map(event => `data: ${JSON.stringify(event)}\n\n`).join("");
+
+test("providers stream text as it arrives when asked to", async () => {
+  const { createAIProvider } = await loadProviders();
+  const server = await startServer(({ url }) => {
+    if (url === "/chat/completions") {
+      return {
+        contentType: "text/event-stream",
+        body: `${sse([{ choices: [{ delta: { content: '{"gro' } }] }, { choices: [{ delta: {} }] }, { choices: [{ delta: { content: 'ups":[]}' } }] }])}data: [DONE]\n\n`,
+      };
+    }
+    if (url === "/messages") {
+      return {
+        contentType: "text/event-stream",
+        body: [
+          "event: message_start",
+          `data: ${JSON.stringify({ type: "message_start" })}`,
+          "",
+          "event: content_block_delta",
+          `data: ${JSON.stringify({ type: "content_block_delta", delta: { type: "text_delta", text: "Hel" } })}`,
+          "",
+          `data: ${JSON.stringify({ type: "content_block_delta", delta: { type: "text_delta", text: "lo" } })}`,
+          "",
+        ].join("\n"),
+      };
+    }
+    return {
+      contentType: "application/x-ndjson",
+      body: ['{"response":"o","done":false}', '{"response":"k","done":false}', '{"response":"","done":true}'].join("\n"),
+    };
+  });
+
+  const collect = async (provider, model) => {
+    const deltas = [];
+    const text = await provider.generateText({ model, prompt: "hi", onText: delta => deltas.push(delta) });
+    return { text, deltas };
+  };
+
+  try {
+    const openai = createAIProvider({ name: "openai", apiKey: "sk-test-1234567890", baseUrl: server.baseUrl });
+    assert.deepEqual(await collect(openai, "gpt-test"), { text: '{"groups":[]}', deltas: ['{"gro', 'ups":[]}'] });
+    assert.equal(server.requests[0].body.stream, true);
+
+    const anthropic = createAIProvider({ name: "anthropic", apiKey: "sk-ant-test-123456", baseUrl: server.baseUrl });
+    assert.deepEqual(await collect(anthropic, "claude-test"), { text: "Hello", deltas: ["Hel", "lo"] });
+
+    const ollama = createAIProvider({ name: "ollama", baseUrl: server.baseUrl });
+    assert.deepEqual(await collect(ollama, "llama-test"), { text: "ok", deltas: ["o", "k"] });
+    assert.equal(server.requests[2].body.stream, true);
+  } finally {
+    await server.close();
+  }
+});
+
+test("a gateway that ignores the stream flag still works, and a broken stream fails recoverably", async () => {
+  const { createAIProvider } = await loadProviders();
+  const server = await startServer(({ body }) =>
+    body.model === "plain"
+      ? { body: { choices: [{ message: { content: "whole answer" } }] } }
+      : { contentType: "text/event-stream", body: "data: {not json\n\n" }
+  );
+
+  try {
+    const provider = createAIProvider({ name: "openai", apiKey: "sk-test-1234567890", baseUrl: server.baseUrl });
+    const deltas = [];
+    const text = await provider.generateText({ model: "plain", prompt: "hi", onText: delta => deltas.push(delta) });
+    assert.equal(text, "whole answer");
+    assert.deepEqual(deltas, ["whole answer"]);
+
+    await assert.rejects(
+      provider.generateText({ model: "broken", prompt: "hi", onText: () => undefined }),
+      error => error.type === "AI_SERVICE_ERROR" && /malformed stream event/.test(error.message)
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+test("a response schema becomes each provider's structured output option", async () => {
+  const { createAIProvider } = await loadProviders();
+  const server = await startServer(({ url }) =>
+    url === "/api/generate"
+      ? { body: { response: "{}" } }
+      : url === "/messages"
+        ? { body: { content: [{ type: "text", text: "{}" }] } }
+        : { body: { choices: [{ message: { content: "{}" } }] } }
+  );
+  const responseSchema = { name: "commit_groups", schema: { type: "object" } };
+
+  try {
+    for (const settings of [
+      { name: "openai", apiKey: "sk-test-1234567890" },
+      { name: "ollama" },
+      { name: "anthropic", apiKey: "sk-ant-test-123456" },
+    ]) {
+      const provider = createAIProvider({ ...settings, baseUrl: server.baseUrl });
+      await provider.generateText({ model: "m", prompt: "hi", responseSchema });
+    }
+
+    const [openai, ollama, anthropic] = server.requests.map(request => request.body);
+    assert.deepEqual(openai.response_format, {
+      type: "json_schema",
+      json_schema: { name: "commit_groups", schema: { type: "object" }, strict: false },
+    });
+    assert.deepEqual(ollama.format, { type: "object" });
+    assert.equal(anthropic.response_format, undefined);
+  } finally {
+    await server.close();
+  }
+});
+
+test("a server that rejects the response schema is asked again without it", async () => {
+  const { createAIProvider } = await loadProviders();
+  const server = await startServer(({ body }) =>
+    body.response_format
+      ? { status: 400, body: { error: "response_format is not supported" } }
+      : {
+          body: {
+            choices: [
+              {
+                message: {
+                  content: JSON.stringify({
+                    groups: [{ files: ["src/app.ts"], message: "Updated app module", confidence: 0.9 }],
+                  }),
+                },
+              },
+            ],
+          },
+        }
+  );
+  process.env.GEMINI_API_KEY = "test-api-key-12345";
+  const AIService = await (await import("../dist/index.js")).AIService();
+  const service = new AIService();
+  service.aiCache = { generateKey: () => "k", get: async () => null, set: async () => {} };
+  service.provider = createAIProvider({ name: "openai", apiKey: "sk-test-1234567890", baseUrl: server.baseUrl });
+  const diffs = [
+    { file: "src/app.ts", additions: 1, deletions: 0, changes: "+const x = 1;", isNew: false, isDeleted: false, isRenamed: false },
+  ];
+  const originalWarn = console.warn;
+  const warnings = [];
+  console.warn = message => warnings.push(message);
+
+  try {
+    for (let run = 0; run < 2; run++) {
+      const { groups } = await service.generateAggregatedCommits(diffs, {});
+      assert.equal(groups[0].message, "Updated app module");
+    }
+    assert.deepEqual(
+      server.requests.map(request => Boolean(request.body.response_format)),
+      [true, false, false],
+      "the schema is dropped once, then left off for that model"
+    );
+    assert.equal(warnings.filter(message => /rejected the response schema/.test(message)).length, 1);
+  } finally {
+    console.warn = originalWarn;
+    await server.close();
+  }
+});
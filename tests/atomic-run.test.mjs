@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import test from "node:test";
+import { git, withRepo } from "./helpers.mjs";
+
+const withGitService = run =>
+  withRepo(async repo => {
+    process.chdir(repo);
+    const GitService = await (await import("../dist/index.js")).GitService();
+    await run(repo, new GitService());
+  });
+
+test("restoreSnapshot undoes commits and restores a partly staged index", async () => {
+  await withGitService(async (repo, gitService) => {
+    await writeFile(path.join(repo, "a.txt"), "a\n");
+    git(repo, "add", "a.txt");
+    git(repo, "commit", "-qm", "init");
+
+    await writeFile(path.join(repo, "a.txt"), "a changed\n");
+    await writeFile(path.join(repo, "b.txt"), "b\n");
+    git(repo, "add", "b.txt");
+
+    const snapshot = await gitService.captureSnapshot();
+    assert.equal(snapshot.head, git(repo, "rev-parse", "HEAD"));
+
+    git(repo, "add", "a.txt");
+    git(repo, "commit", "-qm", "first");
+    await writeFile(path.join(repo, "c.txt"), "c\n");
+    git(repo, "add", "c.txt");
+    git(repo, "commit", "-qm", "second");
+
+    await gitService.restoreSnapshot(snapshot);
+
+    assert.equal(git(repo, "rev-parse", "HEAD"), snapshot.head);
+    assert.equal(git(repo, "write-tree"), snapshot.indexTree);
+    assert.equal(git(repo, "diff", "--cached", "--name-only"), "b.txt");
+    assert.equal(await readFile(path.join(repo, "a.txt"), "utf-8"), "a changed\n");
+    assert.equal(await readFile(path.join(repo, "c.txt"), "utf-8"), "c\n");
+  });
+});
+
+test("restoreSnapshot returns a new repository to its unborn branch", async () => {
+  await withGitService(async (repo, gitService) => {
+    await writeFile(path.join(repo, "a.txt"), "a\n");
+
+    const snapshot = await gitService.captureSnapshot();
+    assert.equal(snapshot.head, null);
+
+    git(repo, "add", "a.txt");
+    git(repo, "commit", "-qm", "first");
+    await gitService.restoreSnapshot(snapshot);
+
+    assert.throws(() => git(repo, "rev-parse", "--verify", "-q", "HEAD"));
+    assert.equal(git(repo, "diff", "--cached", "--name-only"), "");
+    assert.equal(git(repo, "status", "--porcelain"), "?? a.txt");
+  });
+});
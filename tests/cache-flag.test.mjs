@@ -12,24 +12,21 @@ const loadAIService = async () => {
   return await module.AIService();
 };
 
-const stubGenAI = service => {
+const stubProvider = service => {
   let callCount = 0;
-  service.genAI = {
-    models: {
-      generateContent: async () => {
-        callCount += 1;
-        return {
-          text: JSON.stringify({
-            groups: [
-              {
-                files: ["src/app.ts"],
-                message: "Updated app module logic",
-                confidence: 0.9,
-              },
-            ],
-          }),
-        };
-      },
+  service.provider = {
+    name: "gemini",
+    generateText: async () => {
+      callCount += 1;
+      return JSON.stringify({
+        groups: [
+          {
+            files: ["src/app.ts"],
+            message: "Updated app module logic",
+            confidence: 0.9,
+          },
+        ],
+      });
     },
   };
   return () => callCount;
@@ -70,7 +67,7 @@ test("default (no --use-cached) generates fresh results and does not read cache"
       },
     };
 
-    const getCallCount = stubGenAI(service);
+    const getCallCount = stubProvider(service);
 
     await service.generateAggregatedCommits(makeDiffs(), {});
     assert.equal(cacheReads, 0, "cache read should not happen without --use-cached");
@@ -113,7 +110,7 @@ test("--use-cached reads cache first and short-circuits on hit", async () => {
       set: async () => {},
     };
 
-    const getCallCount = stubGenAI(service);
+    const getCallCount = stubProvider(service);
 
     const result = await service.generateAggregatedCommits(makeDiffs(), {
       useCached: true,
@@ -156,7 +153,7 @@ test("--use-cached writes to cache when no cached result exists", async () => {
       },
     };
 
-    stubGenAI(service);
+    stubProvider(service);
 
     await service.generateAggregatedCommits(makeDiffs(), { useCached: true });
 
@@ -174,3 +171,36 @@ test("--use-cached writes to cache when no cached result exists", async () => {
     await rm(homeDir, { recursive: true, force: true });
   }
 });
+
+test("squash history is part of the cache key", async () => {
+  const originalHome = process.env.HOME;
+  const homeDir = await mkdtemp(path.join(os.tmpdir(), "commitx-cache-history-"));
+  process.env.HOME = homeDir;
+  process.env.GEMINI_API_KEY = TEST_API_KEY;
+
+  try {
+    const AIService = await loadAIService();
+    const service = new AIService();
+
+    const keys = [];
+    service.aiCache = {
+      generateKey: () => "testkey",
+      get: async key => {
+        keys.push(key);
+        return null;
+      },
+      set: async () => {},
+    };
+    stubProvider(service);
+
+    for (const history of [["Added login form"], ["Added login form"], ["Fixed crash"]]) {
+      await service.generateAggregatedCommits(makeDiffs(), { useCached: true, history });
+    }
+
+    assert.equal(keys[0], keys[1]);
+    assert.notEqual(keys[0], keys[2], "other squashed subjects must not hit the same entry");
+  } finally {
+    process.env.HOME = originalHome;
+    await rm(homeDir, { recursive: true, force: true });
+  }
+});
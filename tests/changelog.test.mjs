@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import test from "node:test";
+import { cliIn, commitFile, git, startServer, withRepo, writeUserConfig } from "./helpers.mjs";
+
+const loadChangelog = async () => (await import("../dist/index.js")).changelog;
+
+test("classifyConventionalCommit maps types to sections and skips internal ones", async () => {
+  const { classifyConventionalCommit } = await loadChangelog();
+  const classify = message => classifyConventionalCommit({ sha: "a", message });
+
+  assert.deepEqual(classify("feat(api): add search"), { sha: "a", section: "Added", text: "**api:** Add search" });
+  assert.equal(classify("fix: handle empty input").section, "Fixed");
+  assert.equal(classify("refactor: drop legacy parser").section, "Removed");
+  assert.equal(classify("perf: cache lookups").section, "Changed");
+  assert.equal(classify("chore: bump deps"), null);
+  assert.deepEqual(classify("chore!: require node 20"), { sha: "a", section: "Changed", text: "Require node 20", breaking: true });
+  assert.equal(classify("feat: new config\n\nBREAKING CHANGE: old keys are gone").breaking, true);
+  assert.deepEqual(classify("Update readme"), { sha: "a", section: "Changed", text: "Update readme" });
+});
+
+test("prependChangelog keeps the intro, Unreleased first and replaces a release", async () => {
+  const { prependChangelog, CHANGELOG_HEADER } = await loadChangelog();
+  const release = (name, text, date) => ({ name, date, entries: [{ sha: "a", section: "Fixed", text }] });
+
+  const created = prependChangelog(null, release("Unreleased", "One"));
+  assert.equal(created, `${CHANGELOG_HEADER}\n## [Unreleased]\n\n### Fixed\n\n- One\n`);
+  assert.match(
+    prependChangelog(null, { name: "Unreleased", entries: [{ sha: "a", section: "Removed", text: "Old flag", breaking: true }] }),
+    /### Removed\n\n- \*\*Breaking:\*\* Old flag\n$/
+  );
+
+  const existing = "# Changelog\n\nIntro.\n\n## [Unreleased]\n\n- wip\n\n## [v1.0.0] - 2026-01-01\n\n- old\n";
+  assert.equal(
+    prependChangelog(existing, release("v1.1.0", "Two", "2026-02-01")),
+    "# Changelog\n\nIntro.\n\n## [Unreleased]\n\n- wip\n\n## [v1.1.0] - 2026-02-01\n\n### Fixed\n\n- Two\n\n## [v1.0.0] - 2026-01-01\n\n- old\n"
+  );
+  assert.equal(
+    prependChangelog(existing, release("Unreleased", "Three")),
+    "# Changelog\n\nIntro.\n\n## [Unreleased]\n\n### Fixed\n\n- Three\n\n## [v1.0.0] - 2026-01-01\n\n- old\n"
+  );
+});
+
+test("cx changelog builds a section from conventional commits or AI classification", async () => {
+  // Classifies commit [1] as Added, skips [2] and leaves the rest out.
+  const server = await startServer(() => ({
+    entries: [
+      { commit: 1, section: "Added", text: "Notes page" },
+      { commit: 2, section: "Skip", text: "" },
+    ],
+  }));
+  try {
+    await withRepo(async (repo, root) => {
+      const cx = cliIn(repo, root);
+      const env = { ...process.env, GIT_COMMITTER_DATE: "1767225600 +0000" };
+      const messages = ["chore: init", "feat: add notes page", "test: cover notes", "fix(notes): keep order", "Tidy notes"];
+      for (const [i, message] of messages.entries()) {
+        await commitFile(repo, `${i}.txt`, `${i}\n`, message, env);
+        if (i === 0) git(repo, "tag", "v1.0.0");
+      }
+      git(repo, "tag", "v1.1.0", "HEAD~1");
+      await writeUserConfig(root, { provider: "openai", baseUrl: server.baseUrl });
+
+      const tagged = await cx("changelog", "--to", "v1.1.0", "--mode", "conventional");
+      assert.equal(
+        tagged.stdout,
+        "## [v1.1.0] - 2026-01-01\n\n### Added\n\n- Add notes page\n\n### Fixed\n\n- **notes:** Keep order\n"
+      );
+
+      await cx("changelog", "--from", "v1.0.0", "--mode", "ai", "--write");
+      assert.match(server.prompts[0], /\[1\] feat: add notes page\n\[2\] test: cover notes\n\[3\] fix\(notes\): keep order\n\[4\] Tidy notes$/);
+      assert.match(
+        await readFile(path.join(repo, "CHANGELOG.md"), "utf-8"),
+        /## \[Unreleased\]\n\n### Added\n\n- Notes page\n\n### Changed\n\n- fix\(notes\): keep order\n- Tidy notes\n$/
+      );
+
+      await assert.rejects(cx("changelog", "--mode", "guess"), /Unknown changelog mode "guess"/);
+    });
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+const loadCommitMessage = async () => {
+  const module = await import("../dist/index.js");
+  return module.commitMessage;
+};
+
+test("formatCommitBody renders a bullet list wrapped at 72 columns", async () => {
+  const { formatCommitBody } = await loadCommitMessage();
+  const body = formatCommitBody([
+    "Added exponential backoff to the API client so transient 503 responses from the gateway are retried instead of failing the sync",
+    "- Logged each retry attempt",
+  ]);
+
+  const lines = body.split("\n");
+  assert.ok(lines.every(line => line.length <= 72), body);
+  assert.ok(lines[0].startsWith("- Added exponential backoff"));
+  assert.ok(lines[1].startsWith("  "), "continuation lines use a hanging indent");
+  assert.equal(lines.at(-1), "- Logged each retry attempt", "existing bullets are not doubled");
+});
+
+test("formatCommitBody drops unsafe items and returns undefined when empty", async () => {
+  const { formatCommitBody } = await loadCommitMessage();
+  assert.equal(formatCommitBody(["<script>alert(1)</script>"]), undefined);
+  assert.equal(formatCommitBody(undefined), undefined);
+  assert.equal(formatCommitBody("Updated docs\nFixed typo"), "- Updated docs\n- Fixed typo");
+});
+
+test("splitCommitMessage and composeCommitMessage round-trip subject and body", async () => {
+  const { splitCommitMessage, composeCommitMessage } = await loadCommitMessage();
+  assert.deepEqual(splitCommitMessage("Added retry\n\n\n- one\n- two\n"), {
+    subject: "Added retry",
+    body: "- one\n- two",
+  });
+  assert.deepEqual(splitCommitMessage("Added retry"), { subject: "Added retry" });
+  assert.equal(composeCommitMessage("Added retry", "- one"), "Added retry\n\n- one");
+  assert.equal(composeCommitMessage("Added retry", "  "), "Added retry");
+});
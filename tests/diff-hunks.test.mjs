@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import test from "node:test";
+
+const loadHunks = async () => {
+  const module = await import("../dist/index.js");
+  return module.diffHunks;
+};
+
+const git = (cwd, ...args) =>
+  execFileSync("git", args, { cwd, encoding: "utf-8" });
+
+const lines = count =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+const withRepo = async run => {
+  const repo = await mkdtemp(path.join(os.tmpdir(), "commitx-hunks-"));
+  try {
+    git(repo, "init", "-q");
+    git(repo, "config", "user.email", "test@example.com");
+    git(repo, "config", "user.name", "Test");
+    await writeFile(path.join(repo, "app.ts"), `${lines(30).join("\n")}\n`);
+    git(repo, "add", "app.ts");
+    git(repo, "commit", "-qm", "init");
+    await run(repo);
+  } finally {
+    await rm(repo, { recursive: true, force: true });
+  }
+};
+
+const applyCached = async (repo, patch) => {
+  const patchPath = path.join(repo, ".git", "hunks.patch");
+  await writeFile(patchPath, patch);
+  git(repo, "apply", "--cached", "--unidiff-zero", patchPath);
+};
+
+test("splitDiffsIntoHunks only splits modified regular files with several hunks", async () => {
+  const { splitDiffsIntoHunks, diffUnitId } = await loadHunks();
+  const changes = [
+    "diff --git a/src/a.ts b/src/a.ts",
+    "index 1111111..2222222 100644",
+    "--- a/src/a.ts",
+    "+++ b/src/a.ts",
+    "@@ -2 +2 @@ export const a = () => {",
+    "-  return 1;",
+    "+  return 2;",
+    "@@ -10,0 +11,2 @@",
+    "+const b = 1;",
+    "+const c = 2;",
+  ].join("\n");
+  const base = { additions: 3, deletions: 1, isNew: false, isDeleted: false, isRenamed: false };
+
+  const { diffs, patches } = splitDiffsIntoHunks([
+    { ...base, file: "src/a.ts", changes },
+    { ...base, file: "README.md", changes },
+    { ...base, file: "src/new.ts", changes, isNew: true },
+  ]);
+
+  assert.deepEqual(diffs.map(diffUnitId), ["src/a.ts#1", "src/a.ts#2", "README.md", "src/new.ts"]);
+  assert.deepEqual([...patches.keys()], ["src/a.ts"]);
+  assert.equal(diffs[1].additions, 2);
+  assert.equal(diffs[1].deletions, 0);
+  assert.ok(diffs[1].changes.startsWith("diff --git a/src/a.ts b/src/a.ts"));
+  assert.ok(diffs[1].changes.includes("+const b = 1;"));
+  assert.ok(!diffs[1].changes.includes("return 2"));
+});
+
+test("parseFilePatch keeps mode changes and binary diffs whole", async () => {
+  const { parseFilePatch } = await loadHunks();
+  assert.equal(
+    parseFilePatch("run.sh", "diff --git a/run.sh b/run.sh\nold mode 100644\nnew mode 100755\n--- a/run.sh\n+++ b/run.sh\n@@ -1 +1 @@\n-a\n+b\n"),
+    null
+  );
+  assert.equal(
+    parseFilePatch("logo.png", "diff --git a/logo.png b/logo.png\nBinary files a/logo.png and b/logo.png differ\n"),
+    null
+  );
+});
+
+test("buildHunkPatch stages hunks of one file across separate commits", async () => {
+  const { parseFilePatch, buildHunkPatch } = await loadHunks();
+
+  await withRepo(async repo => {
+    const edited = lines(30);
+    edited.splice(2, 1, "line 3 changed"); // hunk 1: replace
+    edited.splice(12, 0, "inserted a", "inserted b"); // hunk 2: insert
+    edited.splice(27, 2); // hunk 3: delete
+    const finalContent = `${edited.join("\n")}\n`;
+    await writeFile(path.join(repo, "app.ts"), finalContent);
+
+    const patch = parseFilePatch("app.ts", git(repo, "diff", "-U0", "app.ts"));
+    assert.equal(patch.hunks.length, 3);
+
+    await applyCached(repo, buildHunkPatch(patch, [3]));
+    await applyCached(repo, buildHunkPatch(patch, [1], new Set([3])));
+    let staged = git(repo, "show", ":app.ts");
+    assert.ok(staged.includes("line 3 changed"));
+    assert.ok(!staged.includes("inserted a"));
+    assert.ok(!staged.includes("line 27\n"));
+
+    await applyCached(repo, buildHunkPatch(patch, [2], new Set([1, 3])));
+    staged = git(repo, "show", ":app.ts");
+    assert.equal(staged, finalContent);
+    assert.equal(await readFile(path.join(repo, "app.ts"), "utf-8"), finalContent);
+  });
+});
@@ -100,3 +100,28 @@ test("regular source files fall through to REGULAR", async () => {
   assert.equal(classifyFile("src/index.js").category, "REGULAR");
   assert.equal(classifyFile("test/user.test.mjs").category, "REGULAR");
 });
+
+test("project classifier overrides win over built-in rules", async () => {
+  const { classifyFile } = await loadClassifier();
+  const overrides = {
+    "docs/**": "REGULAR",
+    "src/api/*.ts": "GENERATED",
+    "*.snap": "GENERATED",
+  };
+  assert.equal(classifyFile("docs/README.md", overrides).category, "REGULAR");
+  assert.equal(
+    classifyFile("docs/README.md", overrides).deterministicMessage,
+    undefined
+  );
+  assert.equal(classifyFile("src/api/client.ts", overrides).category, "GENERATED");
+  assert.equal(
+    classifyFile("src/api/nested/client.ts", overrides).category,
+    "REGULAR",
+    "single * must not cross directory boundaries"
+  );
+  assert.equal(
+    classifyFile("tests/__snapshots__/a.snap", overrides).deterministicMessage,
+    "Regenerated derived files"
+  );
+  assert.equal(classifyFile("README.md", overrides).category, "DOC");
+});
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import test from "node:test";
+import { CLI, cliIn, commitFile, git, withRepo } from "./helpers.mjs";
+
+test("planFixups groups files by target commit and keeps files without history apart", async () => {
+  const { planFixups, autosquashCommand } = (await import("../dist/index.js")).fixup;
+  const first = { sha: "a".repeat(40), subject: "Added parser" };
+  const second = { sha: "b".repeat(40), subject: "Added lexer" };
+
+  const plan = planFixups([
+    { file: "parser.ts", commit: first },
+    { file: "lexer.ts", commit: second },
+    { file: "new.ts", commit: null },
+    { file: "parser.test.ts", commit: first },
+  ]);
+
+  assert.deepEqual(plan.groups, [
+    { target: first, files: ["parser.ts", "parser.test.ts"] },
+    { target: second, files: ["lexer.ts"] },
+  ]);
+  assert.deepEqual(plan.unmatched, ["new.ts"]);
+  assert.equal(autosquashCommand(null), "git rebase -i --autosquash --root");
+});
+
+test("getRevisionDiff describes HEAD plus the staged changes against HEAD's parent", async () => {
+  await withRepo(async repo => {
+    await commitFile(repo, "a.txt", "one\n", "init");
+    await writeFile(path.join(repo, "b.txt"), "two\n");
+    git(repo, "add", "b.txt");
+
+    process.chdir(repo);
+    const GitService = await (await import("../dist/index.js")).GitService();
+    const gitService = new GitService();
+    await gitService.isGitRepository();
+
+    const parent = await gitService.getParentRevision(git(repo, "rev-parse", "HEAD"));
+    const diffs = await gitService.getRevisionDiff(parent);
+    assert.deepEqual(diffs.map(diff => path.basename(diff.file)).sort(), ["a.txt", "b.txt"]);
+    assert.ok(diffs.every(diff => diff.isNew && diff.additions === 1));
+    assert.match(diffs.find(diff => diff.file.endsWith("b.txt")).changes, /^\+two$/m);
+  });
+});
+
+test("cx fixup creates fixup! commits that autosquash into their targets", async () => {
+  await withRepo(async (repo, root) => {
+    await commitFile(repo, "a.txt", "a\n", "Added a");
+    await commitFile(repo, "b.txt", "b\n", "Added b");
+    await commitFile(repo, "c.txt", "c\n", "Added c");
+    await writeFile(path.join(repo, "a.txt"), "a fixed\n");
+    await writeFile(path.join(repo, "b.txt"), "b fixed\n");
+    await writeFile(path.join(repo, "new.txt"), "new\n");
+
+    execFileSync(process.execPath, [CLI, "fixup"], {
+      cwd: repo,
+      env: { ...process.env, HOME: root, GEMINI_API_KEY: "" },
+      stdio: "ignore",
+    });
+
+    assert.deepEqual(git(repo, "log", "--format=%s", "-2").split("\n").sort(), ["fixup! Added a", "fixup! Added b"]);
+    assert.equal(git(repo, "status", "--porcelain"), "?? new.txt");
+
+    execFileSync("git", ["rebase", "-q", "-i", "--autosquash", "--root"], {
+      cwd: repo,
+      env: { ...process.env, GIT_SEQUENCE_EDITOR: "true" },
+    });
+    assert.deepEqual(git(repo, "log", "--format=%s").split("\n"), ["Added c", "Added b", "Added a"]);
+    assert.equal(git(repo, "show", "HEAD~2:a.txt"), "a fixed");
+  });
+});
+
+test("cx commit -m commits a plain message and refuses script content", async () => {
+  await withRepo(async (repo, root) => {
+    const cx = cliIn(repo, root, { GEMINI_API_KEY: "" });
+    await commitFile(repo, "a.txt", "a\n", "init");
+    await writeFile(path.join(repo, "a.txt"), "a fixed\n");
+    git(repo, "add", "a.txt");
+
+    await assert.rejects(cx("commit", "-m", "Added <script>alert(1)</script>"), /potentially malicious content/);
+    await cx("commit", "-m", "Fixed a");
+    assert.equal(git(repo, "log", "-1", "--format=%s"), "Fixed a");
+  });
+});
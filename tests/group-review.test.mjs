@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import test from "node:test";
+
+const loadReview = async () => {
+  const module = await import("../dist/index.js");
+  return module.groupReview;
+};
+
+const group = (files, message, extra = {}) => ({
+  files,
+  message,
+  confidence: 0.9,
+  ...extra,
+});
+
+test("mergeGroups keeps the first group's message and position", async () => {
+  const { mergeGroups } = await loadReview();
+  const groups = [
+    group(["a.ts"], "Added a"),
+    group(["b.ts"], "Added b", { body: "- b", confidence: 0.6 }),
+    group(["c.ts"], "Added c", { body: "- c" }),
+  ];
+
+  const merged = mergeGroups(groups, 2, 1);
+  assert.equal(merged.length, 2);
+  assert.deepEqual(merged[1].files, ["b.ts", "c.ts"]);
+  assert.equal(merged[1].message, "Added b");
+  assert.equal(merged[1].body, "- b\n- c");
+  assert.equal(merged[1].confidence, 0.6);
+  assert.equal(groups.length, 3, "input is not mutated");
+});
+
+test("splitGroup moves chosen files into a new group right after the source", async () => {
+  const { splitGroup } = await loadReview();
+  const groups = [group(["a.ts", "b.ts", "c.ts"], "Updated modules"), group(["d.ts"], "Added d")];
+
+  const split = splitGroup(groups, 0, ["b.ts"], "Fixed b");
+  assert.deepEqual(
+    split.map(g => [g.files, g.message]),
+    [
+      [["a.ts", "c.ts"], "Updated modules"],
+      [["b.ts"], "Fixed b"],
+      [["d.ts"], "Added d"],
+    ]
+  );
+  assert.deepEqual(
+    splitGroup(groups, 0, ["a.ts", "b.ts", "c.ts"], "x"),
+    groups,
+    "splitting off every file is a no-op"
+  );
+});
+
+test("moveFile and dropGroup never leave empty groups", async () => {
+  const { moveFile, dropGroup, editGroupMessage } = await loadReview();
+  const groups = [group(["a.ts"], "Added a"), group(["b.ts", "c.ts"], "Added b and c")];
+
+  const moved = moveFile(groups, "a.ts", 1);
+  assert.equal(moved.length, 1);
+  assert.deepEqual(moved[0].files, ["b.ts", "c.ts", "a.ts"]);
+
+  assert.deepEqual(dropGroup(groups, 0).map(g => g.message), ["Added b and c"]);
+  assert.equal(editGroupMessage(groups, 1, "Reworked b and c")[1].message, "Reworked b and c");
+});
+
+test("editGroupMessage drops the generated body only when the subject changes", async () => {
+  const { editGroupMessage } = await loadReview();
+  const groups = [group(["a.ts"], "Added a", { body: "- Added a", description: "Adds a" })];
+
+  const [edited] = editGroupMessage(groups, 0, "Reworked a");
+  assert.equal(edited.message, "Reworked a");
+  assert.equal(edited.body, undefined);
+  assert.equal(edited.description, undefined);
+  assert.deepEqual(editGroupMessage(groups, 0, "Added a"), groups);
+});
+
+test("generateSingleGroup keeps every file in one group", async () => {
+  const originalHome = process.env.HOME;
+  const homeDir = await mkdtemp(path.join(os.tmpdir(), "commitx-single-"));
+  process.env.HOME = homeDir;
+  process.env.GEMINI_API_KEY = "test-api-key-12345";
+
+  try {
+    const AIService = await (await import("../dist/index.js")).AIService();
+    const service = new AIService();
+    service.aiCache = { generateKey: () => "k", get: async () => null, set: async () => {} };
+    const prompts = [];
+    service.provider = {
+      name: "gemini",
+      generateText: async ({ prompt }) => {
+        prompts.push(prompt);
+        return JSON.stringify({
+          groups: [
+            { files: ["src/a.ts"], message: "Added retry helper", confidence: 0.9 },
+            { files: ["src/b.ts"], message: "Used retry helper", confidence: 0.8 },
+          ],
+        });
+      },
+    };
+
+    const diff = file => ({
+      file,
+      additions: 1,
+      deletions: 0,
+      changes: "+x",
+      isNew: false,
+      isDeleted: false,
+      isRenamed: false,
+    });
+    const result = await service.generateSingleGroup([diff("src/a.ts"), diff("src/b.ts"), diff("README.md")]);
+
+    assert.equal(prompts.length, 1);
+    assert.ok(prompts[0].includes("exactly ONE group"));
+    assert.deepEqual(result.files, ["src/a.ts", "src/b.ts", "README.md"]);
+    assert.equal(result.message, "Added retry helper");
+  } finally {
+    process.env.HOME = originalHome;
+    await rm(homeDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,87 @@
+import { execFile, execFileSync } from "node:child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+
+// Shared fixtures for the tests that drive git and the built CLI.
+
+export const CLI = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "dist", "cli.js");
+
+export const TEST_API_KEY = "sk-test-1234567890";
+
+export const git = (cwd, ...args) =>
+  execFileSync("git", args, { cwd, encoding: "utf-8" }).trim();
+
+// Drop command-line git config injected through the environment (it would
+// override the repository's core.hooksPath).
+export const baseEnv = Object.fromEntries(
+  Object.entries(process.env).filter(([key]) => !key.startsWith("GIT_CONFIG_"))
+);
+
+// Runs `run(repo, root)` in a fresh repository at <root>/repo; <root> serves
+// as HOME, so cx reads its user config from <root>/.commit-x.
+export const withRepo = async (run, { branch } = {}) => {
+  const root = await mkdtemp(path.join(os.tmpdir(), "commitx-"));
+  const repo = path.join(root, "repo");
+  const originalCwd = process.cwd();
+  try {
+    execFileSync("git", ["init", "-q", ...(branch ? ["-b", branch] : []), repo]);
+    git(repo, "config", "user.email", "test@example.com");
+    git(repo, "config", "user.name", "Test");
+    await run(repo, root);
+  } finally {
+    process.chdir(originalCwd);
+    await rm(root, { recursive: true, force: true });
+  }
+};
+
+export const commitFile = async (repo, file, content, message, env = process.env) => {
+  await writeFile(path.join(repo, file), content);
+  git(repo, "add", file);
+  execFileSync("git", ["commit", "-qm", message], { cwd: repo, env });
+};
+
+export const writeUserConfig = async (root, config) => {
+  await mkdir(path.join(root, ".commit-x"), { recursive: true });
+  await writeFile(path.join(root, ".commit-x", "config.json"), JSON.stringify(config));
+};
+
+// Returns cx(...args): the built CLI run in `repo` with `root` as HOME. It
+// resolves to { stdout, stderr } and rejects on a non-zero exit.
+export const cliIn = (repo, root, env = { OPENAI_API_KEY: TEST_API_KEY }) =>
+  (...args) =>
+    promisify(execFile)(process.execPath, [CLI, ...args], {
+      cwd: repo,
+      env: { ...process.env, HOME: root, ...env },
+    });
+
+// OpenAI-compatible stand-in: replies with `answer(prompt)` (objects are sent
+// as JSON) and records every prompt it was sent.
+export const startServer = async answer => {
+  const prompts = [];
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", chunk => (raw += chunk));
+    req.on("end", () => {
+      const prompt = JSON.parse(raw).messages.map(message => message.content).join("\n");
+      prompts.push(prompt);
+      const content = answer(prompt);
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(
+        JSON.stringify({
+          choices: [{ message: { content: typeof content === "string" ? content : JSON.stringify(content) } }],
+        })
+      );
+    });
+  });
+  await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+  return {
+    baseUrl: `http://127.0.0.1:${server.address().port}/v1/`,
+    prompts,
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+};
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { access, constants, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import { CLI, baseEnv, git, withRepo } from "./helpers.mjs";
+
+const cx = (cwd, home, ...args) =>
+  execFileSync(process.execPath, [CLI, ...args], {
+    cwd,
+    encoding: "utf-8",
+    env: { ...baseEnv, HOME: home, GEMINI_API_KEY: "" },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+const withHookRepo = run =>
+  withRepo(async (repo, root) => {
+    git(repo, "config", "core.hooksPath", ".git/hooks");
+    await run(repo, root);
+  });
+
+test("shouldFillMessage only fills plain commits with an empty message", async () => {
+  const { shouldFillMessage } = (await import("../dist/index.js")).hooks;
+  const template = "\n# Please enter the commit message for your changes.\n";
+
+  assert.equal(shouldFillMessage(undefined, template), true);
+  assert.equal(shouldFillMessage(undefined, `${template}# ------------------------ >8 ------------------------\ndiff --git a/x b/x\n`), true);
+  for (const source of ["message", "template", "merge", "squash", "commit"]) {
+    assert.equal(shouldFillMessage(source, template), false, source);
+  }
+  assert.equal(shouldFillMessage(undefined, "Already written\n"), false);
+});
+
+test("buildHookMessage keeps git's comments and lists extra groups as comments", async () => {
+  const { buildHookMessage } = (await import("../dist/index.js")).hooks;
+  const groups = [
+    { files: ["src/a.ts"], message: "Added retry helper", confidence: 0.9 },
+    { files: ["docs/x.md"], message: "Updated documentation", confidence: 0.9 },
+  ];
+
+  const result = buildHookMessage(groups, "# git comment\n", "Added retry helper");
+  const lines = result.split("\n");
+  assert.equal(lines[0], "Added retry helper");
+  assert.ok(lines.includes("#   Updated documentation (docs/x.md)"));
+  assert.ok(result.endsWith("# git comment\n"));
+});
+
+test("cx hook install/uninstall manage only the commit-x hook", async () => {
+  await withHookRepo(async (repo, home) => {
+    const hookPath = path.join(repo, ".git", "hooks", "prepare-commit-msg");
+
+    cx(repo, home, "hook", "install");
+    await access(hookPath, constants.X_OK);
+    assert.match(await readFile(hookPath, "utf-8"), /commit-x: prepare-commit-msg hook/);
+    cx(repo, home, "hook", "install");
+
+    cx(repo, home, "hook", "uninstall");
+    await assert.rejects(access(hookPath));
+
+    await writeFile(hookPath, "#!/bin/sh\necho mine\n");
+    assert.throws(() => cx(repo, home, "hook", "install"));
+    assert.throws(() => cx(repo, home, "hook", "uninstall"));
+    assert.equal(await readFile(hookPath, "utf-8"), "#!/bin/sh\necho mine\n");
+    cx(repo, home, "hook", "install", "--force");
+    assert.match(await readFile(hookPath, "utf-8"), /commit-x/);
+  });
+});
+
+test("the hook entry point leaves the message alone and exits 0 when it cannot help", async () => {
+  await withHookRepo(async (repo, home) => {
+    const messageFile = path.join(repo, ".git", "COMMIT_EDITMSG");
+    const original = "Merge branch 'topic'\n# comment\n";
+    await writeFile(messageFile, original);
+
+    cx(repo, home, "hook", "prepare-commit-msg", messageFile, "merge");
+    assert.equal(await readFile(messageFile, "utf-8"), original);
+
+    // No source, but nothing staged and no API key: still a silent no-op.
+    await writeFile(messageFile, "\n# comment\n");
+    cx(repo, home, "hook", "prepare-commit-msg", messageFile);
+    assert.equal(await readFile(messageFile, "utf-8"), "\n# comment\n");
+  });
+});
@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+const load = async () => (await import("../dist/index.js")).jsonExtract;
+
+test("extractJsonObject skips prose, fences and non-JSON braces around the answer", async () => {
+  const { extractJsonObject } = await load();
+
+  assert.deepEqual(
+    extractJsonObject('Use {ticket} in the subject.\n```json\n{"groups":[{"message":"Fix \\"}\\" escaping"}]}\n```\nLet me know {if} anything is off.'),
+    { value: { groups: [{ message: 'Fix "}" escaping' }] }, repaired: false }
+  );
+  assert.equal(extractJsonObject("No JSON here."), undefined);
+});
+
+test("extractJsonObject drops the unfinished element of a cut-off answer", async () => {
+  const { extractJsonObject } = await load();
+  const complete = '{"files":["a.ts"],"message":"Added login","confidence":0.9}';
+
+  for (const cutOff of [
+    `{"groups":[${complete},{"files":["b.ts"],"message":"Upd`,
+    `{"groups":[${complete},{"files":["b.ts"],"message":"Updated b","confidence":0.`,
+    `{"groups":[${complete},{"files":["b.ts"],"message":"Updated b","description":["Adds the form","Adds valid`,
+    `{"groups":[${complete},{"files":["b.ts"],"message":"Updated b","description":["Adds the form"`,
+    `{"groups":[${complete},`,
+    `{"groups":[${complete}`,
+  ]) {
+    assert.deepEqual(extractJsonObject(cutOff), { value: { groups: [JSON.parse(complete)] }, repaired: true }, cutOff);
+  }
+  assert.equal(extractJsonObject('{"groups":[{"files":["a.ts"],"message":"Added'), undefined);
+  assert.equal(extractJsonObject('{"title":"Add login","body":"Adds the'), undefined);
+});
+
+test("parseJsonResponse keeps the parsers' error messages", async () => {
+  const { parseJsonResponse } = await load();
+  assert.throws(() => parseJsonResponse("Sorry, I can't help."), /No valid JSON found in AI response/);
+  assert.throws(() => parseJsonResponse("Here: { oops"), /Failed to parse AI JSON response/);
+});
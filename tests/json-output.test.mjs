@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import { cliIn, git, startServer, withRepo, writeUserConfig } from "./helpers.mjs";
+
+// Puts both source files in one group.
+const groupSources = () => ({
+  groups: [{ files: ["src/app.ts", "src/util.ts"], message: "Updated app modules", confidence: 0.9 }],
+});
+
+const withAppRepo = run =>
+  withRepo(
+    async (repo, root) => {
+      await mkdir(path.join(repo, "src"));
+      await writeFile(path.join(repo, "src", "app.ts"), "export const a = 1;\n");
+      await writeFile(path.join(repo, "old.txt"), "old\n");
+      git(repo, "add", ".");
+      git(repo, "commit", "-qm", "init");
+      await run(repo, root, cliIn(repo, root));
+    },
+    { branch: "main" }
+  );
+
+test("withConsoleOnStderr moves console.log only while the command runs", async () => {
+  const { withConsoleOnStderr } = (await import("../dist/index.js")).jsonOutput;
+  const log = console.log;
+
+  assert.equal(await withConsoleOnStderr(false, async () => console.log === log), true);
+  await assert.rejects(
+    withConsoleOnStderr(true, async () => {
+      assert.equal(console.log, console.error);
+      throw new Error("boom");
+    }),
+    /boom/
+  );
+  assert.equal(console.log, log);
+});
+
+test("cx status --json and cx diff --json print one versioned document on stdout", async () => {
+  await withAppRepo(async (repo, root, cx) => {
+    await writeFile(path.join(repo, "src", "app.ts"), "export const a = 2;\nexport const b = 3;\n");
+    await writeFile(path.join(repo, "new.txt"), "new\n");
+    git(repo, "rm", "-q", "old.txt");
+
+    const status = JSON.parse((await cx("status", "--json")).stdout);
+    assert.equal(status.version, 1);
+    assert.equal(status.branch, "main");
+    const names = files => files.map(file => path.basename(file));
+    assert.deepEqual(names(status.staged), ["old.txt"]);
+    assert.deepEqual(names(status.unstaged), ["app.ts"]);
+    assert.deepEqual(names(status.untracked), ["new.txt"]);
+    assert.equal(status.lastCommit, "init");
+
+    const diff = JSON.parse((await cx("diff", "--json")).stdout);
+    assert.equal(diff.version, 1);
+    const byFile = Object.fromEntries(diff.files.map(file => [path.basename(file.file), file]));
+    assert.deepEqual(
+      { status: byFile["app.ts"].status, additions: byFile["app.ts"].additions, deletions: byFile["app.ts"].deletions },
+      { status: "modified", additions: 2, deletions: 1 }
+    );
+    assert.equal(byFile["new.txt"].status, "added");
+    assert.equal(diff.totals.files, diff.files.length);
+  });
+});
+
+test("cx commit --dry-run --json reports groups, skipped files and privacy outcome", async () => {
+  const server = await startServer(groupSources);
+  try {
+    await withAppRepo(async (repo, root, cx) => {
+      await writeUserConfig(root, { provider: "openai", baseUrl: server.baseUrl, ignore: ["*.snap"] });
+      await writeFile(path.join(repo, "src", "app.ts"), "export const a = 2;\n");
+      await writeFile(path.join(repo, "src", "util.ts"), "export const u = 1;\n");
+      await writeFile(path.join(repo, "view.snap"), "snapshot\n");
+      await writeFile(path.join(repo, ".env"), "API_KEY=secret\n");
+
+      await assert.rejects(cx("commit", "--json"), /--json only works with cx commit --dry-run/);
+
+      const { stdout } = await cx("commit", "--dry-run", "--json");
+      const plan = JSON.parse(stdout);
+      assert.equal(plan.version, 1);
+      assert.equal(plan.dryRun, true);
+      assert.deepEqual(plan.groups.map(group => [group.files.map(file => path.basename(file)).sort(), group.message]), [
+        [["app.ts", "util.ts"], "Updated app modules"],
+      ]);
+      const skipped = Object.fromEntries(plan.skippedFiles.map(file => [path.basename(file.file), file.reason]));
+      assert.equal(skipped["view.snap"], "Matches an ignore pattern");
+      assert.deepEqual(plan.privacy.skippedFiles.map(file => path.basename(file.file)), [".env"]);
+      assert.equal(git(repo, "rev-list", "--count", "HEAD"), "1");
+    });
+  } finally {
+    await server.close();
+  }
+});
+
+test("cx config get --json prints values with their sources and masks the API key", async () => {
+  await withAppRepo(async (repo, root, cx) => {
+    await writeUserConfig(root, { provider: "openai", apiKey: "sk-stored-1234567890" });
+
+    const all = JSON.parse((await cx("config", "get", "--json")).stdout);
+    assert.equal(all.version, 1);
+    assert.equal(all.values.provider.value, "openai");
+    assert.equal(all.values.provider.source.kind, "user");
+    assert.equal(all.values.apiKey.value, "********");
+
+    const one = JSON.parse((await cx("config", "get", "maxFilesPerGroup", "--json")).stdout);
+    assert.deepEqual(Object.keys(one.values), ["maxFilesPerGroup"]);
+    assert.equal(one.values.maxFilesPerGroup.source.kind, "default");
+  });
+});
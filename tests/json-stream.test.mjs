@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+const load = async () => (await import("../dist/index.js")).jsonStream;
+
+test("createArrayItemStream reports each group as soon as it is complete", async () => {
+  const { createArrayItemStream } = await load();
+  const items = [];
+  const push = createArrayItemStream("groups", item => items.push(item));
+
+  const response =
+    'Sure!\n```json\n{"groups":[{"files":["a.ts"],"message":"Fix \\"}\\" parsing","confidence":0.9},' +
+    '{"files":["b/[x].ts"],"message":"Add {braces}"},"skip",{"files":[';
+  const seen = [];
+  for (let i = 0; i < response.length; i += 7) {
+    push(response.slice(i, i + 7));
+    seen.push(items.length);
+  }
+
+  assert.deepEqual(items, [
+    { files: ["a.ts"], message: 'Fix "}" parsing', confidence: 0.9 },
+    { files: ["b/[x].ts"], message: "Add {braces}" },
+  ]);
+  assert.ok(seen.indexOf(1) < seen.indexOf(2), "the first group is reported before the second arrives");
+
+  push('"c.ts"],"message":"Last"}],"other":[{"files":[],"message":"ignored"}]}');
+  assert.equal(items.length, 3);
+  assert.equal(items[2].message, "Last");
+});
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { execFileSync, spawnSync } from "node:child_process";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import { CLI, baseEnv, git, withRepo } from "./helpers.mjs";
+
+test("lintCommitMessage applies length, body and style rules", async () => {
+  const { lintCommitMessage } = (await import("../dist/index.js")).lintMsg;
+
+  assert.deepEqual(lintCommitMessage("Added retry helper\n# comment\n", "plain"), []);
+  assert.deepEqual(lintCommitMessage("feat(api): add retry helper\n", "conventional"), []);
+  assert.equal(lintCommitMessage(`Added ${"x".repeat(250)}`, "plain").length, 1);
+  assert.match(lintCommitMessage("Added retry helper", "conventional")[0], /"conventional" message style/);
+  assert.match(
+    lintCommitMessage("Feat: Add retry helper", "conventional")[0],
+    /expected something like "feat: add retry helper"/
+  );
+  assert.match(
+    lintCommitMessage(`Added retry helper\n\n${"word ".repeat(30)}`, "plain")[0],
+    /Commit body line 1 exceeds/
+  );
+  assert.deepEqual(lintCommitMessage("   \n# only comments\n", "plain"), ["Commit message cannot be empty"]);
+});
+
+test("lintCommitMessage skips messages git writes and text below the scissors", async () => {
+  const { lintCommitMessage } = (await import("../dist/index.js")).lintMsg;
+
+  for (const message of ["Merge branch 'topic'", 'Revert "feat: add x"', "fixup! feat: add x"]) {
+    assert.deepEqual(lintCommitMessage(message, "conventional"), [], message);
+  }
+  const verbose = "fix: handle empty input\n# ------------------------ >8 ------------------------\ndiff --git a/x b/x\n+Anything goes here\n";
+  assert.deepEqual(lintCommitMessage(verbose, "conventional"), []);
+});
+
+test("the commit-msg hook rejects bad messages with a non-zero exit", async () => {
+  await withRepo(async (repo, root) => {
+    const env = { ...baseEnv, HOME: root, GEMINI_API_KEY: "", PATH: `${path.join(root, "bin")}${path.delimiter}${process.env.PATH}` };
+    git(repo, "config", "core.hooksPath", ".git/hooks");
+    // Put the freshly built CLI on PATH as `cx`, as an installed package would.
+    await mkdir(path.join(root, "bin"));
+    await writeFile(path.join(root, "bin", "cx"), `#!/bin/sh\nexec "${process.execPath}" "${CLI}" "$@"\n`, { mode: 0o755 });
+
+    execFileSync("cx", ["hook", "install", "commit-msg"], { cwd: repo, env, stdio: "ignore" });
+    assert.match(await readFile(path.join(repo, ".git", "hooks", "commit-msg"), "utf-8"), /cx lint-msg/);
+
+    const rejected = spawnSync("git", ["commit", "--allow-empty", "-m", `Added ${"x".repeat(250)}`], { cwd: repo, env, encoding: "utf-8" });
+    assert.notEqual(rejected.status, 0);
+    assert.match(rejected.stderr, /Commit message rejected/);
+    assert.match(rejected.stderr, /characters or less/);
+
+    const accepted = spawnSync("git", ["commit", "--allow-empty", "-m", "Added retry helper"], { cwd: repo, env, encoding: "utf-8" });
+    assert.equal(accepted.status, 0, accepted.stderr);
+
+    const direct = spawnSync("cx", ["lint-msg", path.join(root, "missing")], { cwd: repo, env, encoding: "utf-8" });
+    assert.notEqual(direct.status, 0);
+  });
+});
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+const loadStyle = async () => {
+  const module = await import("../dist/index.js");
+  return module.messageStyle;
+};
+
+test("gitmoji style keeps a leading emoji and infers one when missing", async () => {
+  const { validateMessageStyle } = await loadStyle();
+  assert.deepEqual(validateMessageStyle("✨ Added dark mode toggle", "gitmoji"), {
+    isValid: true,
+  });
+  assert.equal(
+    validateMessageStyle("Fixed retry on 503 responses", "gitmoji").correctedMessage,
+    "🐛 Fixed retry on 503 responses"
+  );
+  assert.equal(
+    validateMessageStyle(":bug: Fixed retry on 503 responses", "gitmoji").isValid,
+    true
+  );
+});
+
+test("deterministic messages follow the configured style", async () => {
+  const { applyMessageStyle } = await loadStyle();
+  assert.equal(
+    applyMessageStyle("Updated project dependencies", "gitmoji", "LOCK"),
+    "⬆️ Updated project dependencies"
+  );
+  assert.equal(
+    applyMessageStyle("Updated documentation", "conventional", "DOC"),
+    "docs: update documentation"
+  );
+  assert.equal(
+    applyMessageStyle("Updated documentation", "template", "DOC"),
+    "Updated documentation"
+  );
+});
+
+test("template style fills ticket, branch, files and subject placeholders", async () => {
+  const { renderStyledMessage } = await loadStyle();
+  const files = ["src/a.ts", "src/b.ts", "src/c.ts", "src/d.ts"];
+
+  assert.equal(
+    renderStyledMessage("Added login form", files, "template", {
+      branch: "feature/ABC-42-login",
+      template: "[{ticket}] {Subject} ({files})",
+    }),
+    "[ABC-42] Added login form (a.ts, b.ts, c.ts +1 more)"
+  );
+  assert.equal(
+    renderStyledMessage("Added login form", ["src/a.ts"], "template", {
+      branch: "main",
+      template: "[{ticket}] {subject} on {branch}",
+    }),
+    "added login form on main",
+    "empty ticket brackets are dropped"
+  );
+  assert.equal(
+    renderStyledMessage("Added login form", ["src/a.ts"], "plain", {
+      template: "[{ticket}] {Subject}",
+    }),
+    "Added login form",
+    "templates only apply in template style"
+  );
+});
+
+test("ticket references follow the configured placement", async () => {
+  const { applyTicketReference } = await loadStyle();
+  const branch = "feature/ABC-9-foo";
+
+  assert.equal(
+    applyTicketReference("Added login form", { branch, placement: "prefix", style: "plain" }),
+    "[ABC-9] Added login form"
+  );
+  assert.equal(
+    applyTicketReference("feat(auth): add login form", {
+      branch,
+      placement: "prefix",
+      style: "conventional",
+    }),
+    "feat(auth): [ABC-9] add login form",
+    "prefix goes after the conventional header lead"
+  );
+  assert.equal(
+    applyTicketReference("Added login form", { branch, placement: "suffix", style: "plain" }),
+    "Added login form (ABC-9)"
+  );
+  assert.equal(
+    applyTicketReference("Added login form\n\n- Added the form", {
+      branch,
+      placement: "trailer",
+      style: "plain",
+    }),
+    "Added login form\n\n- Added the form\n\nRefs: ABC-9"
+  );
+  assert.equal(
+    applyTicketReference("Added login form", { branch, style: "plain" }),
+    "Added login form",
+    "no placement means no ticket"
+  );
+  assert.equal(
+    applyTicketReference("[ABC-9] Added login form", { branch, placement: "prefix", style: "plain" }),
+    "[ABC-9] Added login form",
+    "existing references are not duplicated"
+  );
+});
+
+test("ticket patterns are configurable and tried in order", async () => {
+  const { applyTicketReference } = await loadStyle();
+  assert.equal(
+    applyTicketReference("Fixed crash", { branch: "bugfix/#456-crash", placement: "suffix", style: "plain" }),
+    "Fixed crash (#456)"
+  );
+  assert.equal(
+    applyTicketReference("Fixed crash", { branch: "main", placement: "suffix", style: "plain" }),
+    "Fixed crash"
+  );
+  assert.equal(
+    applyTicketReference("Fixed crash", {
+      branch: "issue/123-crash",
+      ticketPatterns: ["^issue/(\\d+)"],
+      placement: "trailer",
+      style: "plain",
+    }),
+    "Fixed crash\n\nRefs: 123"
+  );
+});
+
+test("ticket keys are matched case-sensitively and kept as written", async () => {
+  const { applyTicketReference } = await loadStyle();
+  const options = { placement: "prefix", style: "plain" };
+  for (const branch of ["hotfix/node-20-upgrade", "feature/step-2-ui", "release-2", "renovate/lodash-4.x", "fix/add-2fa"]) {
+    assert.equal(applyTicketReference("Added login form", { ...options, branch }), "Added login form", branch);
+  }
+  assert.equal(
+    applyTicketReference("Added 2FA", { ...options, branch: "fix/ABC-2fa" }),
+    "Added 2FA",
+    "a key must end at its digits"
+  );
+  assert.equal(
+    applyTicketReference("Added login form", {
+      ...options,
+      branch: "feature/abc-9-login",
+      ticketPatterns: ["^feature/([a-z]+-\\d+)-"],
+    }),
+    "[abc-9] Added login form",
+    "a configured pattern's capture is used as is"
+  );
+  assert.equal(
+    applyTicketReference("Added login form", { ...options, branch: "feature/abc-9-login", ticketPatterns: ["[A-Z]+-\\d+"] }),
+    "Added login form"
+  );
+});
@@ -33,27 +33,24 @@ test("transient errors retry across the model fallback chain", async () => {
   };
 
   let calls = 0;
-  service.genAI = {
-    models: {
-      generateContent: async () => {
-        calls += 1;
-        if (calls === 1) {
-          const err = new Error("connection refused");
-          err.code = "ECONNREFUSED";
-          throw err;
-        }
-        return {
-          text: JSON.stringify({
-            groups: [
-              {
-                files: ["src/app.ts"],
-                message: "Updated app module",
-                confidence: 0.9,
-              },
-            ],
-          }),
-        };
-      },
+  service.provider = {
+    name: "gemini",
+    generateText: async () => {
+      calls += 1;
+      if (calls === 1) {
+        const err = new Error("connection refused");
+        err.code = "ECONNREFUSED";
+        throw err;
+      }
+      return JSON.stringify({
+        groups: [
+          {
+            files: ["src/app.ts"],
+            message: "Updated app module",
+            confidence: 0.9,
+          },
+        ],
+      });
     },
   };
 
@@ -81,12 +78,11 @@ test("VALIDATION_ERROR short-circuits the fallback chain (H1)", async () => {
   };
 
   let calls = 0;
-  service.genAI = {
-    models: {
-      generateContent: async () => {
-        calls += 1;
-        return { text: "" };
-      },
+  service.provider = {
+    name: "gemini",
+    generateText: async () => {
+      calls += 1;
+      return "";
     },
   };
 
@@ -116,3 +112,91 @@ test("VALIDATION_ERROR short-circuits the fallback chain (H1)", async () => {
     "validation errors must not trigger model fallback retries"
   );
 });
+
+test("configured model chain is walked in order with per-model retries", async () => {
+  process.env.GEMINI_API_KEY = TEST_API_KEY;
+  const AIService = await loadAIService();
+  const service = new AIService();
+
+  service.aiCache = {
+    generateKey: () => "k",
+    get: async () => null,
+    set: async () => {},
+  };
+  service.modelChain = [
+    { name: "pinned-model", retries: 1 },
+    { name: "approved-backup", timeoutMs: 5000 },
+  ];
+
+  const models = [];
+  service.provider = {
+    name: "gemini",
+    generateText: async ({ model }) => {
+      models.push(model);
+      if (model === "pinned-model") {
+        const err = new Error("connection refused");
+        err.code = "ECONNREFUSED";
+        throw err;
+      }
+      return JSON.stringify({
+        groups: [
+          { files: ["src/app.ts"], message: "Updated app module", confidence: 0.9 },
+        ],
+      });
+    },
+  };
+
+  const result = await service.generateAggregatedCommits(makeDiffs(), {});
+  assert.deepEqual(
+    models,
+    ["pinned-model", "pinned-model", "approved-backup"],
+    "retries: 1 allows one extra attempt before falling back to the next model"
+  );
+  assert.equal(result.groups[0].message, "Updated app module");
+});
+
+test("previews streamed by a failed attempt are withdrawn before the fallback", async () => {
+  process.env.GEMINI_API_KEY = TEST_API_KEY;
+  const AIService = await loadAIService();
+  const service = new AIService();
+
+  service.aiCache = {
+    generateKey: () => "k",
+    get: async () => null,
+    set: async () => {},
+  };
+
+  const answer = message =>
+    JSON.stringify({ groups: [{ files: ["src/app.ts"], message, confidence: 0.9 }] });
+  let calls = 0;
+  service.provider = {
+    name: "gemini",
+    generateText: async ({ onText }) => {
+      calls += 1;
+      if (calls === 1) {
+        onText(`${answer("Stale group").slice(0, -2)},{"files":[`);
+        const err = new Error("connection refused");
+        err.code = "ECONNREFUSED";
+        throw err;
+      }
+      onText(answer("Updated app module"));
+      return answer("Updated app module");
+    },
+  };
+
+  let previews = [];
+  const originalWarn = console.warn;
+  console.warn = () => {};
+  try {
+    await service.generateAggregatedCommits(makeDiffs(), {
+      onGroupPreview: preview => previews.push(preview),
+      onAttemptFailed: stale => {
+        previews = previews.filter(preview => !stale.includes(preview));
+      },
+    });
+  } finally {
+    console.warn = originalWarn;
+  }
+  assert.equal(calls, 2);
+  assert.deepEqual(previews, [{ files: ["src/app.ts"], message: "Updated app module" }]);
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import test from "node:test";
+import { cliIn, commitFile, git, startServer, withRepo, writeUserConfig } from "./helpers.mjs";
+
+const DESCRIPTION = {
+  title: "Add notes",
+  summary: "Adds two notes files.",
+  changes: [{ area: "notes", items: ["Added b.txt", "- Added\nc.txt"] }, { area: "empty", items: [] }],
+  testing: ["Open the notes"],
+};
+
+test("formatPullRequestMarkdown renders sections and skips empty ones", async () => {
+  const { formatPullRequestMarkdown } = (await import("../dist/index.js")).prDescription;
+
+  assert.equal(
+    formatPullRequestMarkdown({ ...DESCRIPTION, changes: [{ area: "notes", items: ["Added b.txt"] }] }),
+    "# Add notes\n\n## Summary\n\nAdds two notes files.\n\n## Changes\n\n### notes\n\n- Added b.txt\n\n## Testing\n\n- Open the notes\n"
+  );
+  assert.equal(
+    formatPullRequestMarkdown({ title: "T", summary: "S", changes: [], testing: [] }),
+    "# T\n\n## Summary\n\nS\n"
+  );
+});
+
+test("cx pr-description prints the branch description or writes it to a file", async () => {
+  const server = await startServer(() => `Here you go:\n${JSON.stringify(DESCRIPTION)}`);
+  try {
+    await withRepo(
+      async (repo, root) => {
+        const cx = cliIn(repo, root);
+        for (const [file, message] of [["a.txt", "init"], ["b.txt", "wip"], ["c.txt", "more notes"]]) {
+          if (file === "b.txt") git(repo, "checkout", "-qb", "topic");
+          await commitFile(repo, file, `${file}\n`, message);
+        }
+        await writeUserConfig(root, { provider: "openai", baseUrl: server.baseUrl });
+
+        await assert.rejects(cx("pr-description"), /No main or master branch found; pass --base/);
+
+        const { stdout } = await cx("pr-description", "--base", "trunk");
+        assert.match(stdout, /^# Add notes\n\n## Summary\n/);
+        assert.match(stdout, /### notes\n\n- Added b\.txt\n- Added c\.txt\n\n## Testing/);
+        assert.doesNotMatch(stdout, /### empty|Generated/);
+        assert.match(server.prompts[0], /merging branch topic into trunk/);
+        assert.match(server.prompts[0], /- wip\n\s+- more notes\nFiles:/);
+        assert.doesNotMatch(server.prompts[0], /a\.txt/);
+
+        await cx("pr-description", "--base", "trunk", "-o", "pr.md");
+        assert.equal(await readFile(path.join(repo, "pr.md"), "utf-8"), stdout);
+      },
+      { branch: "trunk" }
+    );
+  } finally {
+    await server.close();
+  }
+});
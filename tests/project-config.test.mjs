@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import process from "node:process";
+import test from "node:test";
+
+const makeRepo = async files => {
+  const repoDir = await mkdtemp(path.join(os.tmpdir(), "commitx-project-"));
+  await mkdir(path.join(repoDir, ".git"));
+  for (const [name, content] of Object.entries(files)) {
+    await writeFile(path.join(repoDir, name), JSON.stringify(content));
+  }
+  return repoDir;
+};
+
+test(".commitxrc.json is preferred over the package.json commitx key", async () => {
+  const { projectConfig } = await import("../dist/index.js");
+  const repoDir = await makeRepo({
+    ".commitxrc.json": { maxFilesPerGroup: 3 },
+    "package.json": { name: "x", commitx: { maxFilesPerGroup: 9 } },
+  });
+  await mkdir(path.join(repoDir, "src"));
+
+  try {
+    const loaded = projectConfig.loadProjectConfig(path.join(repoDir, "src"));
+    assert.equal(loaded.path, path.join(repoDir, ".commitxrc.json"));
+    assert.equal(loaded.config.maxFilesPerGroup, 3);
+  } finally {
+    await rm(repoDir, { recursive: true, force: true });
+  }
+});
+
+test("project config may not carry credentials", async () => {
+  const { projectConfig } = await import("../dist/index.js");
+  const repoDir = await makeRepo({
+    "package.json": { commitx: { apiKey: "AIzaSyExampleExampleExample123" } },
+  });
+  const originalWarn = console.warn;
+  console.warn = () => {};
+
+  try {
+    assert.equal(projectConfig.loadProjectConfig(repoDir), null);
+  } finally {
+    console.warn = originalWarn;
+    await rm(repoDir, { recursive: true, force: true });
+  }
+});
+
+test("project config may not choose the provider or its models", async () => {
+  const { projectConfig } = await import("../dist/index.js");
+  const originalWarn = console.warn;
+  console.warn = () => {};
+
+  try {
+    for (const settings of [{ provider: "ollama" }, { models: ["gemini-2.5-pro"] }]) {
+      const repoDir = await makeRepo({ ".commitxrc.json": settings });
+      try {
+        assert.equal(projectConfig.loadProjectConfig(repoDir), null);
+      } finally {
+        await rm(repoDir, { recursive: true, force: true });
+      }
+    }
+  } finally {
+    console.warn = originalWarn;
+  }
+});
+
+test("project values override user config and report their source", async () => {
+  const originalHome = process.env.HOME;
+  const originalCwd = process.cwd();
+  const homeDir = await mkdtemp(path.join(os.tmpdir(), "commitx-home-"));
+  await mkdir(path.join(homeDir, ".commit-x"));
+  await writeFile(
+    path.join(homeDir, ".commit-x", "config.json"),
+    JSON.stringify({ provider: "ollama", maxFilesPerGroup: 5 })
+  );
+  const repoDir = await makeRepo({
+    ".commitxrc.json": { maxFilesPerGroup: 2, ignore: ["fixtures/"] },
+  });
+  process.env.HOME = homeDir;
+  process.chdir(repoDir);
+
+  try {
+    const ConfigManager = await (await import("../dist/index.js")).ConfigManager();
+    const config = ConfigManager.getInstance();
+
+    assert.equal(config.get("maxFilesPerGroup"), 2);
+    assert.equal(config.get("provider"), "ollama");
+    assert.deepEqual(config.get("ignore"), ["fixtures/"]);
+    assert.deepEqual(config.getSource("maxFilesPerGroup"), {
+      kind: "project",
+      path: path.join(repoDir, ".commitxrc.json"),
+    });
+    assert.equal(config.getSource("provider").kind, "user");
+    assert.equal(config.getSource("models").kind, "default");
+  } finally {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    await rm(repoDir, { recursive: true, force: true });
+    await rm(homeDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { cliIn, commitFile, git, startServer, withRepo, writeUserConfig } from "./helpers.mjs";
+
+test("suggestBump picks major, minor or patch and stays below 1.0.0", async () => {
+  const { suggestBump, applyBump, parseVersionTag, formatVersionTag } = (await import("../dist/index.js")).release;
+  const v1 = parseVersionTag("v1.4.2-rc.1");
+  const v0 = parseVersionTag("0.3.0");
+  const entry = (section, breaking) => ({ sha: "a", section, text: "x", ...(breaking && { breaking }) });
+
+  assert.deepEqual(v1, { prefix: "v", major: 1, minor: 4, patch: 2, prerelease: "rc.1" });
+  assert.deepEqual(parseVersionTag("1.0.0+build.5"), { prefix: "", major: 1, minor: 0, patch: 0 });
+  assert.equal(parseVersionTag("release-7"), null);
+  assert.deepEqual(suggestBump([entry("Fixed"), entry("Changed", true)], v1), { bump: "major", reason: "1 breaking change" });
+  assert.equal(suggestBump([entry("Changed", true)], v0).bump, "minor");
+  assert.deepEqual(suggestBump([entry("Added"), entry("Added")], v1), { bump: "minor", reason: "2 new features" });
+  assert.equal(suggestBump([], v1).bump, "patch");
+  assert.equal(formatVersionTag(applyBump(v1, "major")), "v2.0.0");
+  assert.equal(formatVersionTag(applyBump(v0, "minor")), "0.4.0");
+  assert.equal(formatVersionTag(applyBump(v1, "patch")), "v1.4.2");
+  assert.equal(formatVersionTag(applyBump(v1, "minor")), "v1.5.0");
+  assert.equal(formatVersionTag(applyBump(v0, "patch")), "0.3.1");
+
+  const rc = parseVersionTag("v1.2.0-rc.1");
+  assert.equal(formatVersionTag(applyBump(rc, "patch")), "v1.2.0");
+  assert.equal(formatVersionTag(applyBump(rc, "minor")), "v1.2.0");
+  assert.equal(formatVersionTag(applyBump(rc, "major")), "v2.0.0");
+  assert.equal(formatVersionTag(applyBump(parseVersionTag("v2.0.0-beta"), "major")), "v2.0.0");
+});
+
+test("cx release suggests the next version and tags it with the notes", async () => {
+  // Calls the first commit a breaking removal.
+  const server = await startServer(() => ({
+    entries: [{ commit: 1, section: "Removed", breaking: true, text: "Drop the legacy flag" }],
+  }));
+  try {
+    await withRepo(async (repo, root) => {
+      const cx = (...args) => cliIn(repo, root)("release", ...args);
+      for (const [i, message] of ["chore: init", "feat: add export", "fix: trim names"].entries()) {
+        await commitFile(repo, `${i}.txt`, `${i}\n`, message);
+        if (i === 0) git(repo, "tag", "v1.0.0");
+      }
+      git(repo, "tag", "deploy-prod"); // not a version, so not the previous release
+      await writeUserConfig(root, { provider: "openai", baseUrl: server.baseUrl, messageStyle: "conventional" });
+
+      const preview = await cx();
+      assert.match(preview.stdout, /2 commits since v1\.0\.0\nBump: minor \(1 new feature\)\nNext version: v1\.1\.0/);
+      assert.match(preview.stdout, /Run cx release --yes to tag HEAD as v1\.1\.0/);
+      assert.equal(git(repo, "tag", "--list", "v1.1.0"), "");
+
+      const ai = await cx("--mode", "ai", "--dry-run");
+      assert.match(ai.stdout, /Bump: major \(1 breaking change\)\nNext version: v2\.0\.0/);
+      assert.match(ai.stdout, /### Changed\n\n- fix: trim names\n\n### Removed\n\n- \*\*Breaking:\*\* Drop the legacy flag\n/);
+
+      await cx("--bump", "patch", "--yes");
+      assert.equal(git(repo, "cat-file", "-t", "v1.0.1"), "tag");
+      assert.match(
+        git(repo, "tag", "--list", "--format=%(contents)", "v1.0.1"),
+        /^v1\.0\.1\n\n## \[v1\.0\.1\] - \d{4}-\d{2}-\d{2}\n\n### Added\n\n- Add export\n\n### Fixed\n\n- Trim names$/
+      );
+      await assert.rejects(cx("--bump", "huge"), /Unknown bump "huge"/);
+    });
+  } finally {
+    await server.close();
+  }
+});
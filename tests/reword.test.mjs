@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import process from "node:process";
+import test from "node:test";
+import { cliIn, commitFile, git, startServer, withRepo, writeUserConfig } from "./helpers.mjs";
+
+// Describes whichever file the prompt shows.
+const describeFile = prompt => {
+  const [file] = prompt.match(/[a-z]\.txt/);
+  return { groups: [{ files: [file], message: `Added notes file ${file}`, confidence: 0.9 }] };
+};
+
+test("findRewordBlocker refuses commits off the branch and merges", async () => {
+  const { findRewordBlocker } = (await import("../dist/index.js")).reword;
+  const commit = (sha, parents) => ({ sha, parents, tree: "t", message: "wip" });
+  const chain = [commit("a".repeat(40), ["0".repeat(40)]), commit("b".repeat(40), ["a".repeat(40)])];
+
+  assert.equal(findRewordBlocker(chain, ["b".repeat(40)]), null);
+  assert.match(findRewordBlocker(chain, ["c".repeat(40)]), /not on the checked-out branch/);
+  assert.match(
+    findRewordBlocker([...chain, commit("d".repeat(40), ["b".repeat(40), "e".repeat(40)])], ["b".repeat(40)]),
+    /is a merge/
+  );
+});
+
+test("normalizeRewordRange keeps A..B, narrows a single revision and refuses the rest", async () => {
+  const { normalizeRewordRange } = (await import("../dist/index.js")).reword;
+  assert.equal(normalizeRewordRange("main..HEAD"), "main..HEAD");
+  assert.equal(normalizeRewordRange("HEAD~2.."), "HEAD~2..");
+  assert.equal(normalizeRewordRange("HEAD~3"), "HEAD~3^!");
+  assert.equal(normalizeRewordRange("abc1234^!"), "abc1234^!");
+  for (const range of ["main...HEAD", "^main", "--all", "main HEAD", " "]) {
+    assert.equal(normalizeRewordRange(range), null, range);
+  }
+});
+
+test("cx reword --yes rewrites messages and keeps trees, authors and dates", async () => {
+  const server = await startServer(describeFile);
+  try {
+    await withRepo(async (repo, root) => {
+      const env = {
+        ...process.env,
+        GIT_AUTHOR_NAME: "Original Author",
+        GIT_AUTHOR_DATE: "1700000000 +0200",
+        GIT_COMMITTER_DATE: "1700000100 +0200",
+      };
+      for (const [file, message] of [["a.txt", "init"], ["b.txt", "wip"], ["c.txt", "wip again"]]) {
+        await commitFile(repo, file, `${file}\n`, message, env);
+      }
+      const before = git(repo, "log", "--format=%T %an %ad %cd", "--date=raw");
+      const originalHead = git(repo, "rev-parse", "HEAD");
+
+      await writeUserConfig(root, { provider: "openai", baseUrl: server.baseUrl });
+      await cliIn(repo, root)("reword", "HEAD~2..", "--yes", "--no-body");
+
+      assert.deepEqual(git(repo, "log", "--format=%s").split("\n"), [
+        "Added notes file c.txt",
+        "Added notes file b.txt",
+        "init",
+      ]);
+      assert.equal(git(repo, "log", "--format=%T %an %ad %cd", "--date=raw"), before);
+      assert.equal(git(repo, "status", "--porcelain"), "");
+
+      await cliIn(repo, root, {})("undo");
+      assert.equal(git(repo, "rev-parse", "HEAD"), originalHead);
+    });
+  } finally {
+    await server.close();
+  }
+});
+
+test("cx reword with a single revision rewords only that commit", async () => {
+  const server = await startServer(describeFile);
+  try {
+    await withRepo(async (repo, root) => {
+      const cx = cliIn(repo, root);
+      for (const [file, message] of [["a.txt", "init"], ["b.txt", "wip"], ["c.txt", "wip again"]]) {
+        await commitFile(repo, file, `${file}\n`, message);
+      }
+      await writeUserConfig(root, { provider: "openai", baseUrl: server.baseUrl });
+
+      await assert.rejects(cx("reword", "HEAD~2...HEAD", "--yes"), /Invalid range "HEAD~2\.\.\.HEAD"/);
+      await cx("reword", "HEAD~1", "--yes", "--no-body");
+
+      assert.deepEqual(git(repo, "log", "--format=%s").split("\n"), [
+        "wip again",
+        "Added notes file b.txt",
+        "init",
+      ]);
+    });
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { cliIn, commitFile, git, startServer, withRepo, writeUserConfig } from "./helpers.mjs";
+
+// One summary group covering every file in the prompt.
+const summarize = prompt => ({
+  groups: [{
+    files: [...new Set(prompt.match(/[a-z]\.txt/g))],
+    message: "Added the notes feature",
+    description: ["Added notes files"],
+    confidence: 0.9,
+  }],
+});
+
+test("cx squash replaces the branch commits with one summarized commit", async () => {
+  const server = await startServer(summarize);
+  try {
+    await withRepo(
+      async (repo, root) => {
+        const cx = cliIn(repo, root);
+        await commitFile(repo, "a.txt", "a.txt\n", "init");
+        git(repo, "checkout", "-qb", "topic");
+        await commitFile(repo, "b.txt", "b.txt\n", "wip");
+        await commitFile(repo, "c.txt", "c.txt\n", "more wip");
+        const tipTree = git(repo, "rev-parse", "HEAD^{tree}");
+        const tip = git(repo, "rev-parse", "HEAD");
+        await writeUserConfig(root, { provider: "openai", baseUrl: server.baseUrl });
+
+        await cx("squash", "--dry-run");
+        assert.equal(git(repo, "rev-parse", "HEAD"), tip);
+        assert.match(server.prompts[0], /being squashed[\s\S]*- wip\n\s+- more wip/);
+
+        await cx("squash", "--onto", "main", "--yes");
+        assert.equal(git(repo, "rev-list", "--count", "main..HEAD"), "1");
+        assert.equal(git(repo, "rev-parse", "HEAD^{tree}"), tipTree);
+        assert.equal(git(repo, "log", "-1", "--format=%B"), "Added the notes feature\n\n- Added notes files");
+
+        await cx("undo");
+        assert.equal(git(repo, "rev-parse", "HEAD"), tip);
+      },
+      { branch: "main" }
+    );
+  } finally {
+    await server.close();
+  }
+});
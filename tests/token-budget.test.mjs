@@ -0,0 +1,93 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+const load = async () => (await import("../dist/index.js")).tokenBudget;
+
+const sanitized = (file, overrides = {}) => ({
+  file,
+  additions: 1,
+  deletions: 0,
+  changes: "+change",
+  isNew: false,
+  isDeleted: false,
+  isRenamed: false,
+  sanitized: false,
+  warnings: [],
+  ...overrides,
+});
+
+// Letters rather than digits, so the minimizer doesn't collapse the lines
+// as repetitive.
+const word = i => (i < 26 ? "" : word(Math.floor(i / 26) - 1)) + String.fromCharCode(97 + (i % 26));
+
+const addedLines = (prefix, count) =>
+  Array.from({ length: count }, (_, i) => `+export const ${prefix}${word(i)} = compute("${prefix}", ${i});`).join("\n");
+
+test("token estimates follow the model family, then the provider", async () => {
+  const { tokenEstimatorFor, estimateTokens, charsForTokens, DEFAULT_TOKEN_ESTIMATOR } = await load();
+
+  assert.equal(tokenEstimatorFor("openai", "gpt-4o-mini").charsPerToken, 3.8);
+  assert.equal(tokenEstimatorFor("openai", "claude-sonnet-4-5").charsPerToken, 3.2);
+  assert.equal(tokenEstimatorFor("ollama", "qwen2.5-coder").charsPerToken, 3.3);
+  assert.equal(tokenEstimatorFor("anthropic", "house-model").charsPerToken, 3.2);
+  assert.equal(tokenEstimatorFor(), DEFAULT_TOKEN_ESTIMATOR);
+
+  const estimator = { charsPerToken: 4 };
+  assert.equal(estimateTokens("a".repeat(40), estimator), 10);
+  assert.equal(estimateTokens("日本語", estimator), 3);
+  assert.equal(charsForTokens(10, estimator), 40);
+});
+
+test("fileSignificance ranks by kind of file and additions, not size", async () => {
+  const { fileSignificance } = await load();
+  const source = fileSignificance({ file: "src/auth.ts", additions: 10, deletions: 0, isDeleted: false });
+
+  assert.equal(
+    fileSignificance({ file: "src/huge.ts", additions: 5000, deletions: 0, isDeleted: false }),
+    source
+  );
+  assert.ok(fileSignificance({ file: "src/auth.test.ts", additions: 10, deletions: 0, isDeleted: false }) < source);
+  assert.ok(fileSignificance({ file: "README.md", additions: 10, deletions: 0, isDeleted: false }) < source);
+  assert.ok(fileSignificance({ file: "src/auth.ts", additions: 0, deletions: 10, isDeleted: false }) < source);
+  assert.ok(
+    fileSignificance({ file: "docs/api.md", additions: 10, deletions: 0, isDeleted: false }, { "docs/**": "REGULAR" }) ===
+      source
+  );
+});
+
+test("allocateTokenBudgets caps at demand and hands the rest to files that want more", async () => {
+  const { allocateTokenBudgets } = await load();
+  const bounds = { min: 50, max: 750 };
+
+  assert.deepEqual(allocateTokenBudgets([100, 2000, 2000], [1, 1, 1], 1100, bounds), [100, 500, 500]);
+  assert.deepEqual(allocateTokenBudgets([20, 5000], [1, 1], 10_000, bounds), [20, 750]);
+  assert.deepEqual(allocateTokenBudgets([1000, 1000], [3, 1], 400, bounds), [275, 125]);
+  assert.deepEqual(allocateTokenBudgets([0, 400], [1, 0], 100, bounds), [0, 100]);
+});
+
+test("a large refactor no longer truncates a small source file next to it", async () => {
+  const { aiPrompt } = await import("../dist/index.js");
+  const auth = addedLines("authRule", 24);
+  const diffs = [
+    ...Array.from({ length: 60 }, (_, i) =>
+      sanitized(`tests/case${i}.test.ts`, { additions: 80, changes: addedLines(`case${word(i)}`, 80) })
+    ),
+    sanitized("src/auth.ts", { additions: 24, changes: auth }),
+  ];
+
+  const { prompt } = aiPrompt.buildAggregatedPrompt(diffs);
+  assert.ok(prompt.includes(auth), "src/auth.ts should be sent whole");
+  assert.ok(!prompt.includes(diffs[0].changes), "the refactored tests are compressed");
+});
+
+test("maxPromptTokens shrinks the diff content for small-context models", async () => {
+  const { aiPrompt } = await import("../dist/index.js");
+  const diffs = Array.from({ length: 20 }, (_, i) =>
+    sanitized(`src/module${i}.ts`, { additions: 60, changes: addedLines(`module${word(i)}`, 60) })
+  );
+
+  const full = aiPrompt.buildAggregatedPrompt(diffs).prompt;
+  const small = aiPrompt.buildAggregatedPrompt(diffs, { budget: { maxPromptTokens: 4000 } }).prompt;
+  assert.ok(small.length < full.length / 2, `${small.length} vs ${full.length}`);
+  assert.ok(small.length < 4000 * 3.5, `small prompt was ${small.length} characters`);
+});
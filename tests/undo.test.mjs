@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import process from "node:process";
+import test from "node:test";
+import { commitFile, git, withRepo } from "./helpers.mjs";
+
+const sha = char => char.repeat(40);
+
+const session = (id, commits, extra = {}) => ({
+  id,
+  startedAt: "2026-01-01T00:00:00.000Z",
+  startHead: sha("0"),
+  commits: commits.map(c => ({ sha: sha(c), message: `Commit ${c}`, files: ["a.ts"] })),
+  ...extra,
+});
+
+test("selectSession picks the newest session that still has commits", async () => {
+  const { selectSession } = (await import("../dist/index.js")).undo;
+  const sessions = [
+    session(1, ["a"]),
+    session(2, ["b"], { undoneAt: "2026-01-02T00:00:00.000Z" }),
+    session(3, []),
+  ];
+
+  assert.equal(selectSession(sessions).id, 1);
+  assert.equal(selectSession(sessions, 2), "Session 2 was already undone");
+  assert.equal(selectSession(sessions, 9), "Session 9 is not in the cx journal");
+  assert.equal(selectSession([]), "No cx commits to undo in this repository");
+});
+
+test("findUndoBlocker refuses when other commits sit on top of the session", async () => {
+  const { findUndoBlocker } = (await import("../dist/index.js")).undo;
+  const target = session(4, ["a", "b"]);
+
+  assert.equal(findUndoBlocker(target, [sha("b"), sha("a")]), null);
+  assert.match(findUndoBlocker(target, [sha("c"), sha("b")]), /must be undone first/);
+  assert.match(findUndoBlocker(target, [sha("b"), sha("d")]), /rewritten/);
+});
+
+test("journal sessions round-trip and undo soft-resets only their commits", async () => {
+  await withRepo(async repo => {
+    await commitFile(repo, "base.txt", "base\n", "base");
+    process.chdir(repo);
+
+    const module = await import("../dist/index.js");
+    const GitService = await module.GitService();
+    const gitService = new GitService();
+    const journal = new module.sessionJournal.SessionJournal(await gitService.getGitDir());
+
+    const run = await journal.startSession(await gitService.getHead(), "main");
+    assert.deepEqual(await journal.readSessions(), [], "nothing written before a commit");
+
+    for (const name of ["a.txt", "b.txt"]) {
+      await commitFile(repo, name, `${name}\n`, `Added ${name}`);
+      await journal.recordCommit(run, { sha: await gitService.getHead(), message: `Added ${name}`, files: [name] });
+    }
+
+    const [stored] = await journal.readSessions();
+    assert.equal(stored.id, 1);
+    assert.equal(stored.commits.length, 2);
+    const journalPath = path.join(repo, ".git", "commitx", "journal.json");
+    assert.ok((await readFile(journalPath, "utf-8")).includes("Added b.txt"));
+
+    const { findUndoBlocker } = module.undo;
+    assert.equal(findUndoBlocker(stored, await gitService.getRecentCommits(2)), null);
+
+    await gitService.resetSoft(stored.startHead);
+    await journal.markUndone(stored);
+
+    assert.equal(git(repo, "log", "--format=%s"), "base");
+    assert.equal(git(repo, "diff", "--cached", "--name-only"), "a.txt\nb.txt");
+    assert.ok((await journal.readSessions())[0].undoneAt);
+    assert.equal((await journal.startSession(null)).id, 2);
+  });
+});